@@ -1,101 +1,1228 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
 import {
   ImageUploader,
   InteractiveImageDisplay,
   LoadingSpinner,
-  AlertTriangle,
   Lightbulb,
   UploadCloud,
   XCircle,
   Edit3,
+  StopCircle,
+  FollowUpThread,
+  RegionAnswerList,
+  StructuredExplanationView,
+  PromptModePicker,
+  SessionHistory,
+  Markdown,
+  CopyAnswerButtons,
+  ErrorBanner,
+  PdfPageStrip,
+  ImageGallery,
+  BatchQueuePanel,
+  OcrPanel,
+  EntityList,
+  SettingsDialog,
+  Settings,
+  ExportSettings,
+  IMAGE_QUALITY_OPTIONS,
 } from "./src/components";
 import { InteractiveImageDisplayRef } from "./src/components/InteractiveImageDisplay";
-import { getExplanationForImageRegion } from "./utils/geminiService";
+import { FollowUpMessage } from "./src/components/FollowUpThread";
+import { ImageQuality } from "./src/components/ExportSettings";
+import { BatchExportFormat } from "./src/components/BatchQueuePanel";
+import {
+  ConversationTurn,
+  DocumentPage,
+  GenerationConfig,
+  extractEntityBoxes,
+  getExplanationForImageRegion,
+  isAbortError,
+  isVisionProviderConfigured,
+  MarkedRegion,
+  parseStructuredExplanation,
+  splitAnswerByRegion,
+  structuredExplanationToMarkdown,
+  streamExplanationForImageRegion,
+  streamFollowUpAnswer,
+} from "./utils/geminiService";
+import {
+  AuthError,
+  getProviderConfigFromEnv,
+  setActiveProvider,
+} from "./utils/providers";
+import {
+  createProviderForSettings,
+  loadSettings,
+  saveSettings,
+  toGenerationConfig,
+  UserSettings,
+} from "./utils/settings";
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  DEFAULT_TEMPLATE_VARIABLES,
+  loadCustomTemplates,
+  PromptTemplate,
+  saveCustomTemplates,
+  TemplateVariables,
+} from "./utils/promptTemplates";
+import {
+  exportAnnotatedImage,
+  ExportOptions,
+  exportMarkedCrop,
+  getRegionQuestions,
+  Region,
+} from "./src/annotations";
+import {
+  createSessionId,
+  deleteSession,
+  PortableSession,
+  readSessionFile,
+  serializeSession,
+  Session,
+  sessionFileName,
+  fileToStoredImage,
+  getSession,
+  getStorageUsage,
+  listSessions,
+  saveSession,
+  SessionSummary,
+  StorageUsage,
+  storedImageToFile,
+} from "./src/sessions";
+import { loadImageElement, preprocessImage } from "./src/images";
+import { loadPdf, PdfDocument } from "./src/pdf";
+import { createOcrEngine, OcrEngine, OcrProgress, OcrResult } from "./src/ocr";
+import {
+  createGalleryItemId,
+  GalleryItem,
+  galleryNeighbour,
+  isGalleryItemReady,
+  removeGalleryItem,
+  updateGalleryItem,
+} from "./src/gallery";
+import { downloadTextFile } from "./utils/download";
+import {
+  createJobQueue,
+  DEFAULT_CONCURRENCY,
+  Job,
+  JobQueue,
+} from "./utils/jobQueue";
+import {
+  BatchResult,
+  batchResultsToCsv,
+  batchResultsToJson,
+} from "./utils/batchExport";
+
+const MISSING_KEY_MESSAGE =
+  "No API key is set. Add one in Settings to get explanations. You can still read the marked text offline with Read text.";
+
+// What the current explanation was asked about; follow-ups reuse it as context.
+interface ExplanationContext {
+  imageDataUrl: string;
+  detailImageDataUrl?: string;
+  regions: MarkedRegion[];
+  template: string;
+  variables: TemplateVariables;
+  page?: DocumentPage;
+  recognizedText?: string;
+}
+
+// Everything on screen that belongs to one image, kept per gallery image.
+interface ImageWorkspace {
+  regions: Region[];
+  response: string | null;
+  answerIsStructured: boolean;
+  answerFromCache: boolean;
+  wasCancelled: boolean;
+  explanationContext: ExplanationContext | null;
+  followUps: FollowUpMessage[];
+  sessionId: string | null;
+}
+
+const EMPTY_WORKSPACE: ImageWorkspace = {
+  regions: [],
+  response: null,
+  answerIsStructured: false,
+  answerFromCache: false,
+  wasCancelled: false,
+  explanationContext: null,
+  followUps: [],
+  sessionId: null,
+};
+
+// One image of a batch run, with the settings in effect when it was queued.
+interface BatchInput {
+  imageId: string;
+  file: File;
+  regions: Region[];
+  template: PromptTemplate;
+  variables: TemplateVariables;
+  structured: boolean;
+  exportOptions: ExportOptions;
+  sendCloseUp: boolean;
+  generation?: GenerationConfig;
+}
+
+// Follow-ups are stored as question/answer pairs; only pairs that were
+// answered successfully are sent back to the model as context.
+const toConversationTurns = (
+  messages: FollowUpMessage[]
+): ConversationTurn[] => {
+  const turns: ConversationTurn[] = [];
+  for (let i = 0; i + 1 < messages.length; i += 2) {
+    const [question, answer] = [messages[i], messages[i + 1]];
+    if (answer.status !== "done") continue;
+    turns.push(
+      { role: "user", text: question.text },
+      { role: "model", text: answer.text }
+    );
+  }
+  return turns;
+};
 
 const App = () => {
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadNotice, setUploadNotice] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | Error | null>(null);
+  // Re-runs the request that failed, offered when the failure is retryable.
+  const [retryAction, setRetryAction] = useState<(() => void) | null>(null);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
   const [geminiResponse, setGeminiResponse] = useState<string | null>(null);
   const [hasMarkings, setHasMarkings] = useState<boolean>(false);
+  const [wasCancelled, setWasCancelled] = useState<boolean>(false);
+  const [explanationContext, setExplanationContext] =
+    useState<ExplanationContext | null>(null);
+  const [followUps, setFollowUps] = useState<FollowUpMessage[]>([]);
+  const [imageQuality, setImageQuality] = useState<ImageQuality>("png");
+  const [sendCloseUp, setSendCloseUp] = useState<boolean>(true);
+  const [structuredMode, setStructuredMode] = useState<boolean>(false);
+  const [answerIsStructured, setAnswerIsStructured] = useState<boolean>(false);
+  const [answerFromCache, setAnswerFromCache] = useState<boolean>(false);
+  const [customTemplates, setCustomTemplates] =
+    useState<PromptTemplate[]>(loadCustomTemplates);
+  const [templateId, setTemplateId] = useState<string>(DEFAULT_TEMPLATE_ID);
+  const [templateVariables, setTemplateVariables] = useState<TemplateVariables>(
+    DEFAULT_TEMPLATE_VARIABLES
+  );
+
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [restoredRegions, setRestoredRegions] = useState<Region[] | undefined>(
+    undefined
+  );
+  // Set while the image on screen is a page of an uploaded PDF.
+  const [pdfDocument, setPdfDocument] = useState<PdfDocument | null>(null);
+  const [pdfPage, setPdfPage] = useState<number>(1);
+  const [pdfThumbnails, setPdfThumbnails] = useState<(string | undefined)[]>(
+    []
+  );
+  const [pageText, setPageText] = useState<string>("");
+  // Uploaded images; PDFs are opened on their own instead.
+  const [gallery, setGallery] = useState<GalleryItem<ImageWorkspace>[]>([]);
+  const [activeImageId, setActiveImageId] = useState<string | null>(null);
+  const [batchJobs, setBatchJobs] = useState<Job<BatchInput, string>[]>([]);
+  const [batchConcurrency, setBatchConcurrency] =
+    useState<number>(DEFAULT_CONCURRENCY);
+  // Offline OCR of the marked area; `ocrText` is what the user kept of it.
+  const [ocrResult, setOcrResult] = useState<OcrResult | null>(null);
+  const [ocrText, setOcrText] = useState<string>("");
+  const [ocrProgress, setOcrProgress] = useState<OcrProgress | null>(null);
+  const [ocrError, setOcrError] = useState<string | null>(null);
+  const [includeOcrText, setIncludeOcrText] = useState<boolean>(true);
+  const [settings, setSettings] = useState<UserSettings>(loadSettings);
+  const [settingsOpen, setSettingsOpen] = useState<boolean>(false);
 
   const interactiveImageRef = useRef<InteractiveImageDisplayRef>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Follow-ups have their own, so finishing one never clears or cancels the
+  // main request's controller.
+  const followUpControllerRef = useRef<AbortController | null>(null);
+  const nextMessageIdRef = useRef(0);
+  // Only the latest upload may replace the image once preprocessing finishes.
+  const uploadIdRef = useRef(0);
+  // Annotations of PDF pages other than the one on screen, by page number.
+  const pageRegionsRef = useRef(new Map<number, Region[]>());
+  // The newest gallery image; it is shown once it has been prepared.
+  const latestImageIdRef = useRef<string | null>(null);
+  const activeImageIdRef = useRef<string | null>(null);
+  activeImageIdRef.current = activeImageId;
+  // The on-screen answer state as of the last render, for handlers that
+  // switch images after an await.
+  const workspaceRef = useRef(EMPTY_WORKSPACE);
+  workspaceRef.current = {
+    regions: [],
+    response: geminiResponse,
+    answerIsStructured,
+    answerFromCache,
+    wasCancelled,
+    explanationContext,
+    followUps,
+    sessionId: activeSessionId,
+  };
+  // Created by the first "Learn All Marked" run.
+  const batchQueueRef = useRef<JobQueue<BatchInput, string> | null>(null);
+  const ocrEngineRef = useRef<OcrEngine | null>(null);
+  // Only the latest OCR run may show its result.
+  const ocrRunIdRef = useRef(0);
+
+  // Free-form answers end with a block of boxes for what they mention,
+  // which is shown on the image instead of as text.
+  const answerParts = useMemo(
+    () =>
+      geminiResponse && !answerIsStructured
+        ? extractEntityBoxes(geminiResponse)
+        : null,
+    [geminiResponse, answerIsStructured]
+  );
+  const answerText = answerParts?.text ?? geminiResponse;
+
+  const regionAnswers = useMemo(
+    () => (answerText ? splitAnswerByRegion(answerText) : null),
+    [answerText]
+  );
+
+  // Structured answers are only parsed once complete; a reply that fails
+  // validation is shown as plain text instead.
+  const structuredAnswer = useMemo(
+    () =>
+      answerIsStructured && geminiResponse && !isLoading
+        ? parseStructuredExplanation(geminiResponse)
+        : null,
+    [answerIsStructured, geminiResponse, isLoading]
+  );
+
+  const entityBoxes = useMemo(
+    () => structuredAnswer?.entities ?? answerParts?.boxes ?? [],
+    [structuredAnswer, answerParts]
+  );
+  const [highlightedBox, setHighlightedBox] = useState<number | null>(null);
+  useEffect(() => setHighlightedBox(null), [entityBoxes]);
+
+  const refreshHistory = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setStorageUsage(await getStorageUsage());
+    } catch (err) {
+      console.error("Could not load session history:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshHistory();
+  }, [refreshHistory]);
+
+  useEffect(
+    () => () => {
+      ocrEngineRef.current?.terminate();
+    },
+    []
+  );
+
+  // The key and model pick the provider; the rest goes with each request.
+  useEffect(() => {
+    setActiveProvider(createProviderForSettings(settings));
+  }, [settings.apiKey, settings.model]);
+  const generation = useMemo(() => toGenerationConfig(settings), [settings]);
+  const providerConfig = useMemo(getProviderConfigFromEnv, []);
+
+  const templates = useMemo(
+    () => [...BUILT_IN_TEMPLATES, ...customTemplates],
+    [customTemplates]
+  );
+  const selectedTemplate =
+    templates.find(({ id }) => id === templateId) ?? templates[0];
+
+  const updateCustomTemplates = (next: PromptTemplate[]) => {
+    setCustomTemplates(next);
+    saveCustomTemplates(next);
+  };
+
+  const handleSaveTemplate = (template: PromptTemplate) => {
+    const exists = customTemplates.some(({ id }) => id === template.id);
+    updateCustomTemplates(
+      exists
+        ? customTemplates.map((existing) =>
+            existing.id === template.id ? template : existing
+          )
+        : [...customTemplates, template]
+    );
+    setTemplateId(template.id);
+  };
 
-  const handleImageUpload = (file: File) => {
+  const handleDeleteTemplate = (id: string) => {
+    updateCustomTemplates(
+      customTemplates.filter((template) => template.id !== id)
+    );
+    setTemplateId(DEFAULT_TEMPLATE_ID);
+  };
+
+  const isAnsweringFollowUp = followUps.some(
+    (message) => message.status === "pending"
+  );
+
+  const cancelRequest = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    followUpControllerRef.current?.abort();
+    followUpControllerRef.current = null;
+  };
+
+  const resetOcr = () => {
+    ocrRunIdRef.current++;
+    setOcrResult(null);
+    setOcrText("");
+    setOcrProgress(null);
+    setOcrError(null);
+  };
+
+  // Puts an image on screen together with its saved workspace; a new image
+  // starts empty.
+  const showImage = (
+    file: File,
+    workspace: ImageWorkspace = EMPTY_WORKSPACE
+  ) => {
+    cancelRequest();
     setUploadedFile(file);
-    setGeminiResponse(null);
+    setRestoredRegions(workspace.regions);
+    setActiveSessionId(workspace.sessionId);
+    setGeminiResponse(workspace.response);
+    setAnswerIsStructured(workspace.answerIsStructured);
+    setAnswerFromCache(workspace.answerFromCache);
+    setWasCancelled(workspace.wasCancelled);
+    setExplanationContext(workspace.explanationContext);
+    setFollowUps(workspace.followUps);
     setError(null);
+    setRetryAction(null);
     setHasMarkings(false);
+    resetOcr();
     interactiveImageRef.current?.clearSelection();
   };
 
+  // Snapshot of the on-screen image's workspace. Switching away cancels any
+  // request, so unfinished follow-ups are saved as cancelled.
+  const captureWorkspace = (): ImageWorkspace => ({
+    ...workspaceRef.current,
+    regions: interactiveImageRef.current?.getRegions() ?? [],
+    followUps: workspaceRef.current.followUps.map((message) =>
+      message.status === "pending"
+        ? { ...message, status: "error", error: "Cancelled." }
+        : message
+    ),
+  });
+
+  const showGalleryImage = (
+    id: string,
+    file: File,
+    workspace: ImageWorkspace
+  ) => {
+    const previousId = activeImageIdRef.current;
+    if (previousId && previousId !== id) {
+      const saved = captureWorkspace();
+      setGallery((items) =>
+        updateGalleryItem(items, previousId, { workspace: saved })
+      );
+    }
+    setActiveImageId(id);
+    activeImageIdRef.current = id;
+    showImage(file, workspace);
+  };
+
+  const clearGallery = () => {
+    gallery.forEach(({ thumbnailUrl }) => {
+      if (thumbnailUrl) URL.revokeObjectURL(thumbnailUrl);
+    });
+    setGallery([]);
+    setActiveImageId(null);
+    activeImageIdRef.current = null;
+    latestImageIdRef.current = null;
+  };
+
+  const closePdf = () => {
+    pdfDocument?.destroy();
+    setPdfDocument(null);
+    setPdfThumbnails([]);
+    setPageText("");
+    pageRegionsRef.current.clear();
+  };
+
+  // Adds an image to the gallery. Several uploads can be prepared at once;
+  // they keep their upload order and the last one is shown.
+  const handleImageUpload = async (file: File) => {
+    const id = createGalleryItemId();
+    latestImageIdRef.current = id;
+    // An image replaces a PDF that is open or still loading.
+    uploadIdRef.current++;
+    if (pdfDocument) closePdf();
+    setUploadError(null);
+    setUploadNotice("Preparing image...");
+    setGallery((items) => [
+      ...items,
+      { id, name: file.name, workspace: EMPTY_WORKSPACE },
+    ]);
+
+    let prepared;
+    try {
+      prepared = await preprocessImage(file);
+    } catch (err) {
+      setGallery((items) => removeGalleryItem(items, id));
+      if (latestImageIdRef.current === id) setUploadNotice(null);
+      setUploadError(
+        err instanceof Error ? err.message : "Could not open this image."
+      );
+      return;
+    }
+    const preparedFile = prepared.file;
+    setGallery((items) =>
+      updateGalleryItem(items, id, {
+        file: preparedFile,
+        thumbnailUrl: URL.createObjectURL(preparedFile),
+      })
+    );
+    if (latestImageIdRef.current !== id) return;
+    setUploadNotice(prepared.notes.join(" ") || null);
+    showGalleryImage(id, preparedFile, EMPTY_WORKSPACE);
+  };
+
+  const handleSelectImage = (id: string) => {
+    const item = gallery.find((candidate) => candidate.id === id);
+    if (!item || !isGalleryItemReady(item) || id === activeImageId) return;
+    latestImageIdRef.current = null;
+    setUploadNotice(null);
+    showGalleryImage(id, item.file, item.workspace);
+  };
+
+  const handleRemoveImage = (id: string) => {
+    const item = gallery.find((candidate) => candidate.id === id);
+    if (item?.thumbnailUrl) URL.revokeObjectURL(item.thumbnailUrl);
+    if (latestImageIdRef.current === id) latestImageIdRef.current = null;
+    setGallery((items) => removeGalleryItem(items, id));
+    if (id !== activeImageId) return;
+
+    const next = galleryNeighbour(gallery, id);
+    if (next) {
+      // The removed image's workspace is dropped, not saved.
+      activeImageIdRef.current = null;
+      showGalleryImage(next.id, next.file, next.workspace);
+      return;
+    }
+    cancelRequest();
+    setActiveImageId(null);
+    setUploadedFile(null);
+    setGeminiResponse(null);
+    setExplanationContext(null);
+    setFollowUps([]);
+    setActiveSessionId(null);
+    setHasMarkings(false);
+  };
+
+  // Renders a page and shows it with the annotations it had before.
+  // `fromPage` is the page being left, whose annotations are kept.
+  const showPdfPage = async (
+    pdf: PdfDocument,
+    pageNumber: number,
+    uploadId: number,
+    fromPage?: number
+  ) => {
+    const [image, text] = await Promise.all([
+      pdf.renderPage(pageNumber),
+      // Scanned pages have no text layer; the image alone still works.
+      pdf.getPageText(pageNumber).catch(() => ""),
+    ]);
+    if (uploadId !== uploadIdRef.current) return;
+    if (fromPage !== undefined) {
+      pageRegionsRef.current.set(
+        fromPage,
+        interactiveImageRef.current?.getRegions() ?? []
+      );
+    }
+    setPdfPage(pageNumber);
+    setPageText(text);
+    showImage(image, {
+      ...EMPTY_WORKSPACE,
+      regions: pageRegionsRef.current.get(pageNumber) ?? [],
+    });
+  };
+
+  const handlePdfFile = async (file: File) => {
+    const uploadId = ++uploadIdRef.current;
+    setUploadError(null);
+    setUploadNotice("Opening PDF...");
+    try {
+      const pdf = await loadPdf(file);
+      if (uploadId !== uploadIdRef.current) {
+        pdf.destroy();
+        return;
+      }
+      closePdf();
+      clearGallery();
+      setPdfDocument(pdf);
+      await showPdfPage(pdf, 1, uploadId);
+      if (uploadId === uploadIdRef.current) setUploadNotice(null);
+    } catch (err) {
+      if (uploadId !== uploadIdRef.current) return;
+      setUploadNotice(null);
+      setUploadError(
+        err instanceof Error ? err.message : "Could not open this PDF."
+      );
+    }
+  };
+
+  const handleSelectPage = async (pageNumber: number) => {
+    if (!pdfDocument || pageNumber === pdfPage) return;
+    if (pageNumber < 1 || pageNumber > pdfDocument.pageCount) return;
+    const uploadId = ++uploadIdRef.current;
+    setUploadError(null);
+    try {
+      await showPdfPage(pdfDocument, pageNumber, uploadId, pdfPage);
+    } catch (err) {
+      if (uploadId !== uploadIdRef.current) return;
+      setUploadError(
+        err instanceof Error
+          ? err.message
+          : `Could not render page ${pageNumber}.`
+      );
+    }
+  };
+
+  // Thumbnails render one at a time in the background after a PDF opens.
+  useEffect(() => {
+    if (!pdfDocument) return;
+    let cancelled = false;
+    (async () => {
+      for (let page = 1; page <= pdfDocument.pageCount; page++) {
+        if (cancelled) return;
+        try {
+          const thumbnail = await pdfDocument.renderThumbnail(page);
+          if (cancelled) return;
+          setPdfThumbnails((prev) => {
+            const next = [...prev];
+            next[page - 1] = thumbnail;
+            return next;
+          });
+        } catch {
+          // The strip shows the page number instead.
+        }
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument]);
+
+  // The on-screen image's saved workspace is stale, so its answer is read
+  // from the live state instead.
+  const answeredImageIds = gallery
+    .filter(({ id, workspace }) =>
+      id === activeImageId
+        ? Boolean(geminiResponse)
+        : Boolean(workspace.response)
+    )
+    .map(({ id }) => id);
+
+  const markedPages = pdfDocument
+    ? [
+        ...[...pageRegionsRef.current]
+          .filter(([page, regions]) => page !== pdfPage && regions.length > 0)
+          .map(([page]) => page),
+        ...(hasMarkings ? [pdfPage] : []),
+      ]
+    : [];
+
   const handleMarkingsChange = useCallback((markingsExist: boolean) => {
     setHasMarkings(markingsExist);
   }, []); // Memoize with useCallback
 
-  const handleLearn = useCallback(async () => {
-    if (!process.env.API_KEY) {
-      setError("API Key is missing. Please configure it in your environment.");
-      console.error("Error: process.env.API_KEY is not set.");
+  // `skipCache` asks the model again even if this exact request was answered
+  // before.
+  const handleLearn = useCallback(
+    async ({ skipCache = false } = {}) => {
+      if (!isVisionProviderConfigured()) {
+        setError(new AuthError(MISSING_KEY_MESSAGE));
+        return;
+      }
+
+      if (!uploadedFile) {
+        setError("Please upload an image first.");
+        return;
+      }
+      if (!hasMarkings) {
+        setError(
+          "Please mark or underline the area on the image to learn about."
+        );
+        return;
+      }
+      if (!interactiveImageRef.current) {
+        setError("Image display component is not ready.");
+        return;
+      }
+
+      const exportOptions = IMAGE_QUALITY_OPTIONS[imageQuality].options;
+      const annotatedImageDataUrl =
+        interactiveImageRef.current.getAnnotatedImageDataUrl(exportOptions);
+      if (!annotatedImageDataUrl) {
+        setError(
+          "Could not get annotated image data. Please try re-marking the area."
+        );
+        return;
+      }
+
+      const detailImageDataUrl = sendCloseUp
+        ? (interactiveImageRef.current.getMarkedAreaDataUrl(exportOptions) ??
+          undefined)
+        : undefined;
+      const regions = interactiveImageRef.current.getRegionQuestions();
+      const annotations = interactiveImageRef.current.getRegions();
+      const page = pdfDocument
+        ? { number: pdfPage, pageCount: pdfDocument.pageCount, text: pageText }
+        : undefined;
+      const recognizedText =
+        includeOcrText && ocrText.trim() ? ocrText : undefined;
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+
+      setIsLoading(true);
+      setError(null);
+      setRetryAction(null);
+      setRetryStatus(null);
+      setGeminiResponse(null);
+      setWasCancelled(false);
+      setAnswerIsStructured(structuredMode);
+      setAnswerFromCache(false);
+      setActiveSessionId(null);
+      setExplanationContext({
+        imageDataUrl: annotatedImageDataUrl,
+        detailImageDataUrl,
+        regions,
+        template: selectedTemplate.text,
+        variables: templateVariables,
+        page,
+        recognizedText,
+      });
+      setFollowUps([]);
+
+      let fromCache = false;
+      try {
+        const explanation = await streamExplanationForImageRegion(
+          annotatedImageDataUrl,
+          {
+            signal: controller.signal,
+            // Partial JSON is not worth showing, so structured answers appear
+            // once they are complete.
+            onText: structuredMode ? undefined : setGeminiResponse,
+            regions,
+            detailImageDataUrl,
+            structured: structuredMode,
+            template: selectedTemplate.text,
+            variables: templateVariables,
+            page,
+            recognizedText,
+            locateEntities: true,
+            generation,
+            skipCache,
+            onRetry: (attempt, _error, delayMs) =>
+              setRetryStatus(
+                `Temporary problem; retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`
+              ),
+            onCacheHit: () => {
+              fromCache = true;
+            },
+          }
+        );
+        setGeminiResponse(explanation);
+        setAnswerFromCache(fromCache);
+        // A cached answer is already in the history from the run that made it.
+        if (fromCache) return;
+
+        const session = {
+          id: createSessionId(),
+          createdAt: Date.now(),
+          imageName: uploadedFile.name,
+          image: await fileToStoredImage(uploadedFile),
+          regions: annotations,
+          prompt: {
+            templateId: selectedTemplate.id,
+            templateName: selectedTemplate.name,
+            templateText: selectedTemplate.text,
+            variables: templateVariables,
+            structured: structuredMode,
+          },
+          response: explanation,
+        };
+        // History is a convenience; failing to save must not hide the answer.
+        saveSession(session)
+          .then(() => {
+            setActiveSessionId(session.id);
+            return refreshHistory();
+          })
+          .catch((saveError) =>
+            console.error("Could not save the session:", saveError)
+          );
+      } catch (err) {
+        // A cancelled request keeps whatever text had already streamed in.
+        if (controller.signal.aborted || isAbortError(err)) {
+          setWasCancelled(true);
+          return;
+        }
+        console.error("Gemini API error:", err);
+        setError(
+          err instanceof Error ? err : new Error("An unknown error occurred.")
+        );
+        setRetryAction(() => () => handleLearn({ skipCache }));
+      } finally {
+        setRetryStatus(null);
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
+        setIsLoading(false);
+      }
+    },
+    [
+      uploadedFile,
+      hasMarkings,
+      imageQuality,
+      sendCloseUp,
+      structuredMode,
+      selectedTemplate,
+      templateVariables,
+      refreshHistory,
+      pdfDocument,
+      pdfPage,
+      pageText,
+      includeOcrText,
+      ocrText,
+      generation,
+    ]
+  );
+
+  const handleAskFollowUp = useCallback(
+    async (question: string) => {
+      if (!explanationContext || !geminiResponse) return;
+
+      const thread: ConversationTurn[] = [
+        { role: "model", text: answerText ?? geminiResponse },
+        ...toConversationTurns(followUps),
+        { role: "user", text: question },
+      ];
+      const questionId = `msg-${nextMessageIdRef.current++}`;
+      const answerId = `msg-${nextMessageIdRef.current++}`;
+      const updateAnswer = (patch: Partial<FollowUpMessage>) =>
+        setFollowUps((prev) =>
+          prev.map((message) =>
+            message.id === answerId ? { ...message, ...patch } : message
+          )
+        );
+
+      setFollowUps((prev) => [
+        ...prev,
+        { id: questionId, role: "user", text: question, status: "done" },
+        { id: answerId, role: "model", text: "", status: "pending" },
+      ]);
+
+      // The thread is disabled while an answer streams, so this only drops
+      // a controller left over from an earlier follow-up.
+      followUpControllerRef.current?.abort();
+      const controller = new AbortController();
+      followUpControllerRef.current = controller;
+
+      try {
+        const answer = await streamFollowUpAnswer(
+          explanationContext.imageDataUrl,
+          thread,
+          {
+            signal: controller.signal,
+            regions: explanationContext.regions,
+            detailImageDataUrl: explanationContext.detailImageDataUrl,
+            template: explanationContext.template,
+            variables: explanationContext.variables,
+            page: explanationContext.page,
+            recognizedText: explanationContext.recognizedText,
+            generation,
+            onText: (text) => updateAnswer({ text }),
+          }
+        );
+        updateAnswer({ text: answer, status: "done" });
+      } catch (err) {
+        if (controller.signal.aborted || isAbortError(err)) {
+          updateAnswer({ status: "error", error: "Cancelled." });
+          return;
+        }
+        console.error("Follow-up error:", err);
+        updateAnswer({
+          status: "error",
+          error:
+            err instanceof Error ? err.message : "An unknown error occurred.",
+        });
+      } finally {
+        if (followUpControllerRef.current === controller) {
+          followUpControllerRef.current = null;
+        }
+      }
+    },
+    [explanationContext, geminiResponse, answerText, followUps, generation]
+  );
+
+  const restoreSession = (session: Session) => {
+    const { prompt } = session;
+    if (!templates.some((template) => template.id === prompt.templateId)) {
+      // The custom template was deleted since; bring it back as it was.
+      handleSaveTemplate({
+        id: prompt.templateId,
+        name: prompt.templateName,
+        text: prompt.templateText,
+      });
+    }
+    setTemplateId(prompt.templateId);
+    setTemplateVariables(prompt.variables);
+    setStructuredMode(prompt.structured);
+
+    // A session takes the screen from uploads still being prepared, and
+    // from an open PDF.
+    uploadIdRef.current++;
+    latestImageIdRef.current = null;
+    setUploadError(null);
+    setUploadNotice(null);
+    closePdf();
+
+    const open = gallery.find(
+      ({ workspace, file }) => workspace.sessionId === session.id && file
+    );
+    if (open && isGalleryItemReady(open)) {
+      // The gallery copy of the image on screen is stale; keep what is shown.
+      if (open.id !== activeImageIdRef.current) {
+        showGalleryImage(open.id, open.file, open.workspace);
+      }
       return;
     }
+    const id = createGalleryItemId();
+    const file = storedImageToFile(session.image);
+    const workspace: ImageWorkspace = {
+      ...EMPTY_WORKSPACE,
+      regions: session.regions,
+      response: session.response,
+      answerIsStructured: prompt.structured,
+      // Follow-ups need a fresh export of the image; re-ask to continue.
+      sessionId: session.id,
+    };
+    setGallery((items) => [
+      ...items,
+      {
+        id,
+        name: file.name,
+        file,
+        thumbnailUrl: URL.createObjectURL(file),
+        workspace,
+      },
+    ]);
+    showGalleryImage(id, file, workspace);
+  };
 
-    if (!uploadedFile) {
-      setError("Please upload an image first.");
+  const handleOpenSession = async (id: string) => {
+    cancelRequest();
+    let session;
+    try {
+      session = await getSession(id);
+    } catch (err) {
+      console.error("Could not open the session:", err);
+    }
+    if (!session) {
+      setError("That session could not be opened.");
       return;
     }
-    if (!hasMarkings) {
+    restoreSession(session);
+  };
+
+  const handleImportSession = async (file: File) => {
+    cancelRequest();
+    let session: Session;
+    try {
+      session = { id: createSessionId(), ...(await readSessionFile(file)) };
+    } catch (err) {
+      console.error("Could not import the session:", err);
       setError(
-        "Please mark or underline the area on the image to learn about."
+        err instanceof Error ? err.message : "Could not import the session."
       );
       return;
     }
-    if (!interactiveImageRef.current) {
-      setError("Image display component is not ready.");
-      return;
+    restoreSession(session);
+    try {
+      await saveSession(session);
+      await refreshHistory();
+    } catch (err) {
+      console.error("Could not save the imported session:", err);
     }
+  };
 
-    const annotatedImageDataUrl =
-      interactiveImageRef.current.getAnnotatedImageDataUrl();
-    if (!annotatedImageDataUrl) {
-      setError(
-        "Could not get annotated image data. Please try re-marking the area."
+  const handleExportSession = async () => {
+    if (!uploadedFile || !interactiveImageRef.current) return;
+    const session: PortableSession = {
+      createdAt: Date.now(),
+      imageName: uploadedFile.name,
+      image: await fileToStoredImage(uploadedFile),
+      regions: interactiveImageRef.current.getRegions(),
+      prompt: {
+        templateId: selectedTemplate.id,
+        templateName: selectedTemplate.name,
+        templateText: selectedTemplate.text,
+        variables: templateVariables,
+        structured: answerIsStructured,
+      },
+      response: geminiResponse ?? "",
+    };
+    downloadTextFile(serializeSession(session), sessionFileName(session));
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error("Could not delete the session:", err);
+      setError("That session could not be deleted.");
+    }
+    if (id === activeSessionId) setActiveSessionId(null);
+    await refreshHistory();
+  };
+
+  const handleCancel = () => {
+    cancelRequest();
+  };
+
+  // Runs in the background, so it only touches setters and refs: the image
+  // may no longer be on screen when its answer arrives.
+  const runBatchJob = async (input: BatchInput, signal: AbortSignal) => {
+    const image = await loadImageElement(input.file);
+    const imageDataUrl = exportAnnotatedImage(
+      image,
+      input.regions,
+      input.exportOptions
+    );
+    if (!imageDataUrl) throw new Error("Could not export the marked image.");
+    const detailImageDataUrl = input.sendCloseUp
+      ? (exportMarkedCrop(image, input.regions, input.exportOptions) ??
+        undefined)
+      : undefined;
+    const regions = getRegionQuestions(input.regions);
+    const answer = await getExplanationForImageRegion(imageDataUrl, {
+      signal,
+      regions,
+      detailImageDataUrl,
+      structured: input.structured,
+      template: input.template.text,
+      variables: input.variables,
+      generation: input.generation,
+    });
+
+    const sessionId = createSessionId();
+    const answered: Partial<ImageWorkspace> = {
+      response: answer,
+      answerIsStructured: input.structured,
+      answerFromCache: false,
+      wasCancelled: false,
+      explanationContext: {
+        imageDataUrl,
+        detailImageDataUrl,
+        regions,
+        template: input.template.text,
+        variables: input.variables,
+      },
+      followUps: [],
+      sessionId,
+    };
+    if (activeImageIdRef.current === input.imageId) {
+      setGeminiResponse(answer);
+      setAnswerIsStructured(input.structured);
+      setAnswerFromCache(false);
+      setWasCancelled(false);
+      setExplanationContext(answered.explanationContext!);
+      setFollowUps([]);
+      setActiveSessionId(sessionId);
+    } else {
+      setGallery((items) =>
+        items.map((item) =>
+          item.id === input.imageId
+            ? { ...item, workspace: { ...item.workspace, ...answered } }
+            : item
+        )
       );
-      return;
     }
 
-    setIsLoading(true);
+    // As with single runs, history must not fail the job.
+    fileToStoredImage(input.file)
+      .then((image) =>
+        saveSession({
+          id: sessionId,
+          createdAt: Date.now(),
+          imageName: input.file.name,
+          image,
+          regions: input.regions,
+          prompt: {
+            templateId: input.template.id,
+            templateName: input.template.name,
+            templateText: input.template.text,
+            variables: input.variables,
+            structured: input.structured,
+          },
+          response: answer,
+        })
+      )
+      .then(refreshHistory)
+      .catch((saveError) =>
+        console.error("Could not save the session:", saveError)
+      );
+    return answer;
+  };
+
+  const getBatchQueue = () => {
+    batchQueueRef.current ??= createJobQueue({
+      run: runBatchJob,
+      concurrency: batchConcurrency,
+      onChange: setBatchJobs,
+    });
+    return batchQueueRef.current;
+  };
+
+  // The on-screen image's markings are read live; the others come from
+  // their saved workspaces.
+  const getImageRegions = (item: GalleryItem<ImageWorkspace>) =>
+    item.id === activeImageId
+      ? (interactiveImageRef.current?.getRegions() ?? [])
+      : item.workspace.regions;
+
+  const markedImageCount = gallery.filter((item) =>
+    item.id === activeImageId
+      ? hasMarkings
+      : isGalleryItemReady(item) && item.workspace.regions.length > 0
+  ).length;
+
+  const handleLearnAll = () => {
+    if (!isVisionProviderConfigured()) {
+      setError(new AuthError(MISSING_KEY_MESSAGE));
+      return;
+    }
+    const jobs = gallery
+      .filter(isGalleryItemReady)
+      .map((item) => ({ item, regions: getImageRegions(item) }))
+      .filter(({ regions }) => regions.length > 0)
+      .map(({ item, regions }) => ({
+        id: item.id,
+        label: item.name,
+        input: {
+          imageId: item.id,
+          file: item.file,
+          regions,
+          template: selectedTemplate,
+          variables: templateVariables,
+          structured: structuredMode,
+          exportOptions: IMAGE_QUALITY_OPTIONS[imageQuality].options,
+          sendCloseUp,
+          generation,
+        },
+      }));
+    if (jobs.length === 0) {
+      setError("Mark at least one image before learning about all of them.");
+      return;
+    }
     setError(null);
-    setGeminiResponse(null);
+    getBatchQueue().add(jobs);
+  };
 
-    try {
-      const explanation = await getExplanationForImageRegion(
-        annotatedImageDataUrl
+  const handleSaveSettings = (next: UserSettings) => {
+    saveSettings(next);
+    setSettings(next);
+    setSettingsOpen(false);
+    // The missing or rejected key may just have been fixed
+    if (error instanceof AuthError) setError(null);
+  };
+
+  const handleBatchConcurrencyChange = (concurrency: number) => {
+    setBatchConcurrency(concurrency);
+    batchQueueRef.current?.setConcurrency(concurrency);
+  };
+
+  const handleExportBatch = (format: BatchExportFormat) => {
+    const results: BatchResult[] = batchJobs
+      .filter(({ status }) => status === "done" || status === "failed")
+      .map((job) => ({
+        image: job.label,
+        status: job.status,
+        attempts: job.attempts,
+        answer: job.result ?? "",
+        error:
+          job.status === "failed" && job.error instanceof Error
+            ? job.error.message
+            : "",
+        structured: job.input.structured,
+      }));
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === "csv") {
+      downloadTextFile(
+        batchResultsToCsv(results),
+        `batch-${stamp}.csv`,
+        "text/csv"
       );
-      setGeminiResponse(explanation);
-    } catch (err) {
-      console.error("Gemini API error:", err);
-      const errorMessage =
-        err instanceof Error ? err.message : "An unknown error occurred.";
-      if (errorMessage.includes("API key not valid")) {
-        setError(
-          "Invalid API Key. Please check your API_KEY environment variable."
-        );
-      } else {
-        setError(`Failed to get explanation: ${errorMessage}`);
-      }
-    } finally {
-      setIsLoading(false);
+    } else {
+      downloadTextFile(batchResultsToJson(results), `batch-${stamp}.json`);
     }
-  }, [uploadedFile, hasMarkings]);
+  };
+
   const handleClear = () => {
+    cancelRequest();
+    batchQueueRef.current?.clear();
+    uploadIdRef.current++;
+    closePdf();
+    clearGallery();
+    setUploadError(null);
+    setUploadNotice(null);
     setUploadedFile(null);
+    setRestoredRegions(undefined);
+    setActiveSessionId(null);
     setGeminiResponse(null);
+    setWasCancelled(false);
+    setExplanationContext(null);
+    setFollowUps([]);
     setError(null);
     setHasMarkings(false);
+    resetOcr();
     interactiveImageRef.current?.clearSelection();
   };
 
+  // Reads the marked area without the markings, which OCR would take for
+  // strokes of the text.
+  const handleReadText = async () => {
+    const crop = interactiveImageRef.current?.getMarkedAreaDataUrl({
+      includeMarkings: false,
+      maxDimension: 4096,
+    });
+    if (!crop) {
+      setOcrError("Mark the text you want to read first.");
+      return;
+    }
+    const runId = ++ocrRunIdRef.current;
+    const isCurrent = () => ocrRunIdRef.current === runId;
+    ocrEngineRef.current ??= createOcrEngine();
+    setOcrError(null);
+    setOcrProgress({ status: "loading tesseract core", progress: 0 });
+    try {
+      const result = await ocrEngineRef.current.recognize(crop, (progress) => {
+        if (isCurrent()) setOcrProgress(progress);
+      });
+      if (!isCurrent()) return;
+      setOcrResult(result);
+      setOcrText(result.text);
+    } catch (err) {
+      if (!isCurrent()) return;
+      console.error("OCR error:", err);
+      setOcrError(
+        `Couldn't read the text: ${err instanceof Error ? err.message : String(err)}`
+      );
+    } finally {
+      if (isCurrent()) setOcrProgress(null);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-700 text-gray-100 p-4 sm:p-6 md:p-8 flex flex-col items-center">
       <header className="mb-8 text-center">
@@ -105,125 +1232,334 @@ const App = () => {
         <p className="text-slate-300 mt-2 text-sm sm:text-base">
           Upload an image, mark or underline a region, and let AI explain it.
         </p>
+        <button
+          type="button"
+          onClick={() => setSettingsOpen(true)}
+          className="mt-3 inline-flex items-center px-3 py-1 bg-slate-700 hover:bg-slate-600 text-sm text-slate-200 rounded-md transition-colors duration-150 ease-in-out"
+        >
+          <Settings className="w-4 h-4 mr-2" />
+          Settings
+        </button>
       </header>
+      {settingsOpen && (
+        <SettingsDialog
+          settings={settings}
+          provider={providerConfig}
+          onSave={handleSaveSettings}
+          onClose={() => setSettingsOpen(false)}
+        />
+      )}
 
-      <div className="w-full max-w-5xl bg-slate-800 shadow-2xl rounded-xl p-6 md:p-8">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
-          {/* Left Column: Image Upload and Display */}
-          <div className="flex flex-col space-y-6">
-            <ImageUploader
-              onImageUpload={handleImageUpload}
-              disabled={isLoading}
-            />
+      <div className="w-full max-w-7xl flex flex-col lg:flex-row lg:items-start gap-6">
+        <SessionHistory
+          sessions={sessions}
+          storageUsage={storageUsage}
+          activeSessionId={activeSessionId}
+          onOpen={handleOpenSession}
+          onDelete={handleDeleteSession}
+          onImport={handleImportSession}
+          disabled={isLoading}
+        />
+        <div className="flex-1 bg-slate-800 shadow-2xl rounded-xl p-6 md:p-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8">
+            {/* Left Column: Image Upload and Display */}
+            <div className="flex flex-col space-y-6">
+              <ImageUploader
+                onImageUpload={handleImageUpload}
+                onSessionFile={handleImportSession}
+                onPdfFile={handlePdfFile}
+                disabled={isLoading}
+                error={uploadError}
+                notice={uploadNotice}
+              />
+
+              {uploadedFile ? (
+                <div className="bg-slate-700 p-4 rounded-lg shadow-md">
+                  <h2 className="text-xl font-semibold mb-3 text-sky-400 flex items-center">
+                    <Edit3 className="w-6 h-6 mr-2 text-sky-500" /> Interactive
+                    Image
+                  </h2>
+                  <p className="text-sm text-slate-400 mb-2">
+                    Pick a tool, then click and drag on the image to underline,
+                    highlight or box areas of interest.
+                  </p>
+                  {!pdfDocument && gallery.length > 1 && (
+                    <ImageGallery
+                      items={gallery}
+                      activeId={activeImageId}
+                      answeredIds={answeredImageIds}
+                      onSelect={handleSelectImage}
+                      onRemove={handleRemoveImage}
+                      disabled={isLoading}
+                    />
+                  )}
+                  {pdfDocument && (
+                    <PdfPageStrip
+                      pageCount={pdfDocument.pageCount}
+                      currentPage={pdfPage}
+                      thumbnails={pdfThumbnails}
+                      markedPages={markedPages}
+                      onSelect={handleSelectPage}
+                      disabled={isLoading}
+                    />
+                  )}
+                  <InteractiveImageDisplay
+                    ref={interactiveImageRef}
+                    imageFile={uploadedFile}
+                    initialRegions={restoredRegions}
+                    onSelectionChange={handleMarkingsChange}
+                    maxDisplayWidth={600}
+                    maxDisplayHeight={450}
+                    entityBoxes={entityBoxes}
+                    highlightedBox={highlightedBox}
+                    onHighlightBox={setHighlightedBox}
+                  />
+                </div>
+              ) : (
+                <div className="flex flex-col items-center justify-center h-64 bg-slate-700 rounded-lg border-2 border-dashed border-slate-600 text-slate-400">
+                  <UploadCloud className="w-16 h-16 mb-4" />
+                  <p className="text-lg">Upload an image to get started</p>
+                </div>
+              )}
+            </div>
 
-            {uploadedFile ? (
+            {/* Right Column: Controls and Results */}
+            <div className="flex flex-col space-y-6">
               <div className="bg-slate-700 p-4 rounded-lg shadow-md">
-                <h2 className="text-xl font-semibold mb-3 text-sky-400 flex items-center">
-                  <Edit3 className="w-6 h-6 mr-2 text-sky-500" /> Interactive
-                  Image
+                <h2 className="text-xl font-semibold mb-3 text-sky-400">
+                  Controls
                 </h2>
-                <p className="text-sm text-slate-400 mb-2">
-                  Click and drag on the image to underline or mark areas of
-                  interest.
-                </p>
-                <InteractiveImageDisplay
-                  ref={interactiveImageRef}
-                  imageFile={uploadedFile}
-                  onSelectionChange={handleMarkingsChange}
-                  maxDisplayWidth={600}
-                  maxDisplayHeight={450}
-                />
-              </div>
-            ) : (
-              <div className="flex flex-col items-center justify-center h-64 bg-slate-700 rounded-lg border-2 border-dashed border-slate-600 text-slate-400">
-                <UploadCloud className="w-16 h-16 mb-4" />
-                <p className="text-lg">Upload an image to get started</p>
-              </div>
-            )}
-          </div>
-
-          {/* Right Column: Controls and Results */}
-          <div className="flex flex-col space-y-6">
-            <div className="bg-slate-700 p-4 rounded-lg shadow-md">
-              <h2 className="text-xl font-semibold mb-3 text-sky-400">
-                Controls
-              </h2>
-              <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
-                <button
-                  onClick={handleLearn}
-                  disabled={!uploadedFile || !hasMarkings || isLoading}
-                  className="flex-1 flex items-center justify-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  <Lightbulb className="w-5 h-5 mr-2" />
-                  {isLoading ? "Learning..." : "Learn About Markings"}
-                </button>
+                <div className="flex flex-col sm:flex-row space-y-3 sm:space-y-0 sm:space-x-3">
+                  <button
+                    onClick={() => handleLearn()}
+                    disabled={
+                      !uploadedFile ||
+                      !hasMarkings ||
+                      isLoading ||
+                      isAnsweringFollowUp
+                    }
+                    className="flex-1 flex items-center justify-center px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Lightbulb className="w-5 h-5 mr-2" />
+                    {isLoading ? "Learning..." : "Learn About Markings"}
+                  </button>
+                  {gallery.length > 1 && (
+                    <button
+                      onClick={handleLearnAll}
+                      disabled={markedImageCount === 0 || isLoading}
+                      className="flex-1 flex items-center justify-center px-6 py-3 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Learn All Marked ({markedImageCount})
+                    </button>
+                  )}
+                  {(isLoading || isAnsweringFollowUp) && (
+                    <button
+                      onClick={handleCancel}
+                      className="flex-1 sm:flex-none flex items-center justify-center px-6 py-3 bg-slate-600 hover:bg-slate-500 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out"
+                    >
+                      <StopCircle className="w-5 h-5 mr-2" />
+                      Cancel
+                    </button>
+                  )}
+                  <button
+                    onClick={handleClear}
+                    disabled={isLoading && !uploadedFile} // Condition might need review based on desired behavior when loading
+                    className="flex-1 sm:flex-none flex items-center justify-center px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <XCircle className="w-5 h-5 mr-2" />
+                    Clear All
+                  </button>
+                </div>
                 <button
-                  onClick={handleClear}
-                  disabled={isLoading && !uploadedFile} // Condition might need review based on desired behavior when loading
-                  className="flex-1 sm:flex-none flex items-center justify-center px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-semibold rounded-lg shadow-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                  type="button"
+                  onClick={handleExportSession}
+                  disabled={!uploadedFile || isLoading}
+                  className="mt-3 px-3 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  <XCircle className="w-5 h-5 mr-2" />
-                  Clear All
+                  Export session
                 </button>
+                <PromptModePicker
+                  templates={templates}
+                  selectedId={selectedTemplate.id}
+                  variables={templateVariables}
+                  onSelect={setTemplateId}
+                  onVariablesChange={setTemplateVariables}
+                  onSaveTemplate={handleSaveTemplate}
+                  onDeleteTemplate={handleDeleteTemplate}
+                  disabled={isLoading}
+                />
+                <ExportSettings
+                  quality={imageQuality}
+                  sendCloseUp={sendCloseUp}
+                  onQualityChange={setImageQuality}
+                  onSendCloseUpChange={setSendCloseUp}
+                  disabled={isLoading}
+                />
+                <label className="mt-2 flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={structuredMode}
+                    onChange={(event) =>
+                      setStructuredMode(event.target.checked)
+                    }
+                    disabled={isLoading}
+                  />
+                  Structured answer (summary, extracted text, key terms)
+                </label>
               </div>
-            </div>
 
-            {error && (
-              <div
-                className="bg-red-700/50 border border-red-500 text-red-100 px-4 py-3 rounded-lg shadow-md flex items-start"
-                role="alert"
-              >
-                <AlertTriangle className="w-5 h-5 mr-3 mt-1 text-red-300" />
-                <div>
-                  <strong className="font-bold">Error:</strong>
-                  <span className="block sm:inline ml-1">{error}</span>
-                </div>
-              </div>
-            )}
+              {uploadedFile && (
+                <OcrPanel
+                  result={ocrResult}
+                  text={ocrText}
+                  onTextChange={setOcrText}
+                  progress={ocrProgress}
+                  error={ocrError}
+                  includeInPrompt={includeOcrText}
+                  onIncludeInPromptChange={setIncludeOcrText}
+                  onRecognize={handleReadText}
+                  canRecognize={hasMarkings}
+                />
+              )}
 
-            {isLoading && (
-              <div className="flex flex-col items-center justify-center h-48 bg-slate-700 rounded-lg p-4 shadow-md">
-                <LoadingSpinner />
-                <p className="mt-4 text-slate-300">AI is thinking...</p>
-              </div>
-            )}
+              {batchJobs.length > 0 && (
+                <BatchQueuePanel
+                  jobs={batchJobs}
+                  concurrency={batchConcurrency}
+                  onConcurrencyChange={handleBatchConcurrencyChange}
+                  onRetry={(id) => batchQueueRef.current?.retry(id)}
+                  onRetryFailed={() => batchQueueRef.current?.retryFailed()}
+                  onCancel={() => batchQueueRef.current?.cancel()}
+                  onExport={handleExportBatch}
+                  onSelect={handleSelectImage}
+                />
+              )}
 
-            {geminiResponse && !isLoading && (
-              <div className="bg-slate-700 p-4 rounded-lg shadow-md">
-                <h2 className="text-xl font-semibold mb-3 text-sky-400">
-                  Explanation
-                </h2>
-                <div className="prose prose-invert max-w-none text-slate-200 whitespace-pre-wrap">
-                  {geminiResponse}
-                </div>
-              </div>
-            )}
-            {!geminiResponse &&
-              !isLoading &&
-              !error &&
-              uploadedFile &&
-              hasMarkings && (
-                <div className="flex flex-col items-center justify-center h-48 bg-slate-700 rounded-lg p-4 text-slate-400 shadow-md">
-                  <Lightbulb className="w-12 h-12 mb-3" />
-                  <p>
-                    Click "Learn About Markings" to get an explanation for the
-                    marked area.
-                  </p>
+              {error && (
+                <ErrorBanner
+                  error={error}
+                  onRetry={retryAction ?? undefined}
+                  onOpenSettings={() => setSettingsOpen(true)}
+                />
+              )}
+
+              {isLoading && !geminiResponse && (
+                <div className="flex flex-col items-center justify-center h-48 bg-slate-700 rounded-lg p-4 shadow-md">
+                  <LoadingSpinner />
+                  <p className="mt-4 text-slate-300">AI is thinking...</p>
+                  {retryStatus && (
+                    <p className="mt-1 text-xs text-slate-400">{retryStatus}</p>
+                  )}
                 </div>
               )}
-            {!geminiResponse &&
-              !isLoading &&
-              !error &&
-              uploadedFile &&
-              !hasMarkings && (
-                <div className="flex flex-col items-center justify-center h-48 bg-slate-700 rounded-lg p-4 text-slate-400 shadow-md">
-                  <Edit3 className="w-12 h-12 mb-3 text-sky-500" />
-                  <p>
-                    Use your cursor to mark or underline parts of the image you
-                    want to understand.
-                  </p>
+
+              {geminiResponse && (
+                <div className="bg-slate-700 p-4 rounded-lg shadow-md">
+                  <h2 className="text-xl font-semibold mb-3 text-sky-400 flex items-center">
+                    Explanation
+                    {isLoading && (
+                      <span className="ml-3 text-xs font-normal text-slate-400 animate-pulse">
+                        streaming...
+                      </span>
+                    )}
+                    {answerFromCache && !isLoading && (
+                      <span
+                        className="ml-3 px-2 py-0.5 rounded-full bg-emerald-800 text-emerald-100 text-xs font-normal"
+                        title="This exact request was answered before, so no new API call was made."
+                      >
+                        cached
+                      </span>
+                    )}
+                  </h2>
+                  {structuredAnswer ? (
+                    <StructuredExplanationView
+                      explanation={structuredAnswer}
+                      highlightedEntity={highlightedBox}
+                      onHighlightEntity={setHighlightedBox}
+                    />
+                  ) : regionAnswers ? (
+                    <RegionAnswerList answers={regionAnswers} />
+                  ) : (
+                    <Markdown className="text-slate-200">
+                      {answerText ?? geminiResponse}
+                    </Markdown>
+                  )}
+                  {entityBoxes.length > 0 && !isLoading && (
+                    <EntityList
+                      entities={entityBoxes}
+                      highlighted={highlightedBox}
+                      onHighlight={setHighlightedBox}
+                    />
+                  )}
+                  {!isLoading && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                      {explanationContext && (
+                        <button
+                          type="button"
+                          onClick={() => handleLearn({ skipCache: true })}
+                          disabled={isAnsweringFollowUp}
+                          title="Ask the model again instead of using the saved answer."
+                          className="px-2 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Regenerate
+                        </button>
+                      )}
+                      <CopyAnswerButtons
+                        markdown={
+                          structuredAnswer
+                            ? structuredExplanationToMarkdown(structuredAnswer)
+                            : (answerText ?? geminiResponse)
+                        }
+                      />
+                    </div>
+                  )}
+                  {answerIsStructured && !structuredAnswer && !isLoading && (
+                    <p className="mt-3 text-xs text-slate-400 italic">
+                      The model did not return a structured answer, so it is
+                      shown as plain text.
+                    </p>
+                  )}
+                  {wasCancelled && !isLoading && (
+                    <p className="mt-3 text-xs text-slate-400 italic">
+                      Cancelled. The answer above may be incomplete.
+                    </p>
+                  )}
+                  {!isLoading && explanationContext && (
+                    <FollowUpThread
+                      messages={followUps}
+                      onAsk={handleAskFollowUp}
+                      disabled={isAnsweringFollowUp}
+                    />
+                  )}
                 </div>
               )}
+              {!geminiResponse &&
+                !isLoading &&
+                !error &&
+                uploadedFile &&
+                hasMarkings && (
+                  <div className="flex flex-col items-center justify-center h-48 bg-slate-700 rounded-lg p-4 text-slate-400 shadow-md">
+                    <Lightbulb className="w-12 h-12 mb-3" />
+                    <p>
+                      Click "Learn About Markings" to get an explanation for the
+                      marked area.
+                    </p>
+                  </div>
+                )}
+              {!geminiResponse &&
+                !isLoading &&
+                !error &&
+                uploadedFile &&
+                !hasMarkings && (
+                  <div className="flex flex-col items-center justify-center h-48 bg-slate-700 rounded-lg p-4 text-slate-400 shadow-md">
+                    <Edit3 className="w-12 h-12 mb-3 text-sky-500" />
+                    <p>
+                      Use your cursor to mark or underline parts of the image
+                      you want to understand.
+                    </p>
+                  </div>
+                )}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,120 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import App from '../App';
+import { deleteSession, listSessions, serializeSession } from '../src/sessions';
+import { DEFAULT_TEMPLATE_VARIABLES } from '../utils/promptTemplates';
+import { createFakeProvider, setActiveProvider } from '../utils/providers';
+import { responseCache } from '../utils/geminiService';
+
+// jsdom does not decode images; report a fixed size as soon as a source is set.
+class LoadedImage {
+  naturalWidth = 400;
+  naturalHeight = 300;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  set src(_value: string) {
+    setTimeout(() => this.onload?.());
+  }
+}
+
+// Enough of a 2D context for exporting the marked image: every drawing call
+// does nothing.
+const fakeContext = () =>
+  new Proxy({} as Record<string | symbol, unknown>, {
+    get: (target, key) => (key in target ? target[key] : () => ({ width: 0 })),
+    set: (target, key, value) => {
+      target[key] = value;
+      return true;
+    },
+  });
+
+const sessionFile = () =>
+  new File(
+    [
+      serializeSession({
+        createdAt: 1700000000000,
+        imageName: 'menu.png',
+        image: { name: 'menu.png', type: 'image/png', data: new Uint8Array([137, 80, 78, 71]).buffer },
+        regions: [
+          {
+            id: 0,
+            question: '',
+            annotations: [{ id: 0, tool: 'pen', points: [{ x: 10, y: 10 }, { x: 90, y: 10 }], style: { color: '#ef4444', width: 3 } }],
+          },
+        ],
+        prompt: { templateId: 'explain', templateName: 'Explain', templateText: 'Explain it.', variables: DEFAULT_TEMPLATE_VARIABLES, structured: false },
+        response: 'Soup of the day.',
+      }),
+    ],
+    'menu.underline.json',
+    { type: 'application/json' }
+  );
+
+describe('App', () => {
+  beforeEach(async () => {
+    await Promise.all((await listSessions()).map(({ id }) => deleteSession(id)));
+    vi.stubGlobal('Image', LoadedImage);
+    URL.createObjectURL = vi.fn(() => 'blob:thumbnail');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    setActiveProvider(null);
+    responseCache.clear();
+  });
+
+  it('explains the markings with the fake provider, and cancels and clears', async () => {
+    vi.stubEnv('VISION_PROVIDER', 'fake');
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(() => fakeContext() as never);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,aGVsbG8=');
+    render(<App />);
+    fireEvent.change(screen.getByLabelText('Session file to import'), { target: { files: [sessionFile()] } });
+    const learn = screen.getByRole('button', { name: 'Learn About Markings' });
+    await waitFor(() => expect(learn).toBeEnabled());
+    // Slow enough to cancel halfway; the app picked the plain fake on mount
+    setActiveProvider(createFakeProvider({ chunkDelayMs: 20 }));
+
+    fireEvent.click(learn);
+    await screen.findByText('streaming...');
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+    expect(await screen.findByText('Cancelled. The answer above may be incomplete.')).toBeInTheDocument();
+    expect(screen.getByText(/^Fake explanation/, { selector: 'p' })).not.toHaveTextContent('prompt.');
+
+    fireEvent.click(learn);
+
+    await screen.findByRole('button', { name: 'Regenerate' }, { timeout: 5000 });
+    expect(screen.getByText(/^Fake explanation for a image\/png image \(8 base64 characters\)/, { selector: 'p' })).toHaveTextContent(/prompt\.$/);
+    expect(screen.queryByText('Cancelled. The answer above may be incomplete.')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Clear All' }));
+
+    expect(screen.getByText('Upload an image to get started')).toBeInTheDocument();
+    expect(screen.queryByText(/^Fake explanation/, { selector: 'p' })).not.toBeInTheDocument();
+  }, 15_000);
+
+  it('keeps the markings on screen when their session is reopened from History', async () => {
+    render(<App />);
+
+    fireEvent.change(screen.getByLabelText('Session file to import'), { target: { files: [sessionFile()] } });
+    const question = await screen.findByLabelText('Question for region 1');
+    fireEvent.change(question, { target: { value: 'what is this dish?' } });
+    const learn = screen.getByRole('button', { name: 'Learn About Markings' });
+    await waitFor(() => expect(learn).toBeEnabled());
+
+    fireEvent.change(screen.getByLabelText('Mode'), { target: { value: 'translate' } });
+
+    const history = await screen.findByRole('list', { name: 'Saved sessions' });
+    fireEvent.click(within(history).getByText('menu.png'));
+
+    // Reopening brings back the session's prompt
+    await waitFor(() => expect(screen.getByLabelText('Mode')).toHaveValue('explain'));
+    expect(screen.getByLabelText('Question for region 1')).toHaveValue('what is this dish?');
+    expect(learn).toBeEnabled();
+  });
+});
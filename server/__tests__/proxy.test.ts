@@ -0,0 +1,252 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'node:http';
+import { AddressInfo, connect } from 'node:net';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { createProxyServer, RequestLogEntry } from '../app';
+import {
+  BadInputError,
+  createOpenAICompatibleProvider,
+  createProxyProvider,
+  RateLimitError,
+  ServerError,
+} from '../../utils/providers';
+import { getExplanationForImageRegion, streamExplanationForImageRegion } from '../../utils/geminiService';
+
+const IMAGE_DATA_URL = 'data:image/png;base64,aGVsbG8=';
+const SERVER_KEY = 'server-secret-key';
+
+interface UpstreamCall {
+  authorization?: string;
+  body: { stream: boolean; temperature?: number; messages: { content: unknown }[] };
+}
+
+const servers: Server[] = [];
+
+const listen = async (server: Server) => {
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const readJson = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+};
+
+// A stand-in for the model provider, speaking the OpenAI chat-completions API.
+const startUpstream = async ({ status = 200, headers = {} }: { status?: number; headers?: Record<string, string> } = {}) => {
+  const calls: UpstreamCall[] = [];
+  const url = await listen(
+    createServer(async (req, res) => {
+      const body = await readJson(req);
+      calls.push({ authorization: req.headers.authorization, body });
+      if (status !== 200) {
+        res.writeHead(status, headers);
+        res.end('upstream says no');
+      } else if (body.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+        for (const word of ['A ', 'streamed ', 'cat.']) {
+          res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: word } }] })}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ choices: [{ message: { content: 'A cat.' } }] }));
+      }
+    })
+  );
+  return { url, calls };
+};
+
+const startProxy = async (
+  upstreamUrl: string,
+  options: { rateLimit?: number; maxBodyBytes?: number; staticDir?: string; trustProxy?: boolean } = {}
+) => {
+  const logs: RequestLogEntry[] = [];
+  const url = await listen(
+    createProxyServer({
+      provider: createOpenAICompatibleProvider({ model: 'llava', apiKey: SERVER_KEY, baseUrl: `${upstreamUrl}/v1` }),
+      rateLimit: options.rateLimit ?? 10,
+      maxBodyBytes: options.maxBodyBytes ?? 1024 * 1024,
+      staticDir: options.staticDir,
+      trustProxy: options.trustProxy,
+      log: (entry) => logs.push(entry),
+    })
+  );
+  // Log entries are written once each response has closed
+  const settled = () => new Promise((resolve) => setTimeout(resolve, 20));
+  return { url, logs, settled, provider: createProxyProvider({ baseUrl: `${url}/api` }) };
+};
+
+describe('proxy server', () => {
+  afterEach(async () => {
+    await Promise.all(
+      servers.splice(0).map(
+        (server) =>
+          new Promise((resolve) => {
+            server.closeAllConnections();
+            server.close(resolve);
+          })
+      )
+    );
+  });
+
+  it('forwards explanations to the model with the key held by the server', async () => {
+    const upstream = await startUpstream();
+    const proxy = await startProxy(upstream.url);
+
+    const answer = await getExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: proxy.provider,
+      cache: null,
+      generation: { temperature: 0.3 },
+    });
+
+    expect(answer).toBe('A cat.');
+    expect(upstream.calls).toHaveLength(1);
+    expect(upstream.calls[0].authorization).toBe(`Bearer ${SERVER_KEY}`);
+    expect(upstream.calls[0].body.temperature).toBe(0.3);
+    await proxy.settled();
+    expect(proxy.logs).toEqual([
+      expect.objectContaining({ method: 'POST', path: '/api/explain', status: 200, stream: false, ip: '127.0.0.1' }),
+    ]);
+    expect(JSON.stringify(proxy.logs)).not.toContain(SERVER_KEY);
+    expect(JSON.stringify(proxy.logs)).not.toContain('aGVsbG8=');
+  });
+
+  it('streams the answer as it arrives', async () => {
+    const upstream = await startUpstream();
+    const proxy = await startProxy(upstream.url);
+    const seen: string[] = [];
+
+    const answer = await streamExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: proxy.provider,
+      cache: null,
+      onText: (text) => seen.push(text),
+    });
+
+    expect(answer).toBe('A streamed cat.');
+    expect(seen).toEqual(['A ', 'A streamed ', 'A streamed cat.']);
+    expect(upstream.calls[0].body.stream).toBe(true);
+  });
+
+  it('limits the number of requests from one address', async () => {
+    const upstream = await startUpstream();
+    const proxy = await startProxy(upstream.url, { rateLimit: 2 });
+    const ask = () => proxy.provider.explain({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' });
+
+    await ask();
+    await ask();
+    const error = await ask().catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(upstream.calls).toHaveLength(2);
+    await proxy.settled();
+    expect(proxy.logs.map(({ status }) => status)).toEqual([200, 200, 429]);
+  });
+
+  it('limits clients behind a reverse proxy by the address it forwarded', async () => {
+    const upstream = await startUpstream();
+    const proxy = await startProxy(upstream.url, { rateLimit: 1, trustProxy: true });
+    // What a reverse proxy sends on: whatever the client claimed, then the address it saw
+    const ask = (claimed: string) =>
+      fetch(`${proxy.url}/api/explain`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': `${claimed}, 203.0.113.7` },
+        body: JSON.stringify({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' }),
+      });
+
+    expect((await ask('10.0.0.1')).status).toBe(200);
+    expect((await ask('10.0.0.2')).status).toBe(429);
+    expect(upstream.calls).toHaveLength(1);
+    await proxy.settled();
+    expect(proxy.logs.map(({ ip }) => ip)).toEqual(['203.0.113.7', '203.0.113.7']);
+  });
+
+  it('rejects requests over the size limit without forwarding them', async () => {
+    const upstream = await startUpstream();
+    const proxy = await startProxy(upstream.url, { maxBodyBytes: 1024 });
+
+    const error = await proxy.provider
+      .explain({ imageDataUrl: `data:image/png;base64,${'A'.repeat(4096)}`, prompt: 'Explain' })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(BadInputError);
+    expect(error.status).toBe(413);
+    expect(upstream.calls).toHaveLength(0);
+  });
+
+  it('rejects malformed requests', async () => {
+    const upstream = await startUpstream();
+    const proxy = await startProxy(upstream.url);
+
+    const response = await fetch(`${proxy.url}/api/explain`, { method: 'POST', body: JSON.stringify({ prompt: 'Explain' }) });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: { kind: 'bad-input', message: 'imageDataUrl is required.' } });
+    expect((await fetch(`${proxy.url}/api/explain`)).status).toBe(405);
+  });
+
+  it('answers a request target it cannot parse instead of crashing', async () => {
+    const upstream = await startUpstream();
+    const proxy = await startProxy(upstream.url);
+    const { port } = new URL(proxy.url);
+
+    // fetch normalises targets, so send the request line by hand
+    const reply = await new Promise<string>((resolve, reject) => {
+      const socket = connect(Number(port), '127.0.0.1', () => socket.end('GET //[ HTTP/1.1\r\nHost: localhost\r\nConnection: close\r\n\r\n'));
+      let received = '';
+      socket.on('data', (chunk) => (received += chunk));
+      socket.on('end', () => resolve(received));
+      socket.on('error', reject);
+    });
+
+    expect(reply).toMatch(/^HTTP\/1\.1 400 /);
+    expect(reply).toContain('{"error":{"kind":"bad-input","message":"Malformed request URL."}}');
+    expect((await fetch(`${proxy.url}/api/unknown`)).status).toBe(404);
+    await proxy.settled();
+    expect(proxy.logs[0]).toEqual(expect.objectContaining({ path: '//[', status: 400 }));
+  });
+
+  it('passes on upstream rate limits but hides upstream key problems', async () => {
+    const limited = await startUpstream({ status: 429, headers: { 'Retry-After': '7' } });
+    const rejected = await startUpstream({ status: 401 });
+    const request = { imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' };
+
+    const rateLimitError = await (await startProxy(limited.url)).provider.explain(request).catch((caught) => caught);
+    const authError = await (await startProxy(rejected.url)).provider.explain(request).catch((caught) => caught);
+
+    expect(rateLimitError).toBeInstanceOf(RateLimitError);
+    expect(rateLimitError.retryAfterMs).toBe(7000);
+    expect(authError).toBeInstanceOf(ServerError);
+    expect(authError.message).toBe("The model provider rejected the proxy server's API key.");
+  });
+
+  it('serves the built app and falls back to index.html', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'proxy-static-'));
+    const staticDir = path.join(root, 'dist');
+    try {
+      await mkdir(path.join(staticDir, 'assets'), { recursive: true });
+      await writeFile(path.join(root, 'secret.txt'), SERVER_KEY);
+      await writeFile(path.join(staticDir, 'index.html'), '<div id="root"></div>');
+      await writeFile(path.join(staticDir, 'assets', 'app-1234.js'), 'console.log(1);');
+      const upstream = await startUpstream();
+      const proxy = await startProxy(upstream.url, { staticDir });
+
+      const asset = await fetch(`${proxy.url}/assets/app-1234.js`);
+      expect(asset.headers.get('content-type')).toBe('text/javascript; charset=utf-8');
+      expect(asset.headers.get('cache-control')).toContain('immutable');
+      expect(await asset.text()).toBe('console.log(1);');
+      expect(await (await fetch(`${proxy.url}/history/42`)).text()).toBe('<div id="root"></div>');
+      expect((await fetch(`${proxy.url}/assets/missing.js`)).status).toBe(404);
+      expect((await fetch(`${proxy.url}/..%2Fsecret.txt`)).status).toBe(404);
+      expect((await fetch(`${proxy.url}/api/other`)).status).toBe(404);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
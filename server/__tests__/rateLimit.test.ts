@@ -0,0 +1,36 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createRateLimiter } from '../rateLimit';
+import { readProxyConfig } from '../config';
+
+describe('rate limiter', () => {
+  it('allows a number of requests per window for each key', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000, now: () => time });
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(true);
+    time = 400;
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfterMs: 600 });
+    expect(limiter.take('b').allowed).toBe(true);
+    time = 1000;
+    expect(limiter.take('a').allowed).toBe(true);
+  });
+});
+
+describe('proxy config', () => {
+  it('reads the upstream and limits from the environment', () => {
+    const config = readProxyConfig({ GEMINI_API_KEY: 'key', RATE_LIMIT_PER_MINUTE: '5', MAX_BODY_MB: '2' });
+
+    expect(config.upstream).toEqual({ provider: 'gemini', apiKey: 'key', model: undefined, baseUrl: undefined });
+    expect(config.rateLimit).toBe(5);
+    expect(config.maxBodyBytes).toBe(2 * 1024 * 1024);
+    expect(config.host).toBe('127.0.0.1');
+  });
+
+  it('reports every invalid setting', () => {
+    expect(() => readProxyConfig({ UPSTREAM_PROVIDER: 'proxy', PORT: 'eighty' })).toThrow(
+      /UPSTREAM_PROVIDER must be[\s\S]*PORT must be a positive number/
+    );
+  });
+});
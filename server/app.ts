@@ -0,0 +1,395 @@
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import {
+  BadInputError,
+  ConversationTurn,
+  ExplainRequest,
+  isAbortError,
+  isVisionError,
+  parseImageDataUrl,
+  ProxyErrorBody,
+  ProxyExplainBody,
+  ProxyStreamLine,
+  RateLimitError,
+  VisionError,
+  VisionErrorKind,
+  VisionProvider,
+} from "../utils/providers";
+import { createRateLimiter } from "./rateLimit";
+import { serveStatic } from "./static";
+
+export const EXPLAIN_PATH = "/api/explain";
+
+// One line of the request log. Bodies and keys are never logged.
+export interface RequestLogEntry {
+  time: string;
+  ip: string;
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  requestBytes?: number;
+  stream?: boolean;
+  // The error kind, or "cancelled" when the client went away.
+  error?: VisionErrorKind | "cancelled";
+}
+
+export interface ProxyServerOptions {
+  provider: VisionProvider;
+  // Requests to EXPLAIN_PATH allowed per client IP per minute.
+  rateLimit: number;
+  maxBodyBytes: number;
+  // The built app; when omitted only the API is served.
+  staticDir?: string;
+  trustProxy?: boolean;
+  log?: (entry: RequestLogEntry) => void;
+  now?: () => number;
+}
+
+// Upstream failures as the browser should see them. An upstream auth failure
+// is the server's misconfiguration, not something the user can fix.
+const STATUS_FOR_KIND: Record<VisionErrorKind, number> = {
+  auth: 502,
+  "rate-limit": 429,
+  safety: 422,
+  "empty-response": 502,
+  timeout: 504,
+  network: 502,
+  server: 502,
+  "bad-input": 400,
+};
+
+const STREAM_HEADERS = {
+  "Content-Type": "application/x-ndjson; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const toClientError = (error: unknown): VisionError => {
+  if (!isVisionError(error)) {
+    return new VisionError(
+      "server",
+      "The proxy server could not get an answer from the model.",
+      true
+    );
+  }
+  if (error.kind === "auth") {
+    return new VisionError(
+      "server",
+      "The model provider rejected the proxy server's API key.",
+      false
+    );
+  }
+  return error;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isTurn = (value: unknown): value is ConversationTurn =>
+  isRecord(value) &&
+  (value.role === "user" || value.role === "model") &&
+  typeof value.text === "string";
+
+// Checks the request body field by field; the client is not trusted.
+export const parseExplainBody = (value: unknown): ProxyExplainBody => {
+  if (!isRecord(value)) throw new BadInputError("Expected a JSON object.");
+  const {
+    imageDataUrl,
+    detailImageDataUrl,
+    prompt,
+    history,
+    responseSchema,
+    generation,
+    stream,
+  } = value;
+  if (typeof imageDataUrl !== "string") {
+    throw new BadInputError("imageDataUrl is required.");
+  }
+  parseImageDataUrl(imageDataUrl);
+  if (detailImageDataUrl !== undefined) {
+    if (typeof detailImageDataUrl !== "string") {
+      throw new BadInputError("detailImageDataUrl must be a data URL.");
+    }
+    parseImageDataUrl(detailImageDataUrl);
+  }
+  if (typeof prompt !== "string" || !prompt.trim()) {
+    throw new BadInputError("prompt is required.");
+  }
+  if (
+    history !== undefined &&
+    !(Array.isArray(history) && history.every(isTurn))
+  ) {
+    throw new BadInputError("history must be a list of turns.");
+  }
+  if (responseSchema !== undefined && !isRecord(responseSchema)) {
+    throw new BadInputError("responseSchema must be an object.");
+  }
+  if (
+    generation !== undefined &&
+    !(
+      isRecord(generation) &&
+      ["temperature", "maxOutputTokens", "thinkingBudget"].every(
+        (field) =>
+          generation[field] === undefined ||
+          (typeof generation[field] === "number" &&
+            Number.isFinite(generation[field]))
+      )
+    )
+  ) {
+    throw new BadInputError("generation must hold numbers.");
+  }
+  if (stream !== undefined && typeof stream !== "boolean") {
+    throw new BadInputError("stream must be true or false.");
+  }
+  return {
+    imageDataUrl,
+    detailImageDataUrl,
+    prompt,
+    history,
+    responseSchema,
+    generation,
+    stream,
+  } as ProxyExplainBody;
+};
+
+class PayloadTooLargeError extends BadInputError {
+  constructor(limit: number) {
+    super(
+      `The request is larger than the ${Math.round(
+        limit / (1024 * 1024)
+      )} MB limit; try a smaller image format.`,
+      { status: 413 }
+    );
+  }
+}
+
+// Reads the body, rejecting as soon as it passes `limit` bytes.
+const readBody = (req: IncomingMessage, limit: number) =>
+  new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        req.removeAllListeners("data");
+        req.resume();
+        reject(new PayloadTooLargeError(limit));
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+
+// The path of a request target, or null for one Node accepts but URL does
+// not, e.g. "//[".
+const parsePathname = (target: string) => {
+  try {
+    return new URL(target, "http://localhost").pathname;
+  } catch {
+    return null;
+  }
+};
+
+// Behind a trusted reverse proxy, the client is the address that proxy
+// appended to X-Forwarded-For. Entries before it come from the client and
+// could be anything.
+const clientIp = (req: IncomingMessage, trustProxy: boolean) => {
+  const forwarded = req.headers["x-forwarded-for"];
+  const last = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded)
+    ?.split(",")
+    .pop()
+    ?.trim();
+  return (trustProxy && last) || req.socket.remoteAddress || "unknown";
+};
+
+const sendJson = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Cache-Control": "no-store",
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+};
+
+const errorBody = ({ kind, message }: VisionError): ProxyErrorBody => ({
+  error: { kind, message },
+});
+
+const retryAfterHeader = (error: VisionError): Record<string, string> =>
+  error instanceof RateLimitError && error.retryAfterMs !== undefined
+    ? { "Retry-After": String(Math.ceil(error.retryAfterMs / 1000)) }
+    : {};
+
+// Serves the built app and forwards POST /api/explain to `provider`, which
+// holds the API key, so the key never reaches the browser. Explain requests
+// are rate limited per client IP and size limited, and every request is
+// logged.
+export const createProxyServer = ({
+  provider,
+  rateLimit,
+  maxBodyBytes,
+  staticDir,
+  trustProxy = false,
+  log = (entry) => console.log(JSON.stringify(entry)),
+  now = Date.now,
+}: ProxyServerOptions): Server => {
+  const limiter = createRateLimiter({ limit: rateLimit, now });
+
+  const sendError = (
+    res: ServerResponse,
+    entry: Partial<RequestLogEntry>,
+    error: VisionError,
+    status = STATUS_FOR_KIND[error.kind]
+  ) => {
+    entry.error = error.kind;
+    sendJson(res, status, errorBody(error), retryAfterHeader(error));
+  };
+
+  const handleExplain = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    entry: Partial<RequestLogEntry>
+  ) => {
+    if (req.method !== "POST") {
+      sendError(res, entry, new BadInputError("Use POST."), 405);
+      return;
+    }
+    const { allowed, retryAfterMs } = limiter.take(entry.ip!);
+    if (!allowed) {
+      sendError(
+        res,
+        entry,
+        new RateLimitError(
+          "Too many requests from this address; wait a minute and retry.",
+          { retryAfterMs }
+        )
+      );
+      return;
+    }
+    const declared = Number(req.headers["content-length"]);
+    let request: ProxyExplainBody;
+    try {
+      if (declared > maxBodyBytes) throw new PayloadTooLargeError(maxBodyBytes);
+      const body = await readBody(req, maxBodyBytes);
+      entry.requestBytes = body.length;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(body.toString("utf8"));
+      } catch {
+        throw new BadInputError("The request body is not valid JSON.");
+      }
+      request = parseExplainBody(parsed);
+    } catch (error) {
+      const clientError = toClientError(error);
+      if (error instanceof PayloadTooLargeError) {
+        // Stop reading an upload that is too large
+        res.setHeader("Connection", "close");
+        sendError(res, entry, clientError, 413);
+      } else {
+        sendError(res, entry, clientError);
+      }
+      return;
+    }
+
+    // Stop the upstream request when the browser gives up on this one
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    const { stream = false, ...explainRequest } = request;
+    const upstreamRequest: ExplainRequest = {
+      ...explainRequest,
+      signal: controller.signal,
+    };
+    entry.stream = stream;
+
+    try {
+      if (!stream) {
+        sendJson(res, 200, await provider.explain(upstreamRequest));
+        return;
+      }
+      // Headers wait for the first chunk, so failures before it still get
+      // their own status
+      const startStream = () => {
+        if (!res.headersSent) res.writeHead(200, STREAM_HEADERS);
+      };
+      for await (const text of provider.explainStream(upstreamRequest)) {
+        startStream();
+        const line: ProxyStreamLine = { text };
+        res.write(`${JSON.stringify(line)}\n`);
+      }
+      startStream();
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted || isAbortError(error)) {
+        entry.error = "cancelled";
+        res.destroy();
+        return;
+      }
+      const clientError = toClientError(error);
+      if (!isVisionError(error)) {
+        console.error("Upstream request failed:", error);
+      }
+      if (res.headersSent) {
+        // The stream already started, so report the failure in it
+        entry.error = clientError.kind;
+        res.end(`${JSON.stringify(errorBody(clientError))}\n`);
+      } else {
+        sendError(res, entry, clientError);
+      }
+    }
+  };
+
+  return createServer(async (req, res) => {
+    const startedAt = now();
+    const entry: Partial<RequestLogEntry> = {
+      ip: clientIp(req, trustProxy),
+      method: req.method ?? "GET",
+      path: req.url ?? "/",
+    };
+    res.on("close", () =>
+      log({
+        time: new Date(startedAt).toISOString(),
+        ...entry,
+        status: res.statusCode,
+        durationMs: now() - startedAt,
+      } as RequestLogEntry)
+    );
+
+    try {
+      const pathname = parsePathname(req.url ?? "/");
+      if (pathname === null) {
+        sendError(res, entry, new BadInputError("Malformed request URL."));
+        return;
+      }
+      entry.path = pathname;
+
+      if (pathname === EXPLAIN_PATH) {
+        await handleExplain(req, res, entry);
+      } else if (pathname.startsWith("/api/")) {
+        sendError(res, entry, new BadInputError("Not found."), 404);
+      } else if (req.method !== "GET" && req.method !== "HEAD") {
+        sendError(res, entry, new BadInputError("Use GET."), 405);
+      } else if (!staticDir) {
+        sendError(res, entry, new BadInputError("Not found."), 404);
+      } else {
+        await serveStatic(staticDir, pathname, res, req.method === "HEAD");
+      }
+    } catch (error) {
+      console.error("Proxy server error:", error);
+      if (!res.headersSent) sendError(res, entry, toClientError(error), 500);
+      else res.destroy();
+    }
+  });
+};
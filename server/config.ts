@@ -0,0 +1,74 @@
+import { PROVIDER_IDS, ProviderConfig, ProviderId } from "../utils/providers";
+
+export interface ProxyConfig {
+  port: number;
+  host: string;
+  // The model provider requests are forwarded to, with the server's key.
+  upstream: ProviderConfig;
+  // Requests allowed per client IP per minute.
+  rateLimit: number;
+  maxBodyBytes: number;
+  // The built app; see `npm run build`.
+  staticDir: string;
+  // Take client IPs from the last X-Forwarded-For entry; only safe behind a
+  // reverse proxy that appends to it.
+  trustProxy: boolean;
+}
+
+export const DEFAULT_PROXY_PORT = 8787;
+export const DEFAULT_RATE_LIMIT = 20;
+export const DEFAULT_MAX_BODY_MB = 16;
+
+const readNumber = (
+  env: NodeJS.ProcessEnv,
+  name: string,
+  fallback: number,
+  errors: string[]
+) => {
+  const value = env[name];
+  if (value === undefined || value === "") return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number <= 0) {
+    errors.push(`${name} must be a positive number, not "${value}".`);
+    return fallback;
+  }
+  return number;
+};
+
+// Reads the server's settings from the environment, e.g.
+// UPSTREAM_PROVIDER=gemini GEMINI_API_KEY=... node dist-server/index.js
+// Throws with every problem found.
+export const readProxyConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): ProxyConfig => {
+  const errors: string[] = [];
+  const provider = (env.UPSTREAM_PROVIDER || "gemini") as ProviderId;
+  if (!PROVIDER_IDS.includes(provider) || provider === "proxy") {
+    errors.push(
+      `UPSTREAM_PROVIDER must be gemini, openai-compatible or fake, not "${provider}".`
+    );
+  }
+  const config: ProxyConfig = {
+    port: readNumber(env, "PORT", DEFAULT_PROXY_PORT, errors),
+    host: env.HOST || "127.0.0.1",
+    upstream: {
+      provider,
+      model: env.UPSTREAM_MODEL || undefined,
+      apiKey: env.UPSTREAM_API_KEY || env.GEMINI_API_KEY || undefined,
+      baseUrl: env.UPSTREAM_BASE_URL || undefined,
+    },
+    rateLimit: readNumber(
+      env,
+      "RATE_LIMIT_PER_MINUTE",
+      DEFAULT_RATE_LIMIT,
+      errors
+    ),
+    maxBodyBytes: Math.round(
+      readNumber(env, "MAX_BODY_MB", DEFAULT_MAX_BODY_MB, errors) * 1024 * 1024
+    ),
+    staticDir: env.STATIC_DIR || "dist",
+    trustProxy: env.TRUST_PROXY === "1" || env.TRUST_PROXY === "true",
+  };
+  if (errors.length > 0) throw new Error(errors.join("\n"));
+  return config;
+};
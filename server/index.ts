@@ -0,0 +1,31 @@
+import { createProvider } from "../utils/providers";
+import { createProxyServer } from "./app";
+import { readProxyConfig } from "./config";
+
+// Entry point for `npm run serve`; see the README for the environment
+// variables.
+const main = () => {
+  let config;
+  try {
+    config = readProxyConfig();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  const provider = createProvider(config.upstream);
+  if (!provider.isConfigured()) {
+    console.error(
+      "The upstream provider is not configured; set GEMINI_API_KEY (or UPSTREAM_API_KEY and UPSTREAM_MODEL)."
+    );
+    process.exit(1);
+  }
+
+  const server = createProxyServer({ provider, ...config });
+  server.listen(config.port, config.host, () => {
+    console.log(
+      `Serving ${config.staticDir} and ${provider.id} (${provider.model}) on http://${config.host}:${config.port}`
+    );
+  });
+};
+
+main();
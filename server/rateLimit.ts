@@ -0,0 +1,51 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  // How long until the client may try again; 0 when allowed.
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  // Counts one request from `key` and says whether it may go ahead.
+  take: (key: string) => RateLimitDecision;
+}
+
+interface RateLimiterOptions {
+  // Requests allowed per key in each window.
+  limit: number;
+  windowMs?: number;
+  now?: () => number;
+}
+
+// Fixed-window counter per key. Expired windows are pruned at most once per
+// window, so memory stays proportional to the clients seen recently.
+export const createRateLimiter = ({
+  limit,
+  windowMs = 60_000,
+  now = Date.now,
+}: RateLimiterOptions): RateLimiter => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let nextPruneAt = 0;
+
+  return {
+    take: (key) => {
+      const time = now();
+      if (time >= nextPruneAt) {
+        windows.forEach(({ resetAt }, windowKey) => {
+          if (resetAt <= time) windows.delete(windowKey);
+        });
+        nextPruneAt = time + windowMs;
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= time) {
+        window = { count: 0, resetAt: time + windowMs };
+        windows.set(key, window);
+      }
+      if (window.count >= limit) {
+        return { allowed: false, retryAfterMs: window.resetAt - time };
+      }
+      window.count += 1;
+      return { allowed: true, retryAfterMs: 0 };
+    },
+  };
+};
@@ -0,0 +1,83 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { ServerResponse } from "node:http";
+import path from "node:path";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".mjs": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json; charset=utf-8",
+  ".map": "application/json; charset=utf-8",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".ico": "image/x-icon",
+  ".wasm": "application/wasm",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+const isFile = async (filePath: string) => {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+};
+
+// Serves a file of the built app. Paths without an extension fall back to
+// index.html so client-side routes load the app. Returns the status sent.
+export const serveStatic = async (
+  root: string,
+  pathname: string,
+  res: ServerResponse,
+  headOnly = false
+): Promise<number> => {
+  const sendStatus = (status: number, message: string) => {
+    res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end(headOnly ? undefined : message);
+    return status;
+  };
+
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return sendStatus(400, "Bad request");
+  }
+  const base = path.resolve(root);
+  let filePath = path.resolve(base, `.${decoded}`);
+  // Never serve anything outside the app's directory
+  if (filePath !== base && !filePath.startsWith(base + path.sep)) {
+    return sendStatus(404, "Not found");
+  }
+  if (!(await isFile(filePath))) {
+    if (path.extname(filePath)) return sendStatus(404, "Not found");
+    filePath = path.join(base, "index.html");
+    if (!(await isFile(filePath))) return sendStatus(404, "Not found");
+  }
+
+  const extension = path.extname(filePath);
+  res.writeHead(200, {
+    // The tesseract language data is served gzipped as is, not decoded
+    "Content-Type": CONTENT_TYPES[extension] ?? "application/octet-stream",
+    // Vite fingerprints everything under assets/
+    "Cache-Control": decoded.startsWith("/assets/")
+      ? "public, max-age=31536000, immutable"
+      : "no-cache",
+    "X-Content-Type-Options": "nosniff",
+  });
+  if (headOnly) {
+    res.end();
+  } else {
+    createReadStream(filePath)
+      .on("error", () => res.destroy())
+      .pipe(res);
+  }
+  return 200;
+};
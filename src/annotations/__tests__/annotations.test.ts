@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addAnnotationToRegions,
+  Annotation,
+  describeAnnotationStyle,
+  describeColor,
+  findAnnotationAt,
+  isCommittable,
+  removeAnnotation,
+  translateAnnotation,
+} from '..';
+
+let nextId = 0;
+const pen = (points: [number, number][]): Annotation => ({
+  id: nextId++,
+  tool: 'pen',
+  points: points.map(([x, y]) => ({ x, y })),
+  style: { color: '#ef4444', width: 3 },
+});
+
+describe('annotations', () => {
+  it('names custom colours after the closest preset', () => {
+    expect(describeColor('#ef4444')).toBe('red');
+    expect(describeColor('#2f6fe0')).toBe('blue');
+    expect(describeColor('not-a-colour')).toBe('not-a-colour');
+  });
+
+  it('describes the tool and colour used for a marking', () => {
+    expect(describeAnnotationStyle('highlighter', { color: '#facc15', width: 18 })).toBe(
+      'yellow translucent highlighter'
+    );
+  });
+
+  it('joins nearby annotations into the same region', () => {
+    let regions = addAnnotationToRegions([], pen([[10, 10], [60, 10]]), 0);
+    regions = addAnnotationToRegions(regions, pen([[10, 20], [60, 20]]), 1);
+    regions = addAnnotationToRegions(regions, pen([[300, 300], [350, 300]]), 2);
+
+    expect(regions).toHaveLength(2);
+    expect(regions[0].annotations).toHaveLength(2);
+    expect(regions[1].id).toBe(2);
+  });
+
+  it('only commits shapes that were actually dragged', () => {
+    const click: Annotation = {
+      id: 99,
+      tool: 'rectangle',
+      points: [{ x: 5, y: 5 }, { x: 6, y: 5 }],
+      style: { color: '#ef4444', width: 3 },
+    };
+    expect(isCommittable(click)).toBe(false);
+    expect(isCommittable({ ...click, points: [{ x: 5, y: 5 }, { x: 50, y: 40 }] })).toBe(true);
+    expect(isCommittable(pen([[1, 1]]))).toBe(false);
+  });
+
+  it('hit-tests the topmost annotation near a point', () => {
+    const regions = addAnnotationToRegions(
+      addAnnotationToRegions([], pen([[0, 50], [100, 50]]), 0),
+      pen([[50, 0], [50, 100]]),
+      1
+    );
+    const [horizontal, vertical] = regions[0].annotations;
+
+    expect(findAnnotationAt(regions, { x: 10, y: 53 })?.id).toBe(horizontal.id);
+    expect(findAnnotationAt(regions, { x: 50, y: 50 })?.id).toBe(vertical.id);
+    expect(findAnnotationAt(regions, { x: 90, y: 90 })).toBeNull();
+  });
+
+  it('hit-tests shape outlines rather than their interiors', () => {
+    const box: Annotation = {
+      id: 7,
+      tool: 'rectangle',
+      points: [{ x: 0, y: 0 }, { x: 100, y: 100 }],
+      style: { color: '#ef4444', width: 3 },
+    };
+    const regions = addAnnotationToRegions([], box, 0);
+
+    expect(findAnnotationAt(regions, { x: 100, y: 40 })?.id).toBe(7);
+    expect(findAnnotationAt(regions, { x: 50, y: 50 })).toBeNull();
+  });
+
+  it('removes and moves individual annotations', () => {
+    const stroke = pen([[0, 0], [10, 0]]);
+    const regions = addAnnotationToRegions([], stroke, 0);
+
+    expect(removeAnnotation(regions, stroke.id)).toEqual([]);
+    const moved = translateAnnotation(regions, stroke.id, 5, 5);
+    expect(moved[0].annotations[0].points).toEqual([{ x: 5, y: 5 }, { x: 15, y: 5 }]);
+  });
+});
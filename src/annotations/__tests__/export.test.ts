@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getMarkedArea, Region } from '..';
+
+const region = (id: number, points: [number, number][]): Region => ({
+  id,
+  question: '',
+  annotations: [
+    {
+      id,
+      tool: 'pen',
+      points: points.map(([x, y]) => ({ x, y })),
+      style: { color: '#ef4444', width: 3 },
+    },
+  ],
+});
+
+describe('export', () => {
+  it('returns null when nothing is marked', () => {
+    expect(getMarkedArea([], 1000, 800)).toBeNull();
+  });
+
+  it('pads the bounds of every region by a fraction of their size', () => {
+    const regions = [region(1, [[400, 300], [500, 300]]), region(2, [[600, 500], [700, 500]])];
+
+    expect(getMarkedArea(regions, 2000, 2000, 0.25)).toEqual({
+      x: 325,
+      y: 250,
+      width: 450,
+      height: 300,
+    });
+  });
+
+  it('keeps the close-up inside the image', () => {
+    const regions = [region(1, [[10, 10], [990, 790]])];
+
+    expect(getMarkedArea(regions, 1000, 800)).toEqual({ x: 0, y: 0, width: 1000, height: 800 });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  commitSince,
+  createHistory,
+  pushHistory,
+  redo,
+  Region,
+  replacePresent,
+  undo,
+} from '..';
+
+const region = (id: number): Region => ({ id, annotations: [], question: '' });
+
+describe('annotation history', () => {
+  it('undoes and redoes pushed states', () => {
+    const first = [region(1)];
+    const second = [region(1), region(2)];
+    let history = pushHistory(pushHistory(createHistory(), first), second);
+
+    history = undo(history);
+    expect(history.present).toBe(first);
+    history = undo(history);
+    expect(history.present).toEqual([]);
+    expect(undo(history)).toBe(history);
+
+    history = redo(redo(history));
+    expect(history.present).toBe(second);
+    expect(redo(history)).toBe(history);
+  });
+
+  it('drops the redo stack when a new state is pushed', () => {
+    let history = pushHistory(createHistory(), [region(1)]);
+    history = undo(history);
+    history = pushHistory(history, [region(2)]);
+
+    expect(history.future).toEqual([]);
+  });
+
+  it('records a whole drag as a single undo step', () => {
+    const before = [region(1)];
+    let history = pushHistory(createHistory(), before);
+    history = replacePresent(history, [region(2)]);
+    history = replacePresent(history, [region(3)]);
+    history = commitSince(history, before);
+
+    expect(history.past).toHaveLength(2);
+    expect(undo(history).present).toBe(before);
+  });
+});
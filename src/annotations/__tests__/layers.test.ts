@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { Annotation, createLayeredRenderer, LayerScene, Region, renderScene } from '..';
+
+// A canvas whose 2D context only counts what is drawn on it.
+const fakeCanvas = (width = 800, height = 600) => {
+  const counts = { paths: 0, images: 0, clears: 0 };
+  const canvas = { width, height } as HTMLCanvasElement;
+  const noop = () => {};
+  const ctx = {
+    canvas,
+    save: noop,
+    restore: noop,
+    setTransform: noop,
+    beginPath: noop,
+    stroke: noop,
+    fill: noop,
+    arc: noop,
+    measureText: () => ({ width: 40 }),
+    fillText: noop,
+    fillRect: noop,
+    strokeRect: noop,
+    setLineDash: noop,
+    ellipse: noop,
+    moveTo: () => counts.paths++,
+    lineTo: () => counts.paths++,
+    quadraticCurveTo: () => counts.paths++,
+    drawImage: () => counts.images++,
+    clearRect: () => counts.clears++,
+  };
+  canvas.getContext = (() => ctx) as unknown as HTMLCanvasElement['getContext'];
+  return { canvas, counts };
+};
+
+const setup = () => {
+  const display = fakeCanvas();
+  const layers: ReturnType<typeof fakeCanvas>[] = [];
+  let pending: (() => void) | null = null;
+  const renderer = createLayeredRenderer(display.canvas, {
+    createCanvas: () => {
+      layers.push(fakeCanvas(0, 0));
+      return layers[layers.length - 1].canvas;
+    },
+    requestFrame: (callback) => {
+      pending = callback;
+      return 1;
+    },
+    cancelFrame: () => {
+      pending = null;
+    },
+  });
+  const runFrame = () => {
+    const callback = pending;
+    pending = null;
+    callback?.();
+    return callback !== null;
+  };
+  const [base, annotations] = layers;
+  return { renderer, display, base, annotations, runFrame };
+};
+
+let nextId = 0;
+const stroke = (length: number, y = 0): Annotation => ({
+  id: nextId++,
+  tool: 'pen',
+  points: Array.from({ length }, (_, i) => ({ x: i % 800, y: y + Math.sin(i / 10) * 20 })),
+  style: { color: '#ef4444', width: 3 },
+});
+
+// Many committed strokes with a thousand points each.
+const busyScene = (strokes: number): LayerScene => ({
+  image: {} as CanvasImageSource,
+  viewport: { scale: 1, offsetX: 0, offsetY: 0 },
+  regions: Array.from(
+    { length: strokes },
+    (_, i): Region => ({ id: i, question: '', annotations: [stroke(1000, i * 5)] })
+  ),
+});
+
+describe('layered renderer', () => {
+  it('draws nothing until the next frame and coalesces updates into it', () => {
+    const { renderer, display, base, runFrame } = setup();
+
+    renderer.setScene(busyScene(1));
+    renderer.setLiveStroke(stroke(10));
+    renderer.setLiveStroke(stroke(20));
+    expect(display.counts.images).toBe(0);
+
+    expect(runFrame()).toBe(true);
+    expect(base.counts.images).toBe(1);
+    expect(display.counts.images).toBe(2);
+    expect(runFrame()).toBe(false);
+  });
+
+  it('redraws only the annotation layer when annotations change', () => {
+    const { renderer, base, annotations, runFrame } = setup();
+    const scene = busyScene(2);
+    renderer.setScene(scene);
+    runFrame();
+    const annotationPaths = annotations.counts.paths;
+
+    renderer.setScene({ ...scene, regions: [...scene.regions] });
+    runFrame();
+
+    expect(base.counts.images).toBe(1);
+    expect(annotations.counts.paths).toBe(annotationPaths * 2);
+  });
+
+  it('redraws the image layer when the viewport or canvas size changes', () => {
+    const { renderer, display, base, runFrame } = setup();
+    const scene = busyScene(1);
+    renderer.setScene(scene);
+    runFrame();
+
+    renderer.setScene({ ...scene, viewport: { scale: 2, offsetX: 0, offsetY: 0 } });
+    runFrame();
+    display.canvas.width = 400;
+    renderer.setScene({ ...scene, viewport: { scale: 2, offsetX: 0, offsetY: 0 } });
+    runFrame();
+
+    expect(base.counts.images).toBe(3);
+  });
+
+  it('draws answer boxes on their own layer, redrawn only when they change', () => {
+    const { renderer, display, annotations, runFrame } = setup();
+    const boxes = [{ label: 'ohm sign', box2d: [100, 100, 200, 200] as [number, number, number, number] }];
+    const scene = { ...busyScene(1), boxes, imageSize: { width: 800, height: 600 } };
+    renderer.setScene(scene);
+    runFrame();
+    const annotationPaths = annotations.counts.paths;
+
+    renderer.setScene({ ...scene, highlightedBox: 0 });
+    runFrame();
+
+    expect(annotations.counts.paths).toBe(annotationPaths);
+    // Image, annotations and boxes are composited on each frame
+    expect(display.counts.images).toBe(6);
+  });
+
+  it('stops drawing once the scene is cleared', () => {
+    const { renderer, display, runFrame } = setup();
+    renderer.setScene(busyScene(1));
+    renderer.setScene(null);
+    renderer.setLiveStroke(stroke(5));
+
+    runFrame();
+
+    expect(display.counts.images).toBe(0);
+  });
+});
+
+describe('layered renderer benchmark', () => {
+  // 200 committed strokes of 1,000 points, and a 5,000 point live stroke
+  // whose pointer events arrive 16 to a frame (~1 kHz pen, 60 Hz display).
+  const COMMITTED = 200;
+  const LIVE_POINTS = 5000;
+  const EVENTS_PER_FRAME = 16;
+
+  it('keeps committed strokes out of the per-event work', () => {
+    const { renderer, display, base, annotations, runFrame } = setup();
+    renderer.setScene(busyScene(COMMITTED));
+    runFrame();
+    const committedPaths = annotations.counts.paths;
+    const live = stroke(1);
+
+    const started = performance.now();
+    let frames = 0;
+    for (let i = 1; i < LIVE_POINTS; i++) {
+      live.points.push({ x: i % 800, y: Math.cos(i / 7) * 50 });
+      renderer.setLiveStroke(live);
+      if (i % EVENTS_PER_FRAME === 0 && runFrame()) frames++;
+    }
+    if (runFrame()) frames++;
+    const elapsed = performance.now() - started;
+
+    expect(frames).toBe(Math.ceil((LIVE_POINTS - 1) / EVENTS_PER_FRAME));
+    // The image and committed layers were drawn once, before the stroke
+    expect(base.counts.images).toBe(1);
+    expect(annotations.counts.paths).toBe(committedPaths);
+    // Each frame composites the two layers and redraws only the live stroke
+    expect(display.counts.images).toBe(2 * (frames + 1));
+    expect(display.counts.paths).toBeLessThan((frames * LIVE_POINTS) / 2 + LIVE_POINTS);
+    // Generous enough for a slow CI machine
+    expect(elapsed).toBeLessThan(2000);
+  });
+
+  it('does far less work than redrawing the whole scene on every event', () => {
+    const scene = busyScene(COMMITTED);
+    const full = fakeCanvas();
+    const ctx = full.canvas.getContext('2d')!;
+    renderScene(ctx, scene);
+    const pathsPerFullRedraw = full.counts.paths;
+
+    const { renderer, display, annotations, runFrame } = setup();
+    renderer.setScene(scene);
+    const live = stroke(1);
+    for (let i = 1; i < LIVE_POINTS; i++) {
+      live.points.push({ x: i % 800, y: 0 });
+      renderer.setLiveStroke(live);
+      if (i % EVENTS_PER_FRAME === 0) runFrame();
+    }
+    runFrame();
+
+    const layeredPaths = annotations.counts.paths + display.counts.paths;
+    const naivePaths = pathsPerFullRedraw * (LIVE_POINTS - 1);
+    expect(layeredPaths * 100).toBeLessThan(naivePaths);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  Annotation,
+  drawAnnotation,
+  pressureToWidth,
+  simplifyAnnotation,
+  simplifyIndices,
+  simplifyPath,
+  stabilizePoint,
+  strokeMidpoints,
+} from '..';
+
+const points = (coords: [number, number][]) => coords.map(([x, y]) => ({ x, y }));
+
+// Records the path calls and line widths a stroke is drawn with.
+const recordingContext = () => {
+  const calls: string[] = [];
+  const widths: number[] = [];
+  const ctx = {
+    save: () => {},
+    restore: () => {},
+    beginPath: () => {},
+    moveTo: () => calls.push('moveTo'),
+    lineTo: () => calls.push('lineTo'),
+    quadraticCurveTo: () => calls.push('quadraticCurveTo'),
+    stroke: () => widths.push(ctx.lineWidth),
+    lineWidth: 0,
+  };
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, calls, widths };
+};
+
+describe('stroke simplification', () => {
+  it('drops points that lie on a straight line', () => {
+    const line = points([[0, 0], [1, 0.1], [2, -0.1], [3, 0], [10, 0]]);
+
+    expect(simplifyPath(line, 0.5)).toEqual(points([[0, 0], [10, 0]]));
+  });
+
+  it('keeps corners further than the tolerance from the simplified line', () => {
+    const corner = points([[0, 0], [5, 0.2], [10, 0], [10, 5], [10.2, 10]]);
+
+    expect(simplifyIndices(corner, 0.5)).toEqual([0, 2, 4]);
+    expect(simplifyIndices(corner, 20)).toEqual([0, 4]);
+  });
+
+  it('leaves very short paths alone', () => {
+    expect(simplifyIndices(points([[0, 0]]), 1)).toEqual([0]);
+    expect(simplifyIndices(points([[0, 0], [0, 0]]), 1)).toEqual([0, 1]);
+  });
+
+  it('handles long strokes without recursion', () => {
+    const zigzag = points(Array.from({ length: 50000 }, (_, i) => [i, i % 2 === 0 ? 0 : 0.01] as [number, number]));
+
+    expect(simplifyPath(zigzag, 0.5)).toHaveLength(2);
+  });
+
+  it('keeps pressures aligned with the surviving points', () => {
+    const stroke: Annotation = {
+      id: 0,
+      tool: 'pen',
+      points: points([[0, 0], [5, 0], [10, 0], [10, 10]]),
+      pressures: [0.1, 0.2, 0.3, 0.4],
+      style: { color: '#ef4444', width: 3 },
+    };
+
+    expect(simplifyAnnotation(stroke, 0.5)).toMatchObject({
+      points: points([[0, 0], [10, 0], [10, 10]]),
+      pressures: [0.1, 0.3, 0.4],
+    });
+  });
+
+  it('does not touch shapes', () => {
+    const rectangle: Annotation = {
+      id: 1,
+      tool: 'rectangle',
+      points: points([[0, 0], [10, 10]]),
+      style: { color: '#ef4444', width: 3 },
+    };
+
+    expect(simplifyAnnotation(rectangle, 100)).toBe(rectangle);
+  });
+});
+
+describe('stroke smoothing', () => {
+  it('moves stabilised points part of the way to the pointer', () => {
+    expect(stabilizePoint({ x: 0, y: 0 }, { x: 10, y: -10 }, 0.4)).toEqual({ x: 6, y: -6 });
+    expect(stabilizePoint({ x: 0, y: 0 }, { x: 10, y: -10 }, 0)).toEqual({ x: 10, y: -10 });
+  });
+
+  it('computes the midpoints the smoothed curve passes through', () => {
+    expect(strokeMidpoints(points([[0, 0], [10, 0], [10, 10]]))).toEqual(points([[5, 0], [10, 5]]));
+  });
+
+  it('draws freehand strokes as curves through the midpoints', () => {
+    const { ctx, calls, widths } = recordingContext();
+
+    drawAnnotation(ctx, {
+      id: 0,
+      tool: 'highlighter',
+      points: points([[0, 0], [10, 0], [10, 10], [20, 10]]),
+      style: { color: '#facc15', width: 18 },
+    });
+
+    expect(calls).toEqual(['moveTo', 'lineTo', 'quadraticCurveTo', 'quadraticCurveTo', 'lineTo']);
+    expect(widths).toEqual([18]);
+  });
+});
+
+describe('pressure', () => {
+  it('scales the width around a normal pressure of 0.5', () => {
+    expect(pressureToWidth(4, 0.5)).toBe(4);
+    expect(pressureToWidth(4, 0)).toBe(1);
+    expect(pressureToWidth(4, 1)).toBe(7);
+  });
+
+  it('draws each segment of a stylus stroke with its own width', () => {
+    const { ctx, widths } = recordingContext();
+
+    drawAnnotation(ctx, {
+      id: 0,
+      tool: 'pen',
+      points: points([[0, 0], [10, 0], [20, 0]]),
+      pressures: [0, 0.5, 1],
+      style: { color: '#ef4444', width: 4 },
+    });
+
+    expect(widths).toEqual([pressureToWidth(4, 0.25), pressureToWidth(4, 0.75)]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canvasToImage,
+  clampViewport,
+  fitViewport,
+  getDisplaySize,
+  imageToCanvas,
+  MAX_ZOOM,
+  zoomAt,
+} from '..';
+
+const image = { width: 4000, height: 3000 };
+const canvas = getDisplaySize(image, 600, 450);
+
+describe('viewport', () => {
+  it('shrinks large images to the display box but never enlarges small ones', () => {
+    expect(canvas).toEqual({ width: 600, height: 450 });
+    expect(getDisplaySize({ width: 300, height: 200 }, 600, 450)).toEqual({ width: 300, height: 200 });
+  });
+
+  it('sizes the canvas in whole pixels', () => {
+    expect(getDisplaySize({ width: 1000, height: 333 }, 600, 450)).toEqual({ width: 600, height: 200 });
+  });
+
+  it('round-trips points between image and canvas coordinates', () => {
+    const viewport = { scale: 0.5, offsetX: -120, offsetY: 30 };
+    const point = { x: 1234, y: 567 };
+
+    expect(canvasToImage(viewport, imageToCanvas(viewport, point))).toEqual(point);
+  });
+
+  it('keeps the image point under the cursor fixed while zooming', () => {
+    const fit = fitViewport(image, canvas);
+    const anchor = { x: 150, y: 100 };
+    const before = canvasToImage(fit, anchor);
+    const zoomed = zoomAt(fit, 3, anchor);
+
+    const after = canvasToImage(zoomed, anchor);
+    expect(after.x).toBeCloseTo(before.x);
+    expect(after.y).toBeCloseTo(before.y);
+  });
+
+  it('clamps zoom between fit-to-view and the maximum', () => {
+    const fit = fitViewport(image, canvas);
+
+    expect(clampViewport({ ...fit, scale: fit.scale / 2 }, image, canvas)).toEqual(fit);
+    expect(clampViewport({ ...fit, scale: 100 }, image, canvas).scale).toBeCloseTo(fit.scale * MAX_ZOOM);
+  });
+
+  it('stops the image from being panned off the canvas', () => {
+    const clamped = clampViewport({ scale: 1, offsetX: 500, offsetY: -10000 }, image, canvas);
+
+    expect(clamped.offsetX).toBe(0);
+    expect(clamped.offsetY).toBe(canvas.height - image.height);
+  });
+});
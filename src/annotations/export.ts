@@ -0,0 +1,139 @@
+import { getRegionBounds } from "./geometry";
+import { BADGE_RADIUS, renderScene } from "./render";
+import { Region } from "./types";
+
+export type ExportFormat = "png" | "jpeg";
+
+export interface ExportOptions {
+  // Longest side of the output in pixels; larger images are scaled down.
+  maxDimension?: number;
+  format?: ExportFormat;
+  // JPEG quality between 0 and 1, ignored for PNG.
+  quality?: number;
+}
+
+export interface CropOptions extends ExportOptions {
+  // Extra context around the marked area, as a fraction of its size.
+  padding?: number;
+  // False leaves the markings out, e.g. for OCR, which they would confuse.
+  includeMarkings?: boolean;
+}
+
+export const DEFAULT_EXPORT_MAX_DIMENSION = 2048;
+export const DEFAULT_JPEG_QUALITY = 0.92;
+const DEFAULT_CROP_PADDING = 0.25;
+// Keeps tiny marks (a single underlined word) from producing a sliver.
+const MIN_CROP_PADDING_PX = 48;
+
+interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const renderToDataUrl = (
+  image: HTMLImageElement,
+  regions: Region[],
+  source: SourceRect,
+  {
+    maxDimension = DEFAULT_EXPORT_MAX_DIMENSION,
+    format = "png",
+    quality = DEFAULT_JPEG_QUALITY,
+  }: ExportOptions
+): string | null => {
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(source.width, source.height)
+  );
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  renderScene(ctx, {
+    image,
+    regions,
+    viewport: {
+      scale,
+      offsetX: -source.x * scale,
+      offsetY: -source.y * scale,
+    },
+    badgeRadius: Math.max(
+      BADGE_RADIUS,
+      Math.max(canvas.width, canvas.height) / 60
+    ),
+    // Transparent pixels would otherwise turn black in a JPEG
+    background: format === "jpeg" ? "#FFFFFF" : undefined,
+  });
+
+  return format === "jpeg"
+    ? canvas.toDataURL("image/jpeg", quality)
+    : canvas.toDataURL("image/png");
+};
+
+// Renders the annotations onto the image at its natural resolution (capped
+// at maxDimension), independent of the on-screen zoom.
+export const exportAnnotatedImage = (
+  image: HTMLImageElement,
+  regions: Region[],
+  options: ExportOptions = {}
+): string | null =>
+  renderToDataUrl(
+    image,
+    regions,
+    { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight },
+    options
+  );
+
+// The padded bounding box of every marked region, clamped to the image.
+export const getMarkedArea = (
+  regions: Region[],
+  imageWidth: number,
+  imageHeight: number,
+  padding = DEFAULT_CROP_PADDING
+): SourceRect | null => {
+  if (regions.length === 0) return null;
+
+  const bounds = regions.map(getRegionBounds).reduce((a, b) => ({
+    minX: Math.min(a.minX, b.minX),
+    minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX),
+    maxY: Math.max(a.maxY, b.maxY),
+  }));
+  const padX = Math.max(
+    MIN_CROP_PADDING_PX,
+    (bounds.maxX - bounds.minX) * padding
+  );
+  const padY = Math.max(
+    MIN_CROP_PADDING_PX,
+    (bounds.maxY - bounds.minY) * padding
+  );
+
+  const x = Math.max(0, Math.floor(bounds.minX - padX));
+  const y = Math.max(0, Math.floor(bounds.minY - padY));
+  return {
+    x,
+    y,
+    width: Math.min(imageWidth, Math.ceil(bounds.maxX + padX)) - x,
+    height: Math.min(imageHeight, Math.ceil(bounds.maxY + padY)) - y,
+  };
+};
+
+// A close-up of just the marked area, so fine print survives downscaling.
+export const exportMarkedCrop = (
+  image: HTMLImageElement,
+  regions: Region[],
+  { padding, includeMarkings = true, ...options }: CropOptions = {}
+): string | null => {
+  const area = getMarkedArea(
+    regions,
+    image.naturalWidth,
+    image.naturalHeight,
+    padding
+  );
+  return area
+    ? renderToDataUrl(image, includeMarkings ? regions : [], area, options)
+    : null;
+};
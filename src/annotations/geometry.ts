@@ -0,0 +1,167 @@
+import { FREEHAND_TOOLS } from "./tools";
+import { Annotation, Bounds, Point, Region } from "./types";
+
+// Annotations closer than this (in pixels) to an existing region join it.
+export const REGION_JOIN_DISTANCE = 24;
+
+export const getPointsBounds = (points: Point[]): Bounds => ({
+  minX: Math.min(...points.map((p) => p.x)),
+  minY: Math.min(...points.map((p) => p.y)),
+  maxX: Math.max(...points.map((p) => p.x)),
+  maxY: Math.max(...points.map((p) => p.y)),
+});
+
+export const getRegionBounds = (region: Region): Bounds =>
+  getPointsBounds(region.annotations.flatMap((a) => a.points));
+
+export const boundsOverlap = (a: Bounds, b: Bounds, padding: number) =>
+  a.minX - padding <= b.maxX &&
+  b.minX - padding <= a.maxX &&
+  a.minY - padding <= b.maxY &&
+  b.minY - padding <= a.maxY;
+
+export const addAnnotationToRegions = (
+  regions: Region[],
+  annotation: Annotation,
+  nextId: number,
+  joinDistance = REGION_JOIN_DISTANCE
+): Region[] => {
+  const annotationBounds = getPointsBounds(annotation.points);
+  const target = regions.find((region) =>
+    boundsOverlap(getRegionBounds(region), annotationBounds, joinDistance)
+  );
+  if (target) {
+    return regions.map((region) =>
+      region === target
+        ? { ...region, annotations: [...region.annotations, annotation] }
+        : region
+    );
+  }
+  return [...regions, { id: nextId, annotations: [annotation], question: "" }];
+};
+
+// Shapes need a real drag and freehand strokes need more than a click.
+export const isCommittable = ({ tool, points }: Annotation): boolean => {
+  if (points.length < 2) return false;
+  if (FREEHAND_TOOLS.includes(tool)) return true;
+  const [start, end] = [points[0], points[points.length - 1]];
+  return Math.hypot(end.x - start.x, end.y - start.y) > 2;
+};
+
+export const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  const t = Math.max(
+    0,
+    Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared)
+  );
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+const distanceToPolyline = (p: Point, points: Point[]): number => {
+  let min = Infinity;
+  for (let i = 1; i < points.length; i++) {
+    min = Math.min(min, distanceToSegment(p, points[i - 1], points[i]));
+  }
+  return min;
+};
+
+const ELLIPSE_SEGMENTS = 48;
+
+// The outline that hit-testing measures against, as a polyline.
+const getOutline = ({ tool, points }: Annotation): Point[] => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  switch (tool) {
+    case "pen":
+    case "highlighter":
+      return points;
+    case "arrow":
+      return [start, end];
+    case "rectangle":
+      return [
+        start,
+        { x: end.x, y: start.y },
+        end,
+        { x: start.x, y: end.y },
+        start,
+      ];
+    case "ellipse": {
+      const cx = (start.x + end.x) / 2;
+      const cy = (start.y + end.y) / 2;
+      const rx = Math.abs(end.x - start.x) / 2;
+      const ry = Math.abs(end.y - start.y) / 2;
+      return Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i) => {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        return { x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) };
+      });
+    }
+  }
+};
+
+// Minimum hit distance, so thin strokes are still easy to grab.
+export const HIT_TOLERANCE = 6;
+
+export const hitTestAnnotation = (
+  annotation: Annotation,
+  point: Point,
+  tolerance = HIT_TOLERANCE
+): boolean =>
+  distanceToPolyline(point, getOutline(annotation)) <=
+  Math.max(tolerance, annotation.style.width / 2);
+
+// Returns the topmost (most recently drawn) annotation under the point.
+export const findAnnotationAt = (
+  regions: Region[],
+  point: Point,
+  tolerance = HIT_TOLERANCE
+): Annotation | null => {
+  const candidates = regions
+    .flatMap((region) => region.annotations)
+    .filter((annotation) => hitTestAnnotation(annotation, point, tolerance));
+  if (candidates.length === 0) return null;
+  return candidates.reduce((top, annotation) =>
+    annotation.id > top.id ? annotation : top
+  );
+};
+
+export const findAnnotation = (
+  regions: Region[],
+  id: number
+): Annotation | null =>
+  regions
+    .flatMap((region) => region.annotations)
+    .find((annotation) => annotation.id === id) ?? null;
+
+// Removes one annotation; regions left empty are removed with it.
+export const removeAnnotation = (regions: Region[], id: number): Region[] =>
+  regions
+    .map((region) => ({
+      ...region,
+      annotations: region.annotations.filter((a) => a.id !== id),
+    }))
+    .filter((region) => region.annotations.length > 0);
+
+export const translateAnnotation = (
+  regions: Region[],
+  id: number,
+  dx: number,
+  dy: number
+): Region[] =>
+  regions.map((region) =>
+    region.annotations.some((a) => a.id === id)
+      ? {
+          ...region,
+          annotations: region.annotations.map((a) =>
+            a.id === id
+              ? {
+                  ...a,
+                  points: a.points.map((p) => ({ x: p.x + dx, y: p.y + dy })),
+                }
+              : a
+          ),
+        }
+      : region
+  );
@@ -0,0 +1,69 @@
+import { Region } from "./types";
+
+// Undo/redo stacks of whole region snapshots. Snapshots are immutable, so
+// keeping references to previous states is cheap.
+export interface AnnotationHistory {
+  past: Region[][];
+  present: Region[];
+  future: Region[][];
+}
+
+// Long sessions should not grow memory without bound.
+export const MAX_HISTORY = 100;
+
+export const createHistory = (present: Region[] = []): AnnotationHistory => ({
+  past: [],
+  present,
+  future: [],
+});
+
+export const pushHistory = (
+  history: AnnotationHistory,
+  next: Region[]
+): AnnotationHistory =>
+  next === history.present
+    ? history
+    : {
+        past: [...history.past, history.present].slice(-MAX_HISTORY),
+        present: next,
+        future: [],
+      };
+
+// Replaces the present without an undo step, e.g. while a drag is in
+// progress or when editing a region's question.
+export const replacePresent = (
+  history: AnnotationHistory,
+  next: Region[]
+): AnnotationHistory => ({ ...history, present: next });
+
+// Records `before` as the undo step for everything that happened since,
+// used to turn a whole drag into a single history entry.
+export const commitSince = (
+  history: AnnotationHistory,
+  before: Region[]
+): AnnotationHistory =>
+  before === history.present
+    ? history
+    : {
+        past: [...history.past, before].slice(-MAX_HISTORY),
+        present: history.present,
+        future: [],
+      };
+
+export const undo = (history: AnnotationHistory): AnnotationHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redo = (history: AnnotationHistory): AnnotationHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
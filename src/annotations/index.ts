@@ -0,0 +1,9 @@
+export * from "./types";
+export * from "./tools";
+export * from "./geometry";
+export * from "./render";
+export * from "./layers";
+export * from "./strokes";
+export * from "./history";
+export * from "./viewport";
+export * from "./export";
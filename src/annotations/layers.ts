@@ -0,0 +1,198 @@
+import { EntityBox } from "../../utils/entityBoxes";
+import {
+  drawAnnotationLayer,
+  drawEntityBoxes,
+  drawImageLayer,
+  drawLiveAnnotation,
+  Scene,
+} from "./render";
+import { Annotation } from "./types";
+import { Viewport } from "./viewport";
+
+// What the display canvas shows; the live stroke is set separately.
+export interface LayerScene extends Pick<
+  Scene,
+  "image" | "regions" | "viewport" | "selectedAnnotation"
+> {
+  // Boxes from the model's answer, drawn over everything else; see
+  // drawEntityBoxes.
+  boxes?: EntityBox[];
+  highlightedBox?: number | null;
+  imageSize?: { width: number; height: number };
+}
+
+export interface LayeredRendererOptions {
+  // Creates the offscreen canvases the layers are cached in.
+  createCanvas?: () => HTMLCanvasElement;
+  requestFrame?: (callback: () => void) => number;
+  cancelFrame?: (handle: number) => void;
+}
+
+export interface LayeredRenderer {
+  setScene: (scene: LayerScene | null) => void;
+  // The stroke being drawn. Updating it only redraws the stroke itself,
+  // once per animation frame however many pointer events arrive.
+  setLiveStroke: (stroke: Annotation | null) => void;
+  // Draws any pending changes now instead of on the next frame.
+  flush: () => void;
+  destroy: () => void;
+}
+
+interface Layer {
+  canvas: HTMLCanvasElement;
+  ctx: CanvasRenderingContext2D | null;
+  dirty: boolean;
+}
+
+const sameViewport = (a: Viewport, b: Viewport) =>
+  a.scale === b.scale && a.offsetX === b.offsetX && a.offsetY === b.offsetY;
+
+// Renders onto `display` from three cached layers: the image, redrawn only
+// when the image, viewport or canvas size change; the committed
+// annotations, redrawn only when they or the selection change; and the
+// answer's boxes, redrawn only when they or the highlight change. The live
+// stroke is drawn between the annotations and boxes on requestAnimationFrame,
+// outside React state.
+export const createLayeredRenderer = (
+  display: HTMLCanvasElement,
+  {
+    createCanvas = () => document.createElement("canvas"),
+    requestFrame = (callback) => window.requestAnimationFrame(callback),
+    cancelFrame = (handle) => window.cancelAnimationFrame(handle),
+  }: LayeredRendererOptions = {}
+): LayeredRenderer => {
+  const createLayer = (): Layer => {
+    const canvas = createCanvas();
+    return { canvas, ctx: canvas.getContext("2d"), dirty: true };
+  };
+  const base = createLayer();
+  const annotations = createLayer();
+  const overlay = createLayer();
+  const displayCtx = display.getContext("2d");
+  let scene: LayerScene | null = null;
+  let liveStroke: Annotation | null = null;
+  let frame: number | null = null;
+
+  const resizeLayers = () => {
+    [base, annotations, overlay].forEach((layer) => {
+      if (
+        layer.canvas.width !== display.width ||
+        layer.canvas.height !== display.height
+      ) {
+        // Resizing clears a canvas, so it has to be redrawn
+        layer.canvas.width = display.width;
+        layer.canvas.height = display.height;
+        layer.dirty = true;
+      }
+    });
+  };
+
+  const draw = () => {
+    frame = null;
+    if (
+      !scene ||
+      !displayCtx ||
+      !base.ctx ||
+      !annotations.ctx ||
+      !overlay.ctx
+    ) {
+      return;
+    }
+    resizeLayers();
+    if (base.dirty) {
+      drawImageLayer(base.ctx, scene);
+      base.dirty = false;
+    }
+    if (annotations.dirty) {
+      drawAnnotationLayer(annotations.ctx, scene);
+      annotations.dirty = false;
+    }
+    const boxes = scene.boxes ?? [];
+    if (overlay.dirty) {
+      overlay.ctx.setTransform(1, 0, 0, 1, 0, 0);
+      overlay.ctx.clearRect(0, 0, display.width, display.height);
+      if (boxes.length > 0 && scene.imageSize) {
+        drawEntityBoxes(
+          overlay.ctx,
+          boxes,
+          scene.imageSize,
+          scene.viewport,
+          scene.highlightedBox
+        );
+      }
+      overlay.dirty = false;
+    }
+
+    displayCtx.save();
+    displayCtx.setTransform(1, 0, 0, 1, 0, 0);
+    displayCtx.clearRect(0, 0, display.width, display.height);
+    displayCtx.drawImage(base.canvas, 0, 0);
+    displayCtx.drawImage(annotations.canvas, 0, 0);
+    displayCtx.restore();
+    if (liveStroke) {
+      drawLiveAnnotation(displayCtx, liveStroke, scene.viewport);
+    }
+    if (boxes.length > 0) {
+      displayCtx.save();
+      displayCtx.setTransform(1, 0, 0, 1, 0, 0);
+      displayCtx.drawImage(overlay.canvas, 0, 0);
+      displayCtx.restore();
+    }
+  };
+
+  const scheduleDraw = () => {
+    if (frame === null) frame = requestFrame(draw);
+  };
+
+  const cancelDraw = () => {
+    if (frame !== null) cancelFrame(frame);
+    frame = null;
+  };
+
+  return {
+    setScene: (next) => {
+      if (!next) {
+        scene = null;
+        cancelDraw();
+        return;
+      }
+      if (
+        !scene ||
+        next.image !== scene.image ||
+        !sameViewport(next.viewport, scene.viewport)
+      ) {
+        base.dirty = true;
+        annotations.dirty = true;
+        overlay.dirty = true;
+      } else {
+        if (
+          next.regions !== scene.regions ||
+          next.selectedAnnotation !== scene.selectedAnnotation
+        ) {
+          annotations.dirty = true;
+        }
+        if (
+          next.boxes !== scene.boxes ||
+          next.highlightedBox !== scene.highlightedBox
+        ) {
+          overlay.dirty = true;
+        }
+      }
+      scene = next;
+      scheduleDraw();
+    },
+    setLiveStroke: (stroke) => {
+      liveStroke = stroke;
+      scheduleDraw();
+    },
+    flush: () => {
+      cancelDraw();
+      draw();
+    },
+    destroy: () => {
+      cancelDraw();
+      scene = null;
+      liveStroke = null;
+    },
+  };
+};
@@ -0,0 +1,311 @@
+import { EntityBox, entityBoxToRect } from "../../utils/entityBoxes";
+import { getPointsBounds, getRegionBounds } from "./geometry";
+import { pressureToWidth, strokeMidpoints, traceSmoothPath } from "./strokes";
+import { TOOL_OPACITY } from "./tools";
+import { Annotation, Point, Region } from "./types";
+import { imageToCanvas, Viewport } from "./viewport";
+
+export const BADGE_RADIUS = 11;
+
+const strokeFreehand = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  ctx.beginPath();
+  traceSmoothPath(ctx, points);
+  ctx.stroke();
+};
+
+// Pressure strokes are drawn one smoothed segment at a time, each with the
+// width for the average pressure at its ends. Round caps hide the joins.
+const strokeWithPressure = (
+  ctx: CanvasRenderingContext2D,
+  points: Point[],
+  pressures: number[],
+  width: number
+) => {
+  const midpoints = strokeMidpoints(points);
+  const last = points.length - 1;
+  for (let i = 0; i < last; i++) {
+    const from = i === 0 ? points[0] : midpoints[i - 1];
+    const to = i === last - 1 ? points[last] : midpoints[i];
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    if (i === 0) ctx.lineTo(to.x, to.y);
+    else ctx.quadraticCurveTo(points[i].x, points[i].y, to.x, to.y);
+    ctx.lineWidth = pressureToWidth(
+      width,
+      (pressures[i] + pressures[i + 1]) / 2
+    );
+    ctx.stroke();
+  }
+};
+
+const strokeArrow = (
+  ctx: CanvasRenderingContext2D,
+  start: Point,
+  end: Point,
+  width: number
+) => {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const headLength = Math.max(10, width * 4);
+
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.moveTo(
+    end.x - headLength * Math.cos(angle - Math.PI / 6),
+    end.y - headLength * Math.sin(angle - Math.PI / 6)
+  );
+  ctx.lineTo(end.x, end.y);
+  ctx.lineTo(
+    end.x - headLength * Math.cos(angle + Math.PI / 6),
+    end.y - headLength * Math.sin(angle + Math.PI / 6)
+  );
+  ctx.stroke();
+};
+
+export const drawAnnotation = (
+  ctx: CanvasRenderingContext2D,
+  { tool, points, pressures, style }: Annotation
+) => {
+  if (points.length < 2) return;
+  const start = points[0];
+  const end = points[points.length - 1];
+
+  ctx.save();
+  ctx.strokeStyle = style.color;
+  ctx.lineWidth = style.width;
+  ctx.globalAlpha = TOOL_OPACITY[tool];
+  ctx.lineCap = tool === "highlighter" ? "butt" : "round";
+  ctx.lineJoin = "round";
+
+  switch (tool) {
+    case "pen":
+      if (pressures?.length === points.length) {
+        strokeWithPressure(ctx, points, pressures, style.width);
+      } else {
+        strokeFreehand(ctx, points);
+      }
+      break;
+    case "highlighter":
+      strokeFreehand(ctx, points);
+      break;
+    case "rectangle":
+      ctx.strokeRect(start.x, start.y, end.x - start.x, end.y - start.y);
+      break;
+    case "ellipse":
+      ctx.beginPath();
+      ctx.ellipse(
+        (start.x + end.x) / 2,
+        (start.y + end.y) / 2,
+        Math.abs(end.x - start.x) / 2,
+        Math.abs(end.y - start.y) / 2,
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+      break;
+    case "arrow":
+      strokeArrow(ctx, start, end, style.width);
+      break;
+  }
+  ctx.restore();
+};
+
+// Badges and selection outlines are drawn in canvas space so they keep a
+// constant on-screen size at every zoom level.
+export const drawRegionBadge = (
+  ctx: CanvasRenderingContext2D,
+  region: Region,
+  number: number,
+  viewport: Viewport,
+  radius = BADGE_RADIUS
+) => {
+  const bounds = getRegionBounds(region);
+  const corner = imageToCanvas(viewport, { x: bounds.minX, y: bounds.minY });
+  const x = Math.max(radius, corner.x - radius);
+  const y = Math.max(radius, corner.y - radius);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = "rgba(239, 68, 68, 0.95)";
+  ctx.fill();
+  ctx.fillStyle = "#FFFFFF";
+  ctx.font = `bold ${Math.round(radius * 1.2)}px Inter, sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(String(number), x, y + 1);
+  ctx.restore();
+};
+
+export const drawSelectionOutline = (
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  viewport: Viewport
+) => {
+  const bounds = getPointsBounds(annotation.points);
+  const topLeft = imageToCanvas(viewport, { x: bounds.minX, y: bounds.minY });
+  const bottomRight = imageToCanvas(viewport, {
+    x: bounds.maxX,
+    y: bounds.maxY,
+  });
+  const padding = (annotation.style.width * viewport.scale) / 2 + 4;
+
+  ctx.save();
+  ctx.strokeStyle = "#38bdf8";
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([6, 4]);
+  ctx.strokeRect(
+    topLeft.x - padding,
+    topLeft.y - padding,
+    bottomRight.x - topLeft.x + padding * 2,
+    bottomRight.y - topLeft.y + padding * 2
+  );
+  ctx.restore();
+};
+
+const BOX_COLOR = "56, 189, 248";
+
+// Boxes the model returned for things its answer mentions, drawn in canvas
+// space with their labels. The highlighted one is filled and drawn last.
+export const drawEntityBoxes = (
+  ctx: CanvasRenderingContext2D,
+  boxes: EntityBox[],
+  imageSize: { width: number; height: number },
+  viewport: Viewport,
+  highlighted: number | null = null
+) => {
+  const order = boxes.map((_, index) => index);
+  if (highlighted !== null && boxes[highlighted]) {
+    order.splice(highlighted, 1);
+    order.push(highlighted);
+  }
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.font = "12px Inter, sans-serif";
+  ctx.textBaseline = "top";
+  order.forEach((index) => {
+    const isHighlighted = index === highlighted;
+    const rect = entityBoxToRect(
+      boxes[index],
+      imageSize.width,
+      imageSize.height
+    );
+    const topLeft = imageToCanvas(viewport, { x: rect.x, y: rect.y });
+    const width = rect.width * viewport.scale;
+    const height = rect.height * viewport.scale;
+
+    if (isHighlighted) {
+      ctx.fillStyle = `rgba(${BOX_COLOR}, 0.2)`;
+      ctx.fillRect(topLeft.x, topLeft.y, width, height);
+    }
+    ctx.strokeStyle = `rgba(${BOX_COLOR}, ${isHighlighted ? 1 : 0.7})`;
+    ctx.lineWidth = isHighlighted ? 3 : 1.5;
+    ctx.setLineDash(isHighlighted ? [] : [5, 3]);
+    ctx.strokeRect(topLeft.x, topLeft.y, width, height);
+
+    // The label sits on the box's top edge, or inside it at the canvas top
+    const label = boxes[index].label;
+    const labelWidth = ctx.measureText(label).width + 8;
+    const labelY = topLeft.y >= 18 ? topLeft.y - 18 : topLeft.y;
+    ctx.fillStyle = isHighlighted
+      ? `rgb(${BOX_COLOR})`
+      : "rgba(15, 23, 42, 0.8)";
+    ctx.fillRect(topLeft.x, labelY, labelWidth, 18);
+    ctx.fillStyle = isHighlighted ? "#0f172a" : "#e0f2fe";
+    ctx.fillText(label, topLeft.x + 4, labelY + 3);
+  });
+  ctx.restore();
+};
+
+export interface Scene {
+  image: CanvasImageSource;
+  regions: Region[];
+  viewport: Viewport;
+  selectedAnnotation?: Annotation | null;
+  // Exports scale badges up so they stay legible on large outputs.
+  badgeRadius?: number;
+  // Painted behind the image, e.g. white for JPEG exports which have no alpha.
+  background?: string;
+}
+
+const setViewportTransform = (
+  ctx: CanvasRenderingContext2D,
+  viewport: Viewport
+) =>
+  ctx.setTransform(
+    viewport.scale,
+    0,
+    0,
+    viewport.scale,
+    viewport.offsetX,
+    viewport.offsetY
+  );
+
+const clearCanvas = (ctx: CanvasRenderingContext2D) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+};
+
+// Clears the canvas and draws the background and image through the
+// viewport transform.
+export const drawImageLayer = (
+  ctx: CanvasRenderingContext2D,
+  { image, viewport, background }: Scene
+) => {
+  ctx.save();
+  clearCanvas(ctx);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+  setViewportTransform(ctx, viewport);
+  ctx.drawImage(image, 0, 0);
+  ctx.restore();
+};
+
+// Draws every annotation through the viewport transform, then the badges
+// and selection outline on top in canvas space. Clears the canvas first
+// unless it is drawing over an image layer on the same canvas.
+export const drawAnnotationLayer = (
+  ctx: CanvasRenderingContext2D,
+  { regions, viewport, selectedAnnotation, badgeRadius }: Scene,
+  clear = true
+) => {
+  ctx.save();
+  if (clear) clearCanvas(ctx);
+  setViewportTransform(ctx, viewport);
+  regions.forEach((region) =>
+    region.annotations.forEach((annotation) => drawAnnotation(ctx, annotation))
+  );
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  // Number badges go on top so strokes never hide them
+  regions.forEach((region, index) =>
+    drawRegionBadge(ctx, region, index + 1, viewport, badgeRadius)
+  );
+  if (selectedAnnotation) {
+    drawSelectionOutline(ctx, selectedAnnotation, viewport);
+  }
+  ctx.restore();
+};
+
+// Draws an annotation that isn't part of any region yet, e.g. the stroke
+// being drawn, through the viewport transform.
+export const drawLiveAnnotation = (
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  viewport: Viewport
+) => {
+  ctx.save();
+  setViewportTransform(ctx, viewport);
+  drawAnnotation(ctx, annotation);
+  ctx.restore();
+};
+
+// Draws the whole scene onto one canvas, as exports do.
+export const renderScene = (ctx: CanvasRenderingContext2D, scene: Scene) => {
+  drawImageLayer(ctx, scene);
+  drawAnnotationLayer(ctx, scene, false);
+};
@@ -0,0 +1,113 @@
+import { distanceToSegment } from "./geometry";
+import { FREEHAND_TOOLS } from "./tools";
+import { Annotation, Point } from "./types";
+
+// Committed freehand strokes drop points that lie within this many screen
+// pixels of the simplified line.
+export const SIMPLIFY_TOLERANCE = 0.75;
+
+// Pen pressure scales the stroke between these multiples of its width;
+// a pressure of 0.5 (what most pens report at a normal touch) draws the
+// picked width.
+export const MIN_PRESSURE_SCALE = 0.25;
+export const MAX_PRESSURE_SCALE = 1.75;
+
+export const pressureToWidth = (width: number, pressure: number) =>
+  width *
+  Math.min(
+    MAX_PRESSURE_SCALE,
+    Math.max(MIN_PRESSURE_SCALE, MIN_PRESSURE_SCALE + pressure * 1.5)
+  );
+
+// Ramer–Douglas–Peucker: the indices of the points to keep so that no
+// dropped point is further than `tolerance` from the line through its
+// kept neighbours. The first and last points are always kept.
+export const simplifyIndices = (points: Point[], tolerance: number) => {
+  if (points.length <= 2) return points.map((_, i) => i);
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+
+  // An explicit stack so long strokes can't overflow the call stack
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let furthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(
+        points[i],
+        points[first],
+        points[last]
+      );
+      if (distance > maxDistance) {
+        furthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (furthest !== -1) {
+      keep[furthest] = true;
+      stack.push([first, furthest], [furthest, last]);
+    }
+  }
+  return keep.flatMap((kept, i) => (kept ? [i] : []));
+};
+
+export const simplifyPath = (points: Point[], tolerance: number) =>
+  simplifyIndices(points, tolerance).map((i) => points[i]);
+
+// Simplifies a freehand stroke, keeping its pressures aligned with the
+// points that survive. Shapes are returned unchanged.
+export const simplifyAnnotation = (
+  annotation: Annotation,
+  tolerance: number
+): Annotation => {
+  if (!FREEHAND_TOOLS.includes(annotation.tool)) return annotation;
+  const indices = simplifyIndices(annotation.points, tolerance);
+  if (indices.length === annotation.points.length) return annotation;
+  const { pressures } = annotation;
+  return {
+    ...annotation,
+    points: indices.map((i) => annotation.points[i]),
+    ...(pressures && { pressures: indices.map((i) => pressures[i]) }),
+  };
+};
+
+// Exponential smoothing for incoming pointer samples: each new point moves
+// only part of the way from the last one, which damps hand and digitiser
+// jitter without adding many points.
+export const stabilizePoint = (last: Point, next: Point, amount = 0.4) => ({
+  x: last.x + (next.x - last.x) * (1 - amount),
+  y: last.y + (next.y - last.y) * (1 - amount),
+});
+
+// Midpoints between consecutive points; a smoothed stroke runs through
+// these, using the original points as quadratic control points.
+export const strokeMidpoints = (points: Point[]) =>
+  points.slice(1).map((point, i) => ({
+    x: (points[i].x + point.x) / 2,
+    y: (points[i].y + point.y) / 2,
+  }));
+
+// Adds a smoothed curve through `points` to the current path.
+export const traceSmoothPath = (
+  ctx: CanvasRenderingContext2D,
+  points: Point[]
+) => {
+  ctx.moveTo(points[0].x, points[0].y);
+  if (points.length < 3) {
+    points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+    return;
+  }
+  const midpoints = strokeMidpoints(points);
+  ctx.lineTo(midpoints[0].x, midpoints[0].y);
+  for (let i = 1; i < points.length - 1; i++) {
+    ctx.quadraticCurveTo(
+      points[i].x,
+      points[i].y,
+      midpoints[i].x,
+      midpoints[i].y
+    );
+  }
+  const end = points[points.length - 1];
+  ctx.lineTo(end.x, end.y);
+};
@@ -0,0 +1,108 @@
+import {
+  AnnotationStyle,
+  AnnotationTool,
+  EditorTool,
+  EditTool,
+  Region,
+  RegionQuestion,
+} from "./types";
+
+export const ANNOTATION_TOOLS: { tool: AnnotationTool; label: string }[] = [
+  { tool: "pen", label: "Pen" },
+  { tool: "highlighter", label: "Highlighter" },
+  { tool: "rectangle", label: "Rectangle" },
+  { tool: "ellipse", label: "Ellipse" },
+  { tool: "arrow", label: "Arrow" },
+];
+
+export const EDIT_TOOLS: { tool: EditTool; label: string }[] = [
+  { tool: "select", label: "Select" },
+  { tool: "eraser", label: "Eraser" },
+];
+
+export const isAnnotationTool = (tool: EditorTool): tool is AnnotationTool =>
+  ANNOTATION_TOOLS.some((option) => option.tool === tool);
+
+export const FREEHAND_TOOLS: AnnotationTool[] = ["pen", "highlighter"];
+
+export const DEFAULT_TOOL_STYLES: Record<AnnotationTool, AnnotationStyle> = {
+  pen: { color: "#ef4444", width: 3 },
+  highlighter: { color: "#facc15", width: 18 },
+  rectangle: { color: "#ef4444", width: 3 },
+  ellipse: { color: "#ef4444", width: 3 },
+  arrow: { color: "#ef4444", width: 3 },
+};
+
+// Highlighter ink is translucent so the marked text stays readable.
+export const TOOL_OPACITY: Record<AnnotationTool, number> = {
+  pen: 0.9,
+  highlighter: 0.35,
+  rectangle: 0.9,
+  ellipse: 0.9,
+  arrow: 0.9,
+};
+
+export const COLOR_PRESETS: { name: string; value: string }[] = [
+  { name: "red", value: "#ef4444" },
+  { name: "orange", value: "#f97316" },
+  { name: "yellow", value: "#facc15" },
+  { name: "green", value: "#22c55e" },
+  { name: "blue", value: "#3b82f6" },
+  { name: "purple", value: "#a855f7" },
+  { name: "black", value: "#000000" },
+  { name: "white", value: "#ffffff" },
+];
+
+const hexToRgb = (hex: string): [number, number, number] | null => {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// Names the closest preset colour, so prompts can say "blue" instead of "#2f6fe0".
+export const describeColor = (hex: string): string => {
+  const rgb = hexToRgb(hex);
+  if (!rgb) return hex;
+
+  let closest = COLOR_PRESETS[0];
+  let closestDistance = Infinity;
+  for (const preset of COLOR_PRESETS) {
+    const presetRgb = hexToRgb(preset.value)!;
+    const distance = presetRgb.reduce(
+      (sum, channel, i) => sum + (channel - rgb[i]) ** 2,
+      0
+    );
+    if (distance < closestDistance) {
+      closest = preset;
+      closestDistance = distance;
+    }
+  }
+  return closest.name;
+};
+
+const TOOL_DESCRIPTIONS: Record<AnnotationTool, string> = {
+  pen: "pen strokes (underlines or circles)",
+  highlighter: "translucent highlighter",
+  rectangle: "rectangle drawn around the content",
+  ellipse: "ellipse drawn around the content",
+  arrow: "arrow pointing at the content",
+};
+
+export const describeAnnotationStyle = (
+  tool: AnnotationTool,
+  style: AnnotationStyle
+): string => `${describeColor(style.color)} ${TOOL_DESCRIPTIONS[tool]}`;
+
+export const getRegionQuestions = (regions: Region[]): RegionQuestion[] =>
+  regions.map((region, index) => ({
+    number: index + 1,
+    question: region.question.trim(),
+    markings: [
+      ...new Set(
+        region.annotations.map((annotation) =>
+          describeAnnotationStyle(annotation.tool, annotation.style)
+        )
+      ),
+    ],
+  }));
@@ -0,0 +1,40 @@
+export type Point = { x: number; y: number };
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+export type AnnotationTool =
+  "pen" | "highlighter" | "rectangle" | "ellipse" | "arrow";
+
+// Tools that edit existing annotations instead of drawing new ones.
+export type EditTool = "eraser" | "select";
+export type EditorTool = AnnotationTool | EditTool;
+
+export interface AnnotationStyle {
+  color: string;
+  width: number;
+}
+
+// Freehand tools keep every point; shape tools keep [start, end].
+export interface Annotation {
+  id: number;
+  tool: AnnotationTool;
+  points: Point[];
+  // Pen pressure (0-1) for each point of a pen stroke drawn with a stylus.
+  pressures?: number[];
+  style: AnnotationStyle;
+}
+
+// A group of annotations the user drew around one thing they want explained.
+// Regions are numbered by their position in the list, starting at 1.
+export interface Region {
+  id: number;
+  annotations: Annotation[];
+  question: string;
+}
+
+// What the prompt says about one region.
+export interface RegionQuestion {
+  number: number;
+  question: string;
+  // Human-readable description of each distinct marking style in the region.
+  markings: string[];
+}
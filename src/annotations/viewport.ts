@@ -0,0 +1,112 @@
+import { Point } from "./types";
+
+// Maps image (natural pixel) coordinates onto the canvas buffer:
+// canvas = image * scale + offset.
+export interface Viewport {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const IDENTITY_VIEWPORT: Viewport = { scale: 1, offsetX: 0, offsetY: 0 };
+
+// How far past fit-to-view the user may zoom in.
+export const MAX_ZOOM = 16;
+
+export const imageToCanvas = (viewport: Viewport, point: Point): Point => ({
+  x: point.x * viewport.scale + viewport.offsetX,
+  y: point.y * viewport.scale + viewport.offsetY,
+});
+
+export const canvasToImage = (viewport: Viewport, point: Point): Point => ({
+  x: (point.x - viewport.offsetX) / viewport.scale,
+  y: (point.y - viewport.offsetY) / viewport.scale,
+});
+
+// The canvas size for an image shrunk (never enlarged) to fit the max box.
+// Whole pixels, as a canvas rounds its size and would otherwise be resized
+// (and cleared) on every render.
+export const getDisplaySize = (
+  image: Size,
+  maxWidth: number,
+  maxHeight: number
+): Size => {
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height, 1);
+  return {
+    width: Math.max(1, Math.round(image.width * scale)),
+    height: Math.max(1, Math.round(image.height * scale)),
+  };
+};
+
+export const fitViewport = (image: Size, canvas: Size): Viewport => {
+  const scale = Math.min(
+    canvas.width / image.width,
+    canvas.height / image.height
+  );
+  return {
+    scale,
+    offsetX: (canvas.width - image.width * scale) / 2,
+    offsetY: (canvas.height - image.height * scale) / 2,
+  };
+};
+
+// Keeps the scale between fit-to-view and MAX_ZOOM and stops the image from
+// being dragged away from the canvas edges.
+export const clampViewport = (
+  viewport: Viewport,
+  image: Size,
+  canvas: Size
+): Viewport => {
+  const fit = fitViewport(image, canvas);
+  const scale = Math.min(
+    Math.max(viewport.scale, fit.scale),
+    fit.scale * MAX_ZOOM
+  );
+
+  const clampOffset = (
+    offset: number,
+    imageLength: number,
+    canvasLength: number
+  ) => {
+    const scaled = imageLength * scale;
+    if (scaled <= canvasLength) return (canvasLength - scaled) / 2;
+    return Math.min(0, Math.max(canvasLength - scaled, offset));
+  };
+
+  return {
+    scale,
+    offsetX: clampOffset(viewport.offsetX, image.width, canvas.width),
+    offsetY: clampOffset(viewport.offsetY, image.height, canvas.height),
+  };
+};
+
+// Zooms by `factor` while keeping the image point under `anchor` (canvas
+// coordinates) fixed on screen.
+export const zoomAt = (
+  viewport: Viewport,
+  factor: number,
+  anchor: Point
+): Viewport => {
+  const imagePoint = canvasToImage(viewport, anchor);
+  const scale = viewport.scale * factor;
+  return {
+    scale,
+    offsetX: anchor.x - imagePoint.x * scale,
+    offsetY: anchor.y - imagePoint.y * scale,
+  };
+};
+
+export const panBy = (
+  viewport: Viewport,
+  dx: number,
+  dy: number
+): Viewport => ({
+  ...viewport,
+  offsetX: viewport.offsetX + dx,
+  offsetY: viewport.offsetY + dy,
+});
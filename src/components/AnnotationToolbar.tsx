@@ -0,0 +1,150 @@
+import {
+  ANNOTATION_TOOLS,
+  AnnotationStyle,
+  COLOR_PRESETS,
+  EDIT_TOOLS,
+  EditorTool,
+} from "../annotations";
+
+interface AnnotationToolbarProps {
+  tool: EditorTool;
+  // Null for tools that don't draw (select, eraser), which hides the pickers.
+  style: AnnotationStyle | null;
+  onToolChange: (tool: EditorTool) => void;
+  onStyleChange: (style: AnnotationStyle) => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  // Only provided while an annotation is selected.
+  onDeleteSelected?: () => void;
+  disabled?: boolean;
+}
+
+const TOOL_BUTTON_CLASS =
+  "px-2 py-1 text-xs font-medium transition-colors duration-150 ease-in-out disabled:opacity-50";
+
+export const AnnotationToolbar = ({
+  tool,
+  style,
+  onToolChange,
+  onStyleChange,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onDeleteSelected,
+  disabled,
+}: AnnotationToolbarProps) => {
+  const renderToolButton = (option: EditorTool, label: string) => (
+    <button
+      key={option}
+      type="button"
+      onClick={() => onToolChange(option)}
+      disabled={disabled}
+      aria-pressed={tool === option}
+      className={`${TOOL_BUTTON_CLASS} ${
+        tool === option
+          ? "bg-sky-600 text-white"
+          : "bg-slate-600 text-slate-200 hover:bg-slate-500"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-2 mb-3"
+      role="toolbar"
+      aria-label="Annotation tools"
+    >
+      <div className="flex rounded-md overflow-hidden border border-slate-500">
+        {ANNOTATION_TOOLS.map(({ tool: option, label }) =>
+          renderToolButton(option, label)
+        )}
+      </div>
+      <div className="flex rounded-md overflow-hidden border border-slate-500">
+        {EDIT_TOOLS.map(({ tool: option, label }) =>
+          renderToolButton(option, label)
+        )}
+      </div>
+      {style && (
+        <>
+          <div className="flex items-center gap-1">
+            {COLOR_PRESETS.map(({ name, value }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => onStyleChange({ ...style, color: value })}
+                disabled={disabled}
+                aria-label={`Use ${name}`}
+                aria-pressed={style.color === value}
+                className={`w-5 h-5 rounded-full border-2 ${
+                  style.color === value ? "border-sky-300" : "border-slate-500"
+                }`}
+                style={{ backgroundColor: value }}
+              />
+            ))}
+            <input
+              type="color"
+              value={style.color}
+              onChange={(event) =>
+                onStyleChange({ ...style, color: event.target.value })
+              }
+              disabled={disabled}
+              aria-label="Custom colour"
+              className="w-6 h-6 bg-transparent cursor-pointer"
+            />
+          </div>
+          <label className="flex items-center gap-1 text-xs text-slate-300">
+            Width
+            <input
+              type="range"
+              min={1}
+              max={32}
+              value={style.width}
+              onChange={(event) =>
+                onStyleChange({ ...style, width: Number(event.target.value) })
+              }
+              disabled={disabled}
+              aria-label="Stroke width"
+              className="w-20"
+            />
+            <span className="w-5 text-right">{style.width}</span>
+          </label>
+        </>
+      )}
+      <div className="flex items-center gap-1 ml-auto">
+        {onDeleteSelected && (
+          <button
+            type="button"
+            onClick={onDeleteSelected}
+            disabled={disabled}
+            className={`${TOOL_BUTTON_CLASS} rounded-md bg-red-600 hover:bg-red-700 text-white`}
+          >
+            Delete
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={onUndo}
+          disabled={disabled || !canUndo}
+          title="Undo (Ctrl+Z)"
+          className={`${TOOL_BUTTON_CLASS} rounded-md bg-slate-600 text-slate-200 hover:bg-slate-500`}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={onRedo}
+          disabled={disabled || !canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+          className={`${TOOL_BUTTON_CLASS} rounded-md bg-slate-600 text-slate-200 hover:bg-slate-500`}
+        >
+          Redo
+        </button>
+      </div>
+    </div>
+  );
+};
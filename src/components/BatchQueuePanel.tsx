@@ -0,0 +1,171 @@
+import { Job, JobStatus } from "../../utils/jobQueue";
+
+export type BatchExportFormat = "csv" | "json";
+
+interface BatchQueuePanelProps {
+  jobs: Job<unknown, string>[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRetry: (id: string) => void;
+  onRetryFailed: () => void;
+  onCancel: () => void;
+  onExport: (format: BatchExportFormat) => void;
+  // Opens the job's image in the workspace.
+  onSelect?: (id: string) => void;
+}
+
+const CONCURRENCY_CHOICES = [1, 2, 3, 4];
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  done: "Done",
+  failed: "Failed",
+};
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  queued: "bg-slate-600 text-slate-200",
+  running: "bg-sky-700 text-sky-100",
+  done: "bg-green-700 text-green-100",
+  failed: "bg-red-700 text-red-100",
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error ?? "");
+
+export const BatchQueuePanel = ({
+  jobs,
+  concurrency,
+  onConcurrencyChange,
+  onRetry,
+  onRetryFailed,
+  onCancel,
+  onExport,
+  onSelect,
+}: BatchQueuePanelProps) => {
+  const counts = jobs.reduce(
+    (totals, { status }) => ({ ...totals, [status]: totals[status] + 1 }),
+    { queued: 0, running: 0, done: 0, failed: 0 } as Record<JobStatus, number>
+  );
+  const finished = counts.done + counts.failed;
+  const isActive = counts.queued + counts.running > 0;
+  const buttonClass =
+    "px-3 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-slate-700 p-4 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-sky-400">Batch</h2>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          At once
+          <select
+            value={concurrency}
+            onChange={(event) =>
+              onConcurrencyChange(Number(event.target.value))
+            }
+            className="bg-slate-600 border border-slate-500 rounded-md px-2 py-1 text-slate-100"
+          >
+            {CONCURRENCY_CHOICES.map((choice) => (
+              <option key={choice} value={choice}>
+                {choice}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <p className="text-sm text-slate-300" role="status">
+        {finished} of {jobs.length} finished · {counts.done} done,{" "}
+        {counts.failed} failed, {counts.running} running, {counts.queued} queued
+      </p>
+      <div
+        className="mt-2 h-2 bg-slate-600 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={jobs.length}
+        aria-valuenow={finished}
+      >
+        <div
+          className="h-full bg-sky-500 transition-all"
+          style={{
+            width: `${jobs.length ? (finished / jobs.length) * 100 : 0}%`,
+          }}
+        />
+      </div>
+      <ul className="mt-3 space-y-1 max-h-48 overflow-y-auto text-sm">
+        {jobs.map((job) => (
+          <li key={job.id} className="flex items-start gap-2">
+            <span
+              className={`flex-none px-2 rounded text-xs leading-5 ${STATUS_CLASSES[job.status]}`}
+            >
+              {STATUS_LABELS[job.status]}
+            </span>
+            <span className="flex-1 min-w-0">
+              {onSelect ? (
+                <button
+                  type="button"
+                  onClick={() => onSelect(job.id)}
+                  className="block max-w-full truncate text-left text-slate-100 hover:text-sky-300"
+                >
+                  {job.label}
+                </button>
+              ) : (
+                <span className="block truncate text-slate-100">
+                  {job.label}
+                </span>
+              )}
+              {job.status === "failed" && (
+                <span className="block text-xs text-red-300">
+                  {errorMessage(job.error)}
+                </span>
+              )}
+            </span>
+            {job.status === "failed" && (
+              <button
+                type="button"
+                onClick={() => onRetry(job.id)}
+                aria-label={`Retry ${job.label}`}
+                className={buttonClass}
+              >
+                Retry
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={onRetryFailed}
+          disabled={counts.failed === 0}
+          className={buttonClass}
+        >
+          Retry failed
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={!isActive}
+          className={buttonClass}
+        >
+          Cancel batch
+        </button>
+        <button
+          type="button"
+          onClick={() => onExport("csv")}
+          disabled={finished === 0}
+          className={buttonClass}
+        >
+          Export CSV
+        </button>
+        <button
+          type="button"
+          onClick={() => onExport("json")}
+          disabled={finished === 0}
+          className={buttonClass}
+        >
+          Export JSON
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { markdownToPlainText } from "../../utils/markdownText";
+
+interface CopyAnswerButtonsProps {
+  markdown: string;
+}
+
+type CopyFormat = "markdown" | "text";
+
+export const CopyAnswerButtons = ({ markdown }: CopyAnswerButtonsProps) => {
+  const [copied, setCopied] = useState<CopyFormat | null>(null);
+
+  const copy = async (format: CopyFormat) => {
+    try {
+      await navigator.clipboard.writeText(
+        format === "markdown" ? markdown : markdownToPlainText(markdown)
+      );
+      setCopied(format);
+    } catch (error) {
+      console.error("Could not copy the answer:", error);
+    }
+  };
+
+  const buttonClassName =
+    "px-2 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out";
+
+  return (
+    <div className="flex gap-2" onMouseLeave={() => setCopied(null)}>
+      <button
+        type="button"
+        onClick={() => copy("markdown")}
+        className={buttonClassName}
+      >
+        {copied === "markdown" ? "Copied" : "Copy as Markdown"}
+      </button>
+      <button
+        type="button"
+        onClick={() => copy("text")}
+        className={buttonClassName}
+      >
+        {copied === "text" ? "Copied" : "Copy as plain text"}
+      </button>
+    </div>
+  );
+};
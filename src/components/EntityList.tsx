@@ -0,0 +1,46 @@
+import { EntityBox } from "../../utils/geminiService";
+
+interface EntityListProps {
+  entities: EntityBox[];
+  // The entity whose box is highlighted on the image.
+  highlighted: number | null;
+  onHighlight: (index: number | null) => void;
+}
+
+// The things the answer located on the image. Hovering or focusing one
+// highlights its box, and hovering a box highlights it here.
+export const EntityList = ({
+  entities,
+  highlighted,
+  onHighlight,
+}: EntityListProps) => (
+  <div className="mt-3">
+    <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400 mb-1">
+      On the image
+    </h3>
+    <ul
+      className="flex flex-wrap gap-2"
+      aria-label="Things located on the image"
+    >
+      {entities.map(({ label }, index) => (
+        <li key={`${label}-${index}`}>
+          <button
+            type="button"
+            onMouseEnter={() => onHighlight(index)}
+            onMouseLeave={() => onHighlight(null)}
+            onFocus={() => onHighlight(index)}
+            onBlur={() => onHighlight(null)}
+            aria-pressed={index === highlighted}
+            className={`px-2 py-0.5 rounded-full border text-xs transition-colors duration-150 ease-in-out ${
+              index === highlighted
+                ? "bg-sky-400 border-sky-400 text-slate-900"
+                : "border-sky-600 text-sky-200 hover:bg-slate-600"
+            }`}
+          >
+            {label}
+          </button>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
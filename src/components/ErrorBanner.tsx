@@ -0,0 +1,103 @@
+import { VisionErrorKind, isVisionError } from "../../utils/geminiService";
+import { AlertTriangle } from "./icons";
+
+interface ErrorBannerProps {
+  // Plain strings are app-level validation messages; errors are classified.
+  error: string | Error;
+  // Shown as a Retry button when the failure is retryable.
+  onRetry?: () => void;
+  // Shown as an Open settings button when the API key is missing or rejected.
+  onOpenSettings?: () => void;
+}
+
+interface ErrorDescription {
+  title: string;
+  remedy?: string;
+}
+
+const DESCRIPTIONS: Record<VisionErrorKind, ErrorDescription> = {
+  auth: {
+    title: "API key missing or rejected",
+    remedy: "Check that your API key is set and valid in Settings.",
+  },
+  "rate-limit": {
+    title: "Rate limit or quota reached",
+    remedy: "Wait a moment and retry, or check the quota on your API plan.",
+  },
+  safety: {
+    title: "Answer blocked by safety filters",
+    remedy: "Try marking a different area or rewording your question.",
+  },
+  "empty-response": {
+    title: "The model returned no answer",
+    remedy: "Retry; if it keeps happening, try another mode or model.",
+  },
+  timeout: {
+    title: "The request timed out",
+    remedy:
+      "Retry; choosing a smaller image format in the settings can also help.",
+  },
+  network: {
+    title: "Network problem",
+    remedy:
+      "Check your connection, or that the model server is running, then retry.",
+  },
+  server: {
+    title: "The model service had a problem",
+    remedy: "This is usually temporary; retry in a moment.",
+  },
+  "bad-input": {
+    title: "The request was rejected",
+    remedy: "Check the image and settings, or try marking the area again.",
+  },
+};
+
+export const describeError = (error: string | Error): ErrorDescription => {
+  if (typeof error === "string" || !isVisionError(error)) {
+    return { title: "Error" };
+  }
+  return DESCRIPTIONS[error.kind];
+};
+
+export const ErrorBanner = ({
+  error,
+  onRetry,
+  onOpenSettings,
+}: ErrorBannerProps) => {
+  const { title, remedy } = describeError(error);
+  const message = typeof error === "string" ? error : error.message;
+  const canRetry = Boolean(onRetry) && isVisionError(error) && error.retryable;
+  const needsSettings = isVisionError(error) && error.kind === "auth";
+
+  return (
+    <div
+      className="bg-red-700/50 border border-red-500 text-red-100 px-4 py-3 rounded-lg shadow-md flex items-start"
+      role="alert"
+    >
+      <AlertTriangle className="w-5 h-5 mr-3 mt-1 text-red-300 flex-none" />
+      <div className="flex-1">
+        <strong className="font-bold">{title}:</strong>
+        <span className="block sm:inline ml-1">{message}</span>
+        {remedy && <p className="mt-1 text-sm text-red-200">{remedy}</p>}
+      </div>
+      {needsSettings && onOpenSettings && (
+        <button
+          type="button"
+          onClick={onOpenSettings}
+          className="ml-3 px-3 py-1 bg-red-600 hover:bg-red-500 text-white text-sm font-semibold rounded-md transition-colors duration-150 ease-in-out"
+        >
+          Open settings
+        </button>
+      )}
+      {canRetry && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="ml-3 px-3 py-1 bg-red-600 hover:bg-red-500 text-white text-sm font-semibold rounded-md transition-colors duration-150 ease-in-out"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
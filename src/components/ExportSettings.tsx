@@ -0,0 +1,65 @@
+import { ExportOptions } from "../annotations";
+
+export type ImageQuality = "png" | "jpeg-high" | "jpeg-compact";
+
+export const IMAGE_QUALITY_OPTIONS: Record<
+  ImageQuality,
+  { label: string; options: ExportOptions }
+> = {
+  png: { label: "PNG (lossless)", options: { format: "png" } },
+  "jpeg-high": {
+    label: "JPEG, high quality",
+    options: { format: "jpeg", quality: 0.92 },
+  },
+  "jpeg-compact": {
+    label: "JPEG, smaller upload",
+    options: { format: "jpeg", quality: 0.75 },
+  },
+};
+
+interface ExportSettingsProps {
+  quality: ImageQuality;
+  sendCloseUp: boolean;
+  onQualityChange: (quality: ImageQuality) => void;
+  onSendCloseUpChange: (sendCloseUp: boolean) => void;
+  disabled?: boolean;
+}
+
+export const ExportSettings = ({
+  quality,
+  sendCloseUp,
+  onQualityChange,
+  onSendCloseUpChange,
+  disabled,
+}: ExportSettingsProps) => {
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-slate-300">
+      <label className="flex items-center gap-2">
+        Image sent as
+        <select
+          value={quality}
+          onChange={(event) =>
+            onQualityChange(event.target.value as ImageQuality)
+          }
+          disabled={disabled}
+          className="px-2 py-1 bg-slate-600 border border-slate-500 rounded-md text-slate-100 focus:outline-none focus:border-sky-400"
+        >
+          {Object.entries(IMAGE_QUALITY_OPTIONS).map(([value, { label }]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={sendCloseUp}
+          onChange={(event) => onSendCloseUpChange(event.target.checked)}
+          disabled={disabled}
+        />
+        Also send a close-up of the marked area
+      </label>
+    </div>
+  );
+};
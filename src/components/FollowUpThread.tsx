@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { AlertTriangle } from "./icons";
+import { Markdown } from "./Markdown";
+
+export interface FollowUpMessage {
+  id: string;
+  role: "user" | "model";
+  text: string;
+  status: "pending" | "done" | "error";
+  error?: string;
+}
+
+interface FollowUpThreadProps {
+  messages: FollowUpMessage[];
+  onAsk: (question: string) => void;
+  disabled?: boolean;
+}
+
+export const FollowUpThread = ({
+  messages,
+  onAsk,
+  disabled,
+}: FollowUpThreadProps) => {
+  const [question, setQuestion] = useState("");
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || disabled) return;
+    onAsk(trimmed);
+    setQuestion("");
+  };
+
+  return (
+    <div className="mt-4 border-t border-slate-600 pt-4">
+      <h3 className="text-sm font-semibold text-slate-300 mb-2">
+        Follow-up questions
+      </h3>
+      {messages.length > 0 && (
+        <ul className="space-y-3 mb-3" aria-label="Follow-up conversation">
+          {messages.map((message) => (
+            <li
+              key={message.id}
+              className={`rounded-lg px-3 py-2 text-sm ${
+                message.role === "user"
+                  ? "bg-sky-900/50 text-sky-100 ml-8"
+                  : "bg-slate-600 text-slate-200 mr-8"
+              }`}
+            >
+              {message.role === "model" ? (
+                <Markdown>{message.text}</Markdown>
+              ) : (
+                <span className="whitespace-pre-wrap">{message.text}</span>
+              )}
+              {message.status === "pending" && (
+                <span className="block text-xs text-slate-400 animate-pulse">
+                  {message.text ? "streaming..." : "AI is thinking..."}
+                </span>
+              )}
+              {message.status === "error" && (
+                <span
+                  className="flex items-center text-xs text-red-300 mt-1"
+                  role="alert"
+                >
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {message.error ?? "Failed to get an answer."}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleSubmit} className="flex space-x-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(event) => setQuestion(event.target.value)}
+          placeholder='e.g. "Explain it simpler"'
+          aria-label="Follow-up question"
+          disabled={disabled}
+          className="flex-1 px-3 py-2 bg-slate-600 border border-slate-500 rounded-md text-sm text-slate-100 placeholder-slate-400 focus:outline-none focus:border-sky-400 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !question.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { GalleryItem, isGalleryItemReady } from "../gallery";
+
+interface ImageGalleryProps {
+  items: GalleryItem<unknown>[];
+  activeId: string | null;
+  // Images that already have an answer, marked with a dot.
+  answeredIds?: string[];
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+  disabled?: boolean;
+}
+
+export const ImageGallery = ({
+  items,
+  activeId,
+  answeredIds = [],
+  onSelect,
+  onRemove,
+  disabled,
+}: ImageGalleryProps) => (
+  <ol className="flex gap-2 overflow-x-auto pb-1 mb-3" aria-label="Images">
+    {items.map((item) => {
+      const isActive = item.id === activeId;
+      const isReady = isGalleryItemReady(item);
+      return (
+        <li key={item.id} className="relative flex-none">
+          <button
+            type="button"
+            onClick={() => onSelect(item.id)}
+            disabled={disabled || !isReady}
+            aria-label={item.name}
+            aria-current={isActive ? "true" : undefined}
+            title={item.name}
+            className={`block w-20 h-16 rounded border-2 overflow-hidden bg-slate-600 disabled:cursor-not-allowed ${
+              isActive ? "border-sky-400" : "border-transparent"
+            }`}
+          >
+            {item.thumbnailUrl ? (
+              <img
+                src={item.thumbnailUrl}
+                alt=""
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <span className="block text-xs text-slate-400 px-1 truncate">
+                {isReady ? item.name : "Preparing..."}
+              </span>
+            )}
+            {answeredIds.includes(item.id) && (
+              <span
+                className="absolute bottom-1 left-1 w-2 h-2 rounded-full bg-green-400"
+                title="Has an answer"
+              />
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={() => onRemove(item.id)}
+            disabled={disabled}
+            aria-label={`Remove ${item.name}`}
+            className="absolute top-0 right-0 w-5 h-5 leading-5 text-xs bg-slate-900/80 text-slate-200 hover:text-red-300 rounded-bl disabled:opacity-50"
+          >
+            ×
+          </button>
+        </li>
+      );
+    })}
+  </ol>
+);
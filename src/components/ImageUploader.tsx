@@ -1,36 +1,100 @@
-import { useRef, useState, useCallback } from "react";
+import { useRef, useState, useCallback, useEffect } from "react";
 import { UploadCloud } from "./icons";
+import { isSessionFile, SESSION_FILE_EXTENSION } from "../sessions";
+import { isImageFile, validateImageFile } from "../images";
+import { pastedImageName } from "../gallery";
+import { isPdfFile } from "../pdf";
 
 interface ImageUploaderProps {
+  // Called once per image; several images can arrive from one drop or paste.
   onImageUpload: (file: File) => void;
+  // When set, exported session files are accepted alongside images.
+  onSessionFile?: (file: File) => void;
+  // When set, PDFs are accepted and opened page by page.
+  onPdfFile?: (file: File) => void;
   disabled?: boolean;
+  // Problems found after upload, e.g. an image that could not be decoded.
+  error?: string | null;
+  // Neutral status such as "Preparing image..." or what preprocessing changed.
+  notice?: string | null;
 }
 
 export const ImageUploader = ({
   onImageUpload,
+  onSessionFile,
+  onPdfFile,
   disabled,
+  error,
+  notice,
 }: ImageUploaderProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
 
-  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (file.type.startsWith("image/")) {
-        onImageUpload(file);
-        setFileName(file.name);
-      } else {
-        alert("Please select a valid image file (e.g., PNG, JPG, GIF).");
+  // Session files and PDFs are opened on their own; any number of images
+  // can be added at once.
+  const acceptFiles = useCallback(
+    (files: File[]) => {
+      const [first] = files;
+      if (!first) return;
+      if (onSessionFile && isSessionFile(first)) {
+        setValidationError(null);
+        setFileName(first.name);
+        onSessionFile(first);
+        return;
+      }
+      if (onPdfFile && isPdfFile(first)) {
+        setValidationError(null);
+        setFileName(first.name);
+        onPdfFile(first);
+        return;
+      }
+      const problems = new Set<string>();
+      const images = files.filter((file) => {
+        const invalid = validateImageFile(file);
+        if (invalid) problems.add(invalid);
+        return !invalid;
+      });
+      setValidationError(problems.size > 0 ? [...problems].join(" ") : null);
+      if (images.length === 0) {
         setFileName(null);
         if (fileInputRef.current) {
           fileInputRef.current.value = ""; // Reset file input
         }
+        return;
       }
-    }
-  };
+      setFileName(
+        images.length === 1 ? images[0].name : `${images.length} images`
+      );
+      images.forEach((file) => onImageUpload(file));
+    },
+    [onImageUpload, onSessionFile, onPdfFile]
+  );
+
+  // Ctrl+V anywhere on the page adds clipboard images; text pastes into
+  // inputs are left alone.
+  useEffect(() => {
+    if (disabled) return;
+    const handlePaste = (event: ClipboardEvent) => {
+      const images = Array.from(event.clipboardData?.files ?? []).filter(
+        isImageFile
+      );
+      if (images.length === 0) return;
+      event.preventDefault();
+      acceptFiles(
+        images.map((file) =>
+          /^image\.\w+$/.test(file.name) || !file.name
+            ? new File([file], pastedImageName(file.type), { type: file.type })
+            : file
+        )
+      );
+    };
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+  }, [acceptFiles, disabled]);
 
-  const handleButtonClick = () => {
-    fileInputRef.current?.click();
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    acceptFiles(Array.from(event.target.files ?? []));
   };
 
   const handleDragOver = useCallback(
@@ -47,18 +111,9 @@ export const ImageUploader = ({
       event.stopPropagation();
       if (disabled) return;
 
-      const file = event.dataTransfer.files?.[0];
-      if (file) {
-        if (file.type.startsWith("image/")) {
-          onImageUpload(file);
-          setFileName(file.name);
-        } else {
-          alert("Please select a valid image file (e.g., PNG, JPG, GIF).");
-          setFileName(null);
-        }
-      }
+      acceptFiles(Array.from(event.dataTransfer.files ?? []));
     },
-    [onImageUpload, disabled]
+    [acceptFiles, disabled]
   );
 
   return (
@@ -84,6 +139,13 @@ export const ImageUploader = ({
         {!fileName && (
           <span className="mt-1 text-xs text-slate-400">
             Supports PNG, JPG, GIF
+            {onPdfFile && ", PDF"}
+            {onSessionFile && ` and ${SESSION_FILE_EXTENSION} sessions`}
+          </span>
+        )}
+        {!fileName && (
+          <span className="text-xs text-slate-400">
+            Drop several images at once, or paste a screenshot with Ctrl+V
           </span>
         )}
       </label>
@@ -91,15 +153,33 @@ export const ImageUploader = ({
         id="image-upload-input"
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        multiple
+        accept={[
+          "image/*",
+          ...(onPdfFile ? ["application/pdf", ".pdf"] : []),
+          ...(onSessionFile
+            ? [SESSION_FILE_EXTENSION, "application/json"]
+            : []),
+        ].join(",")}
         onChange={handleFileChange}
         className="sr-only"
         disabled={disabled}
       />
+      {(validationError ?? error) && (
+        <p className="mt-2 text-sm text-red-300" role="alert">
+          {validationError ?? error}
+        </p>
+      )}
+      {!(validationError ?? error) && notice && (
+        <p className="mt-2 text-sm text-slate-400" role="status">
+          {notice}
+        </p>
+      )}
       {fileName && (
         <button
           onClick={() => {
             setFileName(null);
+            setValidationError(null);
             if (fileInputRef.current) fileInputRef.current.value = "";
             // Potentially call a prop to clear the image in App.tsx if needed
           }}
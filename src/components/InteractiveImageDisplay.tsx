@@ -5,22 +5,138 @@ import {
   useImperativeHandle,
   forwardRef,
 } from "react";
+import {
+  addAnnotationToRegions,
+  Annotation,
+  AnnotationHistory,
+  AnnotationStyle,
+  AnnotationTool,
+  canvasToImage,
+  clampViewport,
+  commitSince,
+  createLayeredRenderer,
+  CropOptions,
+  createHistory,
+  DEFAULT_TOOL_STYLES,
+  EditorTool,
+  exportAnnotatedImage,
+  exportMarkedCrop,
+  ExportOptions,
+  findAnnotation,
+  findAnnotationAt,
+  fitViewport,
+  FREEHAND_TOOLS,
+  getDisplaySize,
+  getRegionQuestions,
+  HIT_TOLERANCE,
+  isAnnotationTool,
+  isCommittable,
+  LayeredRenderer,
+  panBy,
+  Point,
+  pushHistory,
+  redo,
+  Region,
+  REGION_JOIN_DISTANCE,
+  RegionQuestion,
+  removeAnnotation,
+  replacePresent,
+  SIMPLIFY_TOLERANCE,
+  simplifyAnnotation,
+  stabilizePoint,
+  translateAnnotation,
+  undo,
+  Viewport,
+  zoomAt,
+} from "../annotations";
+import { EntityBox, findEntityBoxAt } from "../../utils/entityBoxes";
+import { AnnotationToolbar } from "./AnnotationToolbar";
+import { ZoomControls } from "./ZoomControls";
 
-type Point = { x: number; y: number };
-type Path = Point[];
+export type { RegionQuestion } from "../annotations";
 
 interface InteractiveImageDisplayProps {
   imageFile: File | null;
+  // Annotations to show once imageFile has loaded, e.g. from a saved session.
+  // New regions for the same file replace the current ones.
+  initialRegions?: Region[];
   onSelectionChange: (selectionExists: boolean) => void;
+  // Boxes from the answer for what it mentions, shown as a toggleable
+  // overlay. Hovering one reports its index; `highlightedBox` is the one
+  // to emphasise, e.g. while its term is hovered in the answer.
+  entityBoxes?: EntityBox[];
+  highlightedBox?: number | null;
+  onHighlightBox?: (index: number | null) => void;
   maxDisplayWidth?: number;
   maxDisplayHeight?: number;
 }
 
 export interface InteractiveImageDisplayRef {
-  getAnnotatedImageDataUrl: () => string | null;
+  getAnnotatedImageDataUrl: (options?: ExportOptions) => string | null;
+  getMarkedAreaDataUrl: (options?: CropOptions) => string | null;
+  getRegionQuestions: () => RegionQuestion[];
+  getRegions: () => Region[];
   clearSelection: () => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  resetZoom: () => void;
+}
+
+// An in-progress move of a selected annotation, recorded as one undo step.
+interface MoveDrag {
+  annotationId: number;
+  last: Point;
+  before: Region[];
+}
+
+interface Pinch {
+  distance: number;
+  midpoint: Point;
+  viewport: Viewport;
+}
+
+// The pointer currently drawing, dragging or panning.
+interface ActivePointer {
+  id: number;
+  type: string;
 }
 
+type CanvasPointerEvent = React.PointerEvent<HTMLCanvasElement>;
+
+const ZOOM_STEP = 1.25;
+// Touch input is ignored for this long after the last pen event.
+const PALM_REJECTION_MS = 500;
+// Freehand samples closer than this (in screen pixels) to the last kept
+// point are dropped while drawing.
+const MIN_POINT_SPACING = 0.5;
+
+const isTextInput = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.isContentEditable);
+
+// Maps a client (CSS pixel) position to canvas buffer coordinates.
+const toCanvasPoint = (
+  canvas: HTMLCanvasElement,
+  clientX: number,
+  clientY: number
+): Point => {
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: ((clientX - rect.left) / rect.width) * canvas.width,
+    y: ((clientY - rect.top) / rect.height) * canvas.height,
+  };
+};
+
+const getPinch = (a: Point, b: Point, viewport: Viewport): Pinch => ({
+  distance: Math.hypot(b.x - a.x, b.y - a.y),
+  midpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+  viewport,
+});
+
 export const InteractiveImageDisplay = forwardRef<
   InteractiveImageDisplayRef,
   InteractiveImageDisplayProps
@@ -28,53 +144,140 @@ export const InteractiveImageDisplay = forwardRef<
   (
     {
       imageFile,
+      initialRegions,
       onSelectionChange,
       maxDisplayWidth = 800,
       maxDisplayHeight = 600,
+      entityBoxes,
+      highlightedBox = null,
+      onHighlightBox,
     },
     ref
   ) => {
+    const containerRef = useRef<HTMLDivElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [image, setImage] = useState<HTMLImageElement | null>(null);
-    const [drawingPaths, setDrawingPaths] = useState<Path[]>([]);
+    const [history, setHistory] = useState<AnnotationHistory>(createHistory);
     const [isDrawing, setIsDrawing] = useState(false);
-    const [currentPath, setCurrentPath] = useState<Path>([]);
+    const [tool, setTool] = useState<EditorTool>("pen");
+    const [toolStyles, setToolStyles] =
+      useState<Record<AnnotationTool, AnnotationStyle>>(DEFAULT_TOOL_STYLES);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    // Null means fit-to-view.
+    const [zoomedViewport, setZoomedViewport] = useState<Viewport | null>(null);
+    const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+    const [showBoxes, setShowBoxes] = useState(true);
+    const nextRegionIdRef = useRef(0);
+    const nextAnnotationIdRef = useRef(0);
+    const moveDragRef = useRef<MoveDrag | null>(null);
+    const panDragRef = useRef<Point | null>(null);
+    const pinchRef = useRef<Pinch | null>(null);
+    // Canvas positions of the fingers currently down, for pinch zoom.
+    const touchPointsRef = useRef(new Map<number, Point>());
+    const activePointerRef = useRef<ActivePointer | null>(null);
+    const lastPenTimeRef = useRef(-Infinity);
+    // The stroke being drawn; freehand points are appended in place and it
+    // reaches the canvas through the renderer, not React state.
+    const strokeRef = useRef<Annotation | null>(null);
+    const rendererRef = useRef<LayeredRenderer | null>(null);
+    const hoveredBoxRef = useRef<number | null>(null);
+
+    const regions = history.present;
+    const selectedAnnotation =
+      selectedId === null ? null : findAnnotation(regions, selectedId);
+
+    const imageSize = image
+      ? { width: image.naturalWidth, height: image.naturalHeight }
+      : null;
+    const displaySize = imageSize
+      ? getDisplaySize(imageSize, maxDisplayWidth, maxDisplayHeight)
+      : null;
+    const fit =
+      imageSize && displaySize ? fitViewport(imageSize, displaySize) : null;
+    const viewport = zoomedViewport ?? fit;
+    const visibleBoxes =
+      showBoxes && entityBoxes && entityBoxes.length > 0
+        ? entityBoxes
+        : undefined;
+
+    const resetAnnotations = (nextRegions: Region[] = []) => {
+      const annotations = nextRegions.flatMap((region) => region.annotations);
+      nextRegionIdRef.current =
+        Math.max(-1, ...nextRegions.map((region) => region.id)) + 1;
+      nextAnnotationIdRef.current =
+        Math.max(-1, ...annotations.map((annotation) => annotation.id)) + 1;
+      setHistory(createHistory(nextRegions));
+      rendererRef.current?.setLiveStroke(null);
+      setIsDrawing(false);
+      setSelectedId(null);
+      moveDragRef.current = null;
+      strokeRef.current = null;
+      activePointerRef.current = null;
+    };
+
+    const updateViewport = (next: Viewport) => {
+      if (!imageSize || !displaySize) return;
+      setZoomedViewport(clampViewport(next, imageSize, displaySize));
+    };
+
+    const zoomAroundCenter = (factor: number) => {
+      if (!viewport || !displaySize) return;
+      updateViewport(
+        zoomAt(viewport, factor, {
+          x: displaySize.width / 2,
+          y: displaySize.height / 2,
+        })
+      );
+    };
+
+    useEffect(() => {
+      onSelectionChange(regions.length > 0);
+    }, [regions, onSelectionChange]);
 
     useEffect(() => {
+      setZoomedViewport(null);
       if (imageFile) {
         const reader = new FileReader();
         reader.onload = (e) => {
           const img = new Image();
           img.onload = () => {
             setImage(img);
-            setDrawingPaths([]);
-            onSelectionChange(false);
+            resetAnnotations(initialRegions);
           };
           img.onerror = () => {
             console.error("Error loading image source.");
             setImage(null);
-            setDrawingPaths([]);
-            onSelectionChange(false);
+            resetAnnotations();
           };
           img.src = e.target?.result as string;
         };
         reader.readAsDataURL(imageFile);
       } else {
         setImage(null);
-        setDrawingPaths([]);
-        onSelectionChange(false);
+        resetAnnotations();
       }
-    }, [imageFile, onSelectionChange]);
+    }, [imageFile, initialRegions]);
 
-    // Draw image and paths
     useEffect(() => {
-      const canvas = canvasRef.current;
-      if (!canvas) return;
+      const renderer = createLayeredRenderer(canvasRef.current!);
+      rendererRef.current = renderer;
+      return () => {
+        renderer.destroy();
+        rendererRef.current = null;
+      };
+    }, []);
 
-      const ctx = canvas.getContext("2d");
-      if (!ctx) return;
+    // Draw image and annotations. The renderer only redraws the layers
+    // whose inputs changed, on the next animation frame.
+    useEffect(() => {
+      const canvas = canvasRef.current;
+      const renderer = rendererRef.current;
+      if (!canvas || !renderer) return;
 
-      if (!image) {
+      if (!image || !displaySize || !viewport) {
+        renderer.setScene(null);
+        const ctx = canvas.getContext("2d");
+        if (!ctx) return;
         const placeholderWidth = maxDisplayWidth;
         const placeholderHeight = Math.max(200, maxDisplayHeight);
 
@@ -94,146 +297,515 @@ export const InteractiveImageDisplay = forwardRef<
         return;
       }
 
-      const scaleX = maxDisplayWidth / image.naturalWidth;
-      const scaleY = maxDisplayHeight / image.naturalHeight;
-      const scale = Math.min(scaleX, scaleY, 1);
-
-      const displayWidth = image.naturalWidth * scale;
-      const displayHeight = image.naturalHeight * scale;
-
       // Set canvas dimensions IF THEY NEED TO CHANGE. Assigning to .width/.height clears the canvas.
-      if (canvas.width !== displayWidth || canvas.height !== displayHeight) {
-        canvas.width = displayWidth;
-        canvas.height = displayHeight;
-      } else {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
+      if (
+        canvas.width !== displaySize.width ||
+        canvas.height !== displaySize.height
+      ) {
+        canvas.width = displaySize.width;
+        canvas.height = displaySize.height;
       }
 
-      // Draw image
-      ctx.drawImage(image, 0, 0, displayWidth, displayHeight);
-
-      // Draw all committed paths
-      ctx.strokeStyle = "rgba(239, 68, 68, 0.9)"; // Tailwind red-500 with good opacity
-      ctx.lineWidth = 3; // Thickness for underlining/marking
-      ctx.lineCap = "round";
-      ctx.lineJoin = "round";
-
-      drawingPaths.forEach((path) => {
-        if (path.length < 2) return;
-        ctx.beginPath();
-        ctx.moveTo(path[0].x, path[0].y);
-        for (let i = 1; i < path.length; i++) {
-          ctx.lineTo(path[i].x, path[i].y);
-        }
-        ctx.stroke();
+      renderer.setScene({
+        image,
+        regions,
+        viewport,
+        selectedAnnotation,
+        boxes: visibleBoxes,
+        highlightedBox,
+        imageSize: imageSize!,
       });
-
-      // Draw current path being drawn
-      if (isDrawing && currentPath.length > 1) {
-        ctx.beginPath();
-        ctx.moveTo(currentPath[0].x, currentPath[0].y);
-        for (let i = 1; i < currentPath.length; i++) {
-          ctx.lineTo(currentPath[i].x, currentPath[i].y);
-        }
-        ctx.stroke();
-      }
     }, [
       image,
-      drawingPaths,
-      currentPath,
-      isDrawing,
+      regions,
+      selectedAnnotation,
+      zoomedViewport,
+      visibleBoxes,
+      highlightedBox,
       maxDisplayWidth,
       maxDisplayHeight,
     ]);
 
-    const getMousePos = (
-      canvas: HTMLCanvasElement,
-      evt: MouseEvent | TouchEvent
-    ): Point => {
-      const rect = canvas.getBoundingClientRect();
-      const clientX = "touches" in evt ? evt.touches[0].clientX : evt.clientX;
-      const clientY = "touches" in evt ? evt.touches[0].clientY : evt.clientY;
-      // Map from CSS/display coordinates to canvas buffer coordinates
-      const x = ((clientX - rect.left) / rect.width) * canvas.width;
-      const y = ((clientY - rect.top) / rect.height) * canvas.height;
-      return { x, y };
+    // Wheel zoom needs a non-passive listener so the page doesn't scroll.
+    useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas || !viewport) return;
+
+      const handleWheel = (event: WheelEvent) => {
+        event.preventDefault();
+        const anchor = toCanvasPoint(canvas, event.clientX, event.clientY);
+        const factor = Math.exp(-event.deltaY * 0.0015);
+        updateViewport(zoomAt(viewport, factor, anchor));
+      };
+
+      canvas.addEventListener("wheel", handleWheel, { passive: false });
+      return () => canvas.removeEventListener("wheel", handleWheel);
+    });
+
+    const handleUndo = () => {
+      setSelectedId(null);
+      setHistory(undo);
     };
 
-    const handleInteractionStart = (
-      event:
-        | React.MouseEvent<HTMLCanvasElement>
-        | React.TouchEvent<HTMLCanvasElement>
-    ) => {
-      if (
-        !image ||
-        (event.nativeEvent instanceof MouseEvent &&
-          event.nativeEvent.button !== 0)
-      )
-        return;
+    const handleRedo = () => {
+      setSelectedId(null);
+      setHistory(redo);
+    };
+
+    const handleDeleteSelected = () => {
+      if (selectedId === null) return;
+      setHistory((prev) =>
+        pushHistory(prev, removeAnnotation(prev.present, selectedId))
+      );
+      setSelectedId(null);
+    };
+
+    // Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo,
+    // Delete/Backspace removes the selected annotation, Space held pans.
+    useEffect(() => {
+      if (!image) return;
+
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (isTextInput(event.target)) return;
+        const key = event.key.toLowerCase();
+        const modifier = event.ctrlKey || event.metaKey;
+
+        if (modifier && key === "z") {
+          event.preventDefault();
+          if (event.shiftKey) handleRedo();
+          else handleUndo();
+        } else if (modifier && key === "y") {
+          event.preventDefault();
+          handleRedo();
+        } else if (
+          (key === "delete" || key === "backspace") &&
+          selectedId !== null
+        ) {
+          event.preventDefault();
+          handleDeleteSelected();
+        } else if (
+          key === " " &&
+          // Elsewhere Space belongs to the focused control, e.g. a checkbox
+          (event.target === document.body ||
+            event.target === containerRef.current ||
+            event.target === canvasRef.current)
+        ) {
+          event.preventDefault();
+          setIsSpaceHeld(true);
+        }
+      };
+
+      const handleKeyUp = (event: KeyboardEvent) => {
+        if (event.key === " ") setIsSpaceHeld(false);
+      };
+
+      window.addEventListener("keydown", handleKeyDown);
+      window.addEventListener("keyup", handleKeyUp);
+      return () => {
+        window.removeEventListener("keydown", handleKeyDown);
+        window.removeEventListener("keyup", handleKeyUp);
+      };
+    });
+
+    const eraseAt = (pos: Point, scale: number) => {
+      setHistory((prev) => {
+        const hit = findAnnotationAt(prev.present, pos, HIT_TOLERANCE / scale);
+        return hit
+          ? pushHistory(prev, removeAnnotation(prev.present, hit.id))
+          : prev;
+      });
+    };
+
+    // A palm resting on the screen while writing with a stylus arrives as
+    // touch input; ignore touch while a pen is down or was just used.
+    const isPalm = (event: CanvasPointerEvent) =>
+      event.pointerType === "touch" &&
+      (activePointerRef.current?.type === "pen" ||
+        event.timeStamp - lastPenTimeRef.current < PALM_REJECTION_MS);
+
+    // Drops whatever the active pointer was doing without committing it.
+    const cancelActivePointer = () => {
+      activePointerRef.current = null;
+      panDragRef.current = null;
+      moveDragRef.current = null;
+      strokeRef.current = null;
+      setIsDrawing(false);
+      rendererRef.current?.setLiveStroke(null);
+    };
+
+    const handlePointerDown = (event: CanvasPointerEvent) => {
+      if (!image || !viewport) return;
+      if (event.pointerType === "pen") {
+        lastPenTimeRef.current = event.timeStamp;
+        // A palm that landed before the pen may have started a stroke
+        if (activePointerRef.current?.type === "touch") cancelActivePointer();
+        touchPointsRef.current.clear();
+        pinchRef.current = null;
+      }
+      if (isPalm(event) || (event.button !== 0 && event.button !== 1)) return;
       event.preventDefault();
 
-      const pos = getMousePos(canvasRef.current!, event.nativeEvent);
+      const canvas = canvasRef.current!;
+      const canvasPos = toCanvasPoint(canvas, event.clientX, event.clientY);
+
+      if (event.pointerType === "touch") {
+        const touches = touchPointsRef.current;
+        touches.set(event.pointerId, canvasPos);
+        // Two fingers pinch-zoom; any stroke started by the first finger is dropped
+        if (touches.size >= 2) {
+          cancelActivePointer();
+          const [a, b] = touches.values();
+          pinchRef.current = getPinch(a, b, viewport);
+          return;
+        }
+      }
+      // One stroke at a time; extra pointers are ignored until it ends
+      if (pinchRef.current || activePointerRef.current) return;
+
+      canvas.setPointerCapture(event.pointerId);
+      activePointerRef.current = {
+        id: event.pointerId,
+        type: event.pointerType,
+      };
+
+      // Space+drag or middle-button drag pans
+      if (isSpaceHeld || event.button === 1) {
+        panDragRef.current = canvasPos;
+        return;
+      }
+
+      const pos = canvasToImage(viewport, canvasPos);
       setIsDrawing(true);
-      setCurrentPath([pos]);
+
+      if (tool === "eraser") {
+        eraseAt(pos, viewport.scale);
+        return;
+      }
+      if (tool === "select") {
+        const hit = findAnnotationAt(
+          regions,
+          pos,
+          HIT_TOLERANCE / viewport.scale
+        );
+        setSelectedId(hit?.id ?? null);
+        moveDragRef.current = hit
+          ? { annotationId: hit.id, last: pos, before: regions }
+          : null;
+        return;
+      }
+
+      if (!isAnnotationTool(tool)) return;
+      setSelectedId(null);
+      const style = toolStyles[tool];
+      const stroke: Annotation = {
+        id: nextAnnotationIdRef.current++,
+        tool,
+        points: FREEHAND_TOOLS.includes(tool) ? [pos] : [pos, pos],
+        // Only the pen varies its width; highlighters stay flat
+        ...(tool === "pen" &&
+          event.pointerType === "pen" && { pressures: [event.pressure] }),
+        // Widths are picked on screen but stored in image pixels
+        style: { ...style, width: style.width / viewport.scale },
+      };
+      strokeRef.current = stroke;
+      rendererRef.current?.setLiveStroke(stroke);
     };
 
-    const handleInteractionMove = (
-      event:
-        | React.MouseEvent<HTMLCanvasElement>
-        | React.TouchEvent<HTMLCanvasElement>
+    // Appends pointer samples to the freehand stroke in place, skipping
+    // ones that barely moved, so long strokes don't copy every point on
+    // every event.
+    const extendStroke = (
+      stroke: Annotation,
+      samples: PointerEvent[],
+      stabilize: boolean
     ) => {
-      if (!isDrawing || !image) return;
+      const canvas = canvasRef.current!;
+      const scale = viewport!.scale;
+      samples.forEach((sample) => {
+        const raw = canvasToImage(
+          viewport!,
+          toCanvasPoint(canvas, sample.clientX, sample.clientY)
+        );
+        const last = stroke.points[stroke.points.length - 1];
+        const pos = stabilize ? stabilizePoint(last, raw) : raw;
+        if (
+          Math.hypot(pos.x - last.x, pos.y - last.y) * scale <
+          MIN_POINT_SPACING
+        ) {
+          return;
+        }
+        stroke.points.push(pos);
+        stroke.pressures?.push(
+          sample.pressure || stroke.pressures[stroke.pressures.length - 1]
+        );
+      });
+    };
+
+    // Tells the parent which answer box is under the pointer, once per change.
+    const hoverBoxAt = (pos: Point | null) => {
+      const index =
+        pos && visibleBoxes && imageSize
+          ? findEntityBoxAt(
+              visibleBoxes,
+              pos,
+              imageSize.width,
+              imageSize.height
+            )
+          : -1;
+      const hovered = index === -1 ? null : index;
+      if (hovered === hoveredBoxRef.current) return;
+      hoveredBoxRef.current = hovered;
+      onHighlightBox?.(hovered);
+    };
+
+    const handlePointerMove = (event: CanvasPointerEvent) => {
+      if (event.pointerType === "pen") lastPenTimeRef.current = event.timeStamp;
+      if (!image || !viewport || isPalm(event)) return;
+      const canvas = canvasRef.current!;
+      const canvasPos = toCanvasPoint(canvas, event.clientX, event.clientY);
+
+      const touches = touchPointsRef.current;
+      if (touches.has(event.pointerId)) touches.set(event.pointerId, canvasPos);
+      const pinch = pinchRef.current;
+      if (pinch) {
+        event.preventDefault();
+        if (touches.size < 2) return;
+        const [a, b] = touches.values();
+        const current = getPinch(a, b, viewport);
+        const zoomed = zoomAt(
+          pinch.viewport,
+          current.distance / pinch.distance,
+          pinch.midpoint
+        );
+        updateViewport(
+          panBy(
+            zoomed,
+            current.midpoint.x - pinch.midpoint.x,
+            current.midpoint.y - pinch.midpoint.y
+          )
+        );
+        return;
+      }
+
+      if (!activePointerRef.current && event.pointerType !== "touch") {
+        hoverBoxAt(canvasToImage(viewport, canvasPos));
+      }
+      if (event.pointerId !== activePointerRef.current?.id) return;
       event.preventDefault();
 
-      const pos = getMousePos(canvasRef.current!, event.nativeEvent);
-      setCurrentPath((prevPath) => [...prevPath, pos]);
+      const panStart = panDragRef.current;
+      if (panStart) {
+        panDragRef.current = canvasPos;
+        updateViewport(
+          panBy(viewport, canvasPos.x - panStart.x, canvasPos.y - panStart.y)
+        );
+        return;
+      }
+
+      if (!isDrawing) return;
+      const pos = canvasToImage(viewport, canvasPos);
+
+      if (tool === "eraser") {
+        eraseAt(pos, viewport.scale);
+        return;
+      }
+      if (tool === "select") {
+        const drag = moveDragRef.current;
+        if (!drag) return;
+        const dx = pos.x - drag.last.x;
+        const dy = pos.y - drag.last.y;
+        drag.last = pos;
+        setHistory((prev) =>
+          replacePresent(
+            prev,
+            translateAnnotation(prev.present, drag.annotationId, dx, dy)
+          )
+        );
+        return;
+      }
+
+      const stroke = strokeRef.current;
+      if (!stroke) return;
+      if (FREEHAND_TOOLS.includes(stroke.tool)) {
+        // Coalesced events carry the samples the browser merged into this
+        // one, which keeps fast pen strokes from turning into polygons
+        const native = event.nativeEvent;
+        const coalesced = native.getCoalescedEvents?.() ?? [];
+        extendStroke(stroke, coalesced.length > 0 ? coalesced : [native], true);
+        rendererRef.current?.setLiveStroke(stroke);
+      } else {
+        // Shapes only track the drag end
+        strokeRef.current = { ...stroke, points: [stroke.points[0], pos] };
+        rendererRef.current?.setLiveStroke(strokeRef.current);
+      }
     };
 
-    const handleInteractionEnd = (
-      event:
-        | React.MouseEvent<HTMLCanvasElement>
-        | React.TouchEvent<HTMLCanvasElement>
-    ) => {
-      if (!isDrawing || !image) return;
+    const handlePointerEnd = (event: CanvasPointerEvent) => {
+      const touches = touchPointsRef.current;
+      touches.delete(event.pointerId);
+      if (pinchRef.current) {
+        // Lifting one finger of a pinch ends it; it doesn't start a stroke
+        if (touches.size === 0) pinchRef.current = null;
+        return;
+      }
+      if (event.pointerId !== activePointerRef.current?.id) return;
+      activePointerRef.current = null;
+      if (panDragRef.current) {
+        panDragRef.current = null;
+        return;
+      }
+      if (!isDrawing || !image || !viewport) return;
       event.preventDefault();
 
       setIsDrawing(false);
-      if (currentPath.length > 1) {
-        const newPaths = [...drawingPaths, currentPath];
-        setDrawingPaths(newPaths);
-        onSelectionChange(newPaths.length > 0);
+
+      const drag = moveDragRef.current;
+      if (drag) {
+        moveDragRef.current = null;
+        setHistory((prev) => commitSince(prev, drag.before));
+        return;
+      }
+
+      const stroke = strokeRef.current;
+      strokeRef.current = null;
+      if (stroke && FREEHAND_TOOLS.includes(stroke.tool)) {
+        // The stabiliser trails the pointer; finish where it was lifted
+        extendStroke(stroke, [event.nativeEvent], false);
+      }
+      if (stroke && isCommittable(stroke)) {
+        const simplified = simplifyAnnotation(
+          stroke,
+          SIMPLIFY_TOLERANCE / viewport.scale
+        );
+        setHistory((prev) =>
+          pushHistory(
+            prev,
+            addAnnotationToRegions(
+              prev.present,
+              simplified,
+              nextRegionIdRef.current++,
+              REGION_JOIN_DISTANCE / viewport.scale
+            )
+          )
+        );
       }
-      setCurrentPath([]);
+      rendererRef.current?.setLiveStroke(null);
     };
 
     useImperativeHandle(ref, () => ({
-      getAnnotatedImageDataUrl: () => {
-        const canvas = canvasRef.current;
-        if (!canvas || !image) return null;
-        return canvas.toDataURL("image/png");
-      },
-      clearSelection: () => {
-        setDrawingPaths([]);
-        setCurrentPath([]);
-        setIsDrawing(false);
-        onSelectionChange(false);
-      },
+      // Exports re-render at the image's natural resolution, whatever the
+      // current zoom, rather than copying the display canvas.
+      getAnnotatedImageDataUrl: (options) =>
+        image ? exportAnnotatedImage(image, regions, options) : null,
+      getMarkedAreaDataUrl: (options) =>
+        image ? exportMarkedCrop(image, regions, options) : null,
+      getRegionQuestions: () => getRegionQuestions(regions),
+      getRegions: () => regions,
+      clearSelection: () => resetAnnotations(),
+      undo: handleUndo,
+      redo: handleRedo,
+      canUndo: () => history.past.length > 0,
+      canRedo: () => history.future.length > 0,
+      resetZoom: () => setZoomedViewport(null),
     }));
 
+    const handleQuestionChange = (id: number, question: string) => {
+      setHistory((prev) =>
+        replacePresent(
+          prev,
+          prev.present.map((region) =>
+            region.id === id ? { ...region, question } : region
+          )
+        )
+      );
+    };
+
+    const handleToolChange = (nextTool: EditorTool) => {
+      setTool(nextTool);
+      if (nextTool !== "select") setSelectedId(null);
+    };
+
+    const cursorClass = isSpaceHeld
+      ? "cursor-grab"
+      : tool === "select"
+        ? "cursor-move"
+        : tool === "eraser"
+          ? "cursor-cell"
+          : "cursor-crosshair";
+
     return (
-      <canvas
-        ref={canvasRef}
-        onMouseDown={handleInteractionStart}
-        onMouseMove={handleInteractionMove}
-        onMouseUp={handleInteractionEnd}
-        onMouseLeave={handleInteractionEnd}
-        onTouchStart={handleInteractionStart}
-        onTouchMove={handleInteractionMove}
-        onTouchEnd={handleInteractionEnd}
-        className="border-2 border-slate-500 rounded-md cursor-crosshair touch-none select-none"
-        style={{ maxWidth: "100%", display: "block" }}
-        aria-label="Interactive image canvas for drawing markings"
-      />
+      <div ref={containerRef}>
+        {image && (
+          <AnnotationToolbar
+            tool={tool}
+            style={isAnnotationTool(tool) ? toolStyles[tool] : null}
+            onToolChange={handleToolChange}
+            onStyleChange={(style) =>
+              setToolStyles((prev) => ({ ...prev, [tool]: style }))
+            }
+            canUndo={history.past.length > 0}
+            canRedo={history.future.length > 0}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onDeleteSelected={
+              selectedId !== null ? handleDeleteSelected : undefined
+            }
+          />
+        )}
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerEnd}
+          onPointerCancel={handlePointerEnd}
+          onPointerLeave={() => hoverBoxAt(null)}
+          className={`border-2 border-slate-500 rounded-md ${cursorClass} touch-none select-none`}
+          style={{ maxWidth: "100%", display: "block" }}
+          aria-label="Interactive image canvas for drawing markings"
+        />
+        {viewport && fit && (
+          <ZoomControls
+            zoom={viewport.scale / fit.scale}
+            onZoomIn={() => zoomAroundCenter(ZOOM_STEP)}
+            onZoomOut={() => zoomAroundCenter(1 / ZOOM_STEP)}
+            onFit={() => setZoomedViewport(null)}
+          />
+        )}
+        {entityBoxes && entityBoxes.length > 0 && (
+          <label className="mt-2 flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={showBoxes}
+              onChange={(event) => {
+                setShowBoxes(event.target.checked);
+                hoverBoxAt(null);
+              }}
+            />
+            Show what the answer points out ({entityBoxes.length})
+          </label>
+        )}
+        {regions.length > 0 && (
+          <ol className="mt-3 space-y-2" aria-label="Marked regions">
+            {regions.map((region, index) => (
+              <li key={region.id} className="flex items-center space-x-2">
+                <span className="flex-none flex items-center justify-center w-6 h-6 rounded-full bg-red-500 text-white text-xs font-bold">
+                  {index + 1}
+                </span>
+                <input
+                  type="text"
+                  value={region.question}
+                  onChange={(event) =>
+                    handleQuestionChange(region.id, event.target.value)
+                  }
+                  placeholder='Optional question, e.g. "translate this"'
+                  aria-label={`Question for region ${index + 1}`}
+                  className="flex-1 px-2 py-1 bg-slate-600 border border-slate-500 rounded-md text-sm text-slate-100 placeholder-slate-400 focus:outline-none focus:border-sky-400"
+                />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
     );
   }
 );
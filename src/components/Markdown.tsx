@@ -0,0 +1,113 @@
+import ReactMarkdown, { Components } from "react-markdown";
+import rehypeHighlight from "rehype-highlight";
+import rehypeKatex from "rehype-katex";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+
+interface MarkdownProps {
+  children: string;
+  className?: string;
+}
+
+// A fenced code block (still open while the answer streams) or an inline
+// code span.
+const CODE =
+  /^ {0,3}(`{3,}|~{3,})[\s\S]*?(?:\n {0,3}\1[`~]*[ \t]*$|(?![\s\S]))|(`+)(?!`)[\s\S]*?[^`]\2(?!`)/gm;
+
+const convertMath = (text: string): string =>
+  text
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => `\n$$\n${math.trim()}\n$$\n`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => `$$${math.trim()}$$`);
+
+// Models often write LaTeX with \( \) and \[ \] delimiters; remark-math only
+// understands dollar signs. Single dollars are left as text so prices like
+// "$5 or $10" are not read as math, and code is left alone so a regex like
+// `\(\d+\)` keeps its backslashes.
+export const normalizeMathDelimiters = (markdown: string): string => {
+  let normalized = "";
+  let end = 0;
+  for (const match of markdown.matchAll(CODE)) {
+    const start = match.index!;
+    normalized += convertMath(markdown.slice(end, start)) + match[0];
+    end = start + match[0].length;
+  }
+  return normalized + convertMath(markdown.slice(end));
+};
+
+// Tailwind is loaded without the typography plugin, so every element is
+// styled here rather than through `prose`.
+const COMPONENTS: Components = {
+  h1: ({ node: _node, ...props }) => (
+    <h3 className="text-lg font-bold text-sky-300 mt-4 mb-2" {...props} />
+  ),
+  h2: ({ node: _node, ...props }) => (
+    <h3 className="text-lg font-bold text-sky-300 mt-4 mb-2" {...props} />
+  ),
+  h3: ({ node: _node, ...props }) => (
+    <h4 className="text-base font-semibold text-sky-300 mt-3 mb-1" {...props} />
+  ),
+  h4: ({ node: _node, ...props }) => (
+    <h5 className="font-semibold text-slate-100 mt-3 mb-1" {...props} />
+  ),
+  p: ({ node: _node, ...props }) => <p className="my-2" {...props} />,
+  ul: ({ node: _node, ...props }) => (
+    <ul className="list-disc pl-6 my-2 space-y-1" {...props} />
+  ),
+  ol: ({ node: _node, ...props }) => (
+    <ol className="list-decimal pl-6 my-2 space-y-1" {...props} />
+  ),
+  a: ({ node: _node, ...props }) => (
+    <a
+      className="text-sky-400 underline"
+      target="_blank"
+      rel="noopener noreferrer"
+      {...props}
+    />
+  ),
+  blockquote: ({ node: _node, ...props }) => (
+    <blockquote
+      className="border-l-4 border-slate-500 pl-3 my-2 text-slate-300"
+      {...props}
+    />
+  ),
+  pre: ({ node: _node, ...props }) => (
+    <pre
+      className="my-2 rounded-md bg-slate-900 p-3 overflow-x-auto text-sm"
+      {...props}
+    />
+  ),
+  code: ({ node: _node, className, ...props }) => (
+    <code
+      className={className ?? "rounded bg-slate-900 px-1 py-0.5 text-sm"}
+      {...props}
+    />
+  ),
+  table: ({ node: _node, ...props }) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="border-collapse text-sm" {...props} />
+    </div>
+  ),
+  th: ({ node: _node, ...props }) => (
+    <th className="border border-slate-500 px-2 py-1 text-left" {...props} />
+  ),
+  td: ({ node: _node, ...props }) => (
+    <td className="border border-slate-500 px-2 py-1" {...props} />
+  ),
+};
+
+// Renders model output as Markdown. Raw HTML in the text is dropped rather
+// than rendered, and link URLs go through react-markdown's safe-URL filter.
+export const Markdown = ({ children, className }: MarkdownProps) => (
+  <div className={className}>
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, [remarkMath, { singleDollarTextMath: false }]]}
+      rehypePlugins={[rehypeKatex, [rehypeHighlight, { detect: false }]]}
+      components={COMPONENTS}
+      skipHtml
+    >
+      {normalizeMathDelimiters(children)}
+    </ReactMarkdown>
+  </div>
+);
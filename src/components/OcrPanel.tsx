@@ -0,0 +1,129 @@
+import { isLowConfidence, OcrProgress, OcrResult } from "../ocr";
+
+interface OcrPanelProps {
+  // The last recognition; `text` starts as its text and may be edited.
+  result: OcrResult | null;
+  text: string;
+  onTextChange: (text: string) => void;
+  // Set while recognition is running.
+  progress: OcrProgress | null;
+  error?: string | null;
+  includeInPrompt: boolean;
+  onIncludeInPromptChange: (include: boolean) => void;
+  onRecognize: () => void;
+  // False until something is marked.
+  canRecognize: boolean;
+}
+
+// Tesseract's progress statuses, in words.
+const describeStatus = ({ status }: OcrProgress) =>
+  status.startsWith("recognizing")
+    ? "Reading text"
+    : "Loading text recognition";
+
+export const OcrPanel = ({
+  result,
+  text,
+  onTextChange,
+  progress,
+  error,
+  includeInPrompt,
+  onIncludeInPromptChange,
+  onRecognize,
+  canRecognize,
+}: OcrPanelProps) => {
+  const lowConfidenceCount = result
+    ? result.lines.flat().filter(isLowConfidence).length
+    : 0;
+
+  return (
+    <div className="bg-slate-700 p-4 rounded-lg shadow-md">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-semibold text-sky-400">Marked text</h2>
+        <button
+          type="button"
+          onClick={onRecognize}
+          disabled={!canRecognize || progress !== null}
+          className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {result ? "Read again" : "Read text"}
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        Recognised on this device; no API key needed and the image is not
+        uploaded.
+      </p>
+      {progress && (
+        <p className="mt-2 text-sm text-slate-300" role="status">
+          {describeStatus(progress)}... {Math.round(progress.progress * 100)}%
+        </p>
+      )}
+      {error && (
+        <p className="mt-2 text-sm text-red-300" role="alert">
+          {error}
+        </p>
+      )}
+      {result && (
+        <>
+          {result.lines.length === 0 ? (
+            <p className="mt-3 text-sm text-slate-300">
+              No text was found in the marked area.
+            </p>
+          ) : (
+            <>
+              <p className="mt-3 text-xs text-slate-400">
+                Average confidence {Math.round(result.confidence)}%
+                {lowConfidenceCount > 0 &&
+                  ` · ${lowConfidenceCount} uncertain word${
+                    lowConfidenceCount === 1 ? "" : "s"
+                  } underlined`}
+              </p>
+              <div
+                className="mt-1 p-2 bg-slate-800 rounded-md text-sm leading-relaxed"
+                aria-label="Recognised words"
+              >
+                {result.lines.map((words, lineIndex) => (
+                  <p key={lineIndex}>
+                    {words.map((word, wordIndex) => (
+                      <span
+                        key={wordIndex}
+                        title={`${Math.round(word.confidence)}% confident`}
+                        className={
+                          isLowConfidence(word)
+                            ? "text-amber-300 underline decoration-wavy decoration-amber-400"
+                            : "text-slate-100"
+                        }
+                      >
+                        {wordIndex > 0 && " "}
+                        {word.text}
+                      </span>
+                    ))}
+                  </p>
+                ))}
+              </div>
+            </>
+          )}
+          <label className="block mt-3 text-sm text-slate-300">
+            Text to send (edit to fix mistakes)
+            <textarea
+              value={text}
+              onChange={(event) => onTextChange(event.target.value)}
+              rows={Math.min(8, Math.max(3, text.split("\n").length))}
+              className="mt-1 w-full px-2 py-1 bg-slate-600 border border-slate-500 rounded-md text-sm text-slate-100 focus:outline-none focus:border-sky-400"
+            />
+          </label>
+          <label className="flex items-center gap-2 mt-2 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={includeInPrompt}
+              onChange={(event) =>
+                onIncludeInPromptChange(event.target.checked)
+              }
+            />
+            Send this text to the model with the image
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+interface PdfPageStripProps {
+  pageCount: number;
+  currentPage: number;
+  // Thumbnail data URLs by page index; missing entries are still rendering.
+  thumbnails: (string | undefined)[];
+  // Pages that have annotations, marked with a dot.
+  markedPages?: number[];
+  onSelect: (pageNumber: number) => void;
+  disabled?: boolean;
+}
+
+export const PdfPageStrip = ({
+  pageCount,
+  currentPage,
+  thumbnails,
+  markedPages = [],
+  onSelect,
+  disabled,
+}: PdfPageStripProps) => {
+  const pages = Array.from({ length: pageCount }, (_, index) => index + 1);
+  const navButtonClass =
+    "px-2 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center justify-between mb-2 text-sm text-slate-300">
+        <button
+          type="button"
+          onClick={() => onSelect(currentPage - 1)}
+          disabled={disabled || currentPage <= 1}
+          className={navButtonClass}
+        >
+          Previous page
+        </button>
+        <span>
+          Page {currentPage} of {pageCount}
+        </span>
+        <button
+          type="button"
+          onClick={() => onSelect(currentPage + 1)}
+          disabled={disabled || currentPage >= pageCount}
+          className={navButtonClass}
+        >
+          Next page
+        </button>
+      </div>
+      <ol className="flex gap-2 overflow-x-auto pb-1" aria-label="PDF pages">
+        {pages.map((pageNumber) => {
+          const thumbnail = thumbnails[pageNumber - 1];
+          const isCurrent = pageNumber === currentPage;
+          return (
+            <li key={pageNumber} className="flex-none">
+              <button
+                type="button"
+                onClick={() => onSelect(pageNumber)}
+                disabled={disabled}
+                aria-label={`Page ${pageNumber}`}
+                aria-current={isCurrent ? "page" : undefined}
+                className={`relative block w-16 rounded border-2 overflow-hidden bg-slate-600 disabled:cursor-not-allowed ${
+                  isCurrent ? "border-sky-400" : "border-transparent"
+                }`}
+              >
+                {thumbnail ? (
+                  <img src={thumbnail} alt="" className="block w-full" />
+                ) : (
+                  <span className="block h-20 text-xs text-slate-400 leading-[5rem]">
+                    {pageNumber}
+                  </span>
+                )}
+                {markedPages.includes(pageNumber) && (
+                  <span
+                    className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-500"
+                    title="Has markings"
+                  />
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import {
+  DEFAULT_TEMPLATE_VARIABLES,
+  getTemplateVariables,
+  PromptTemplate,
+  TemplateVariableName,
+  TemplateVariables,
+} from "../../utils/promptTemplates";
+
+interface PromptModePickerProps {
+  templates: PromptTemplate[];
+  selectedId: string;
+  variables: TemplateVariables;
+  onSelect: (id: string) => void;
+  onVariablesChange: (variables: TemplateVariables) => void;
+  onSaveTemplate: (template: PromptTemplate) => void;
+  onDeleteTemplate: (id: string) => void;
+  disabled?: boolean;
+}
+
+interface TemplateDraft {
+  // Undefined while creating a new template.
+  id?: string;
+  name: string;
+  text: string;
+}
+
+const VARIABLE_LABELS: Record<TemplateVariableName, string> = {
+  language: "Language",
+  audience_level: "Audience",
+  question: "Question",
+};
+
+const inputClassName =
+  "px-2 py-1 bg-slate-600 border border-slate-500 rounded-md text-sm text-slate-100 placeholder-slate-400 focus:outline-none focus:border-sky-400 disabled:opacity-50";
+const buttonClassName =
+  "px-3 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const PromptModePicker = ({
+  templates,
+  selectedId,
+  variables,
+  onSelect,
+  onVariablesChange,
+  onSaveTemplate,
+  onDeleteTemplate,
+  disabled,
+}: PromptModePickerProps) => {
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const selected =
+    templates.find((template) => template.id === selectedId) ?? templates[0];
+
+  const handleSave = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft || !draft.name.trim() || !draft.text.trim()) return;
+    onSaveTemplate({
+      id: draft.id ?? `custom-${Date.now()}`,
+      name: draft.name.trim(),
+      text: draft.text.trim(),
+    });
+    setDraft(null);
+  };
+
+  return (
+    <div className="mt-3 space-y-2 text-sm text-slate-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          Mode
+          <select
+            value={selected.id}
+            onChange={(event) => onSelect(event.target.value)}
+            disabled={disabled}
+            className={inputClassName}
+          >
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() =>
+            setDraft({ name: `${selected.name} (copy)`, text: selected.text })
+          }
+          disabled={disabled}
+          className={buttonClassName}
+        >
+          New template
+        </button>
+        {!selected.builtIn && (
+          <>
+            <button
+              type="button"
+              onClick={() => setDraft({ ...selected })}
+              disabled={disabled}
+              className={buttonClassName}
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => onDeleteTemplate(selected.id)}
+              disabled={disabled}
+              className={buttonClassName}
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {getTemplateVariables(selected.text).map((name) => (
+        <label key={name} className="flex items-center gap-2">
+          <span className="w-20">{VARIABLE_LABELS[name]}</span>
+          <input
+            type="text"
+            value={variables[name]}
+            onChange={(event) =>
+              onVariablesChange({ ...variables, [name]: event.target.value })
+            }
+            placeholder={DEFAULT_TEMPLATE_VARIABLES[name]}
+            disabled={disabled}
+            className={`flex-1 ${inputClassName}`}
+          />
+        </label>
+      ))}
+
+      {draft && (
+        <form
+          onSubmit={handleSave}
+          className="space-y-2 border border-slate-600 rounded-lg p-3"
+          aria-label="Prompt template editor"
+        >
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(event) =>
+              setDraft({ ...draft, name: event.target.value })
+            }
+            aria-label="Template name"
+            className={`w-full ${inputClassName}`}
+          />
+          <textarea
+            value={draft.text}
+            onChange={(event) =>
+              setDraft({ ...draft, text: event.target.value })
+            }
+            aria-label="Template instructions"
+            rows={5}
+            className={`w-full ${inputClassName}`}
+          />
+          <p className="text-xs text-slate-400">
+            Available variables: {"{language}"}, {"{audience_level}"},{" "}
+            {"{question}"}
+          </p>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={!draft.name.trim() || !draft.text.trim()}
+              className={buttonClassName}
+            >
+              Save template
+            </button>
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className={buttonClassName}
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,20 @@
+import { Markdown } from "./Markdown";
+
+interface RegionAnswerListProps {
+  answers: { number: number; text: string }[];
+}
+
+export const RegionAnswerList = ({ answers }: RegionAnswerListProps) => {
+  return (
+    <ol className="space-y-4" aria-label="Explanation per region">
+      {answers.map(({ number, text }, index) => (
+        <li key={`${number}-${index}`} className="flex items-start space-x-3">
+          <span className="flex-none flex items-center justify-center w-6 h-6 mt-0.5 rounded-full bg-red-500 text-white text-xs font-bold">
+            {number}
+          </span>
+          <Markdown className="flex-1 min-w-0 text-slate-200">{text}</Markdown>
+        </li>
+      ))}
+    </ol>
+  );
+};
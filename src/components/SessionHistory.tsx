@@ -0,0 +1,118 @@
+import { useRef } from "react";
+import {
+  SESSION_FILE_EXTENSION,
+  SessionSummary,
+  StorageUsage,
+} from "../sessions";
+
+interface SessionHistoryProps {
+  sessions: SessionSummary[];
+  storageUsage: StorageUsage | null;
+  activeSessionId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  disabled?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const SessionHistory = ({
+  sessions,
+  storageUsage,
+  activeSessionId,
+  onOpen,
+  onDelete,
+  onImport,
+  disabled,
+}: SessionHistoryProps) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onImport(file);
+    event.target.value = "";
+  };
+
+  return (
+    <aside className="bg-slate-800 shadow-2xl rounded-xl p-4 lg:w-72 flex-none">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-xl font-semibold text-sky-400">History</h2>
+        <button
+          type="button"
+          onClick={() => importInputRef.current?.click()}
+          disabled={disabled}
+          className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import session
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`${SESSION_FILE_EXTENSION},application/json`}
+          onChange={handleImportChange}
+          aria-label="Session file to import"
+          className="sr-only"
+        />
+      </div>
+      {sessions.length === 0 ? (
+        <p className="text-sm text-slate-400">
+          Explanations you run are saved here on this device.
+        </p>
+      ) : (
+        <ul className="space-y-2" aria-label="Saved sessions">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className={`rounded-lg p-2 text-sm ${
+                session.id === activeSessionId
+                  ? "bg-sky-900/50 border border-sky-600"
+                  : "bg-slate-700"
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(session.id)}
+                disabled={disabled}
+                className="block w-full text-left disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <span className="block font-semibold text-slate-100 truncate">
+                  {session.imageName}
+                </span>
+                <span className="block text-xs text-slate-400">
+                  {session.prompt.templateName} ·{" "}
+                  {new Date(session.createdAt).toLocaleString()}
+                </span>
+                <span className="block text-xs text-slate-300 truncate">
+                  {session.response}
+                </span>
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(session.id)}
+                disabled={disabled}
+                aria-label={`Delete session ${session.imageName}`}
+                className="mt-1 text-xs text-red-300 hover:text-red-200 disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {storageUsage && (
+        <p className="mt-3 text-xs text-slate-400">
+          Using {formatBytes(storageUsage.usage)} of{" "}
+          {formatBytes(storageUsage.quota)} available storage.
+        </p>
+      )}
+    </aside>
+  );
+};
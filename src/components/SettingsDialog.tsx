@@ -0,0 +1,292 @@
+import { useEffect, useState } from "react";
+import { ProviderConfig } from "../../utils/providers";
+import {
+  GEMINI_MODELS,
+  MAX_OUTPUT_TOKENS,
+  MAX_TEMPERATURE,
+  SettingsErrors,
+  UserSettings,
+  validateSettings,
+} from "../../utils/settings";
+
+interface SettingsDialogProps {
+  settings: UserSettings;
+  // The build-time provider and default model the settings apply to.
+  provider: Pick<ProviderConfig, "provider" | "model">;
+  onSave: (settings: UserSettings) => void;
+  onClose: () => void;
+}
+
+// Number fields are edited as text so they can be left empty for the
+// model's default.
+interface Draft {
+  apiKey: string;
+  model: string;
+  temperature: string;
+  maxOutputTokens: string;
+  thinkingBudget: string;
+}
+
+const toDraft = (settings: UserSettings): Draft => ({
+  apiKey: settings.apiKey,
+  model: settings.model,
+  temperature: settings.temperature?.toString() ?? "",
+  maxOutputTokens: settings.maxOutputTokens?.toString() ?? "",
+  thinkingBudget: settings.thinkingBudget?.toString() ?? "",
+});
+
+const toNumber = (text: string) =>
+  text.trim() === "" ? undefined : Number(text);
+
+const fromDraft = (draft: Draft): UserSettings => ({
+  apiKey: draft.apiKey.trim(),
+  model: draft.model,
+  temperature: toNumber(draft.temperature),
+  maxOutputTokens: toNumber(draft.maxOutputTokens),
+  thinkingBudget: toNumber(draft.thinkingBudget),
+});
+
+const INPUT_CLASS =
+  "mt-1 w-full px-2 py-1 bg-slate-600 border border-slate-500 rounded-md text-sm text-slate-100 focus:outline-none focus:border-sky-400 aria-[invalid=true]:border-red-400";
+
+const FieldError = ({ id, message }: { id: string; message?: string }) =>
+  message ? (
+    <p id={id} className="mt-1 text-xs text-red-300">
+      {message}
+    </p>
+  ) : null;
+
+export const SettingsDialog = ({
+  settings,
+  provider,
+  onSave,
+  onClose,
+}: SettingsDialogProps) => {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(settings));
+  const [errors, setErrors] = useState<SettingsErrors>({});
+  const [showKey, setShowKey] = useState(false);
+  const isGemini = provider.provider === "gemini";
+  // The proxy server holds the key and picks the model
+  const isProxy = provider.provider === "proxy";
+  // The build-time model may not be one of the listed ones
+  const defaultModel = provider.model || GEMINI_MODELS[0].id;
+  const modelOptions = GEMINI_MODELS.some(({ id }) => id === defaultModel)
+    ? GEMINI_MODELS
+    : [{ id: defaultModel, name: defaultModel }, ...GEMINI_MODELS];
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const update = (field: keyof Draft) => (value: string) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+    setErrors(({ [field]: _fixed, ...rest }) => rest);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const next = fromDraft(draft);
+    const found = validateSettings(next, provider);
+    setErrors(found);
+    if (Object.keys(found).length === 0) onSave(next);
+  };
+
+  const fieldProps = (field: keyof Draft) => ({
+    value: draft[field],
+    onChange: (
+      event: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+    ) => update(field)(event.target.value),
+    "aria-invalid": Boolean(errors[field]),
+    "aria-describedby": errors[field] ? `settings-${field}-error` : undefined,
+    className: INPUT_CLASS,
+  });
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/80 p-4"
+      onClick={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="settings-title"
+        onSubmit={handleSubmit}
+        noValidate
+        className="w-full max-w-lg max-h-full overflow-y-auto bg-slate-800 rounded-xl shadow-2xl p-6 space-y-4 text-left"
+      >
+        <h2 id="settings-title" className="text-xl font-semibold text-sky-400">
+          Settings
+        </h2>
+
+        {isProxy ? (
+          <p className="text-sm text-slate-300">
+            This app sends requests through its own server, which holds the API
+            key and chooses the model.
+          </p>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm text-slate-300">
+                API key
+                <input
+                  type={showKey ? "text" : "password"}
+                  autoComplete="off"
+                  spellCheck={false}
+                  autoFocus
+                  placeholder={
+                    isGemini
+                      ? "Paste your Gemini API key"
+                      : "Optional for local servers"
+                  }
+                  {...fieldProps("apiKey")}
+                />
+              </label>
+              <FieldError id="settings-apiKey-error" message={errors.apiKey} />
+              <div className="mt-1 flex items-center justify-between text-xs text-slate-400">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={showKey}
+                    onChange={(event) => setShowKey(event.target.checked)}
+                  />
+                  Show key
+                </label>
+                {draft.apiKey && (
+                  <button
+                    type="button"
+                    onClick={() => update("apiKey")("")}
+                    className="text-sky-300 hover:text-sky-200 underline"
+                  >
+                    Forget key
+                  </button>
+                )}
+              </div>
+              <p
+                className="mt-2 p-2 rounded-md bg-amber-900/40 border border-amber-600 text-xs text-amber-100"
+                role="note"
+              >
+                The key is saved unencrypted in this browser's local storage so
+                you do not have to enter it again. Anyone using this browser
+                profile, and any script running on this page, can read it, so do
+                not save it on a shared computer. It is only sent to the model
+                provider.
+              </p>
+            </div>
+
+            <label className="block text-sm text-slate-300">
+              Model
+              {isGemini ? (
+                <select
+                  {...fieldProps("model")}
+                  value={draft.model || defaultModel}
+                >
+                  {modelOptions.map(({ id, name }) => (
+                    <option key={id} value={id}>
+                      {name}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  placeholder={provider.model || "Model name"}
+                  {...fieldProps("model")}
+                />
+              )}
+            </label>
+          </>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm text-slate-300">
+              Temperature
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                max={MAX_TEMPERATURE}
+                step={0.1}
+                placeholder="Model default"
+                {...fieldProps("temperature")}
+              />
+            </label>
+            <FieldError
+              id="settings-temperature-error"
+              message={errors.temperature}
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-slate-300">
+              Max output tokens
+              <input
+                type="number"
+                inputMode="numeric"
+                min={1}
+                max={MAX_OUTPUT_TOKENS}
+                step={1}
+                placeholder="Model default"
+                {...fieldProps("maxOutputTokens")}
+              />
+            </label>
+            <FieldError
+              id="settings-maxOutputTokens-error"
+              message={errors.maxOutputTokens}
+            />
+          </div>
+        </div>
+
+        {isGemini && (
+          <div>
+            <label className="block text-sm text-slate-300">
+              Thinking budget (tokens)
+              <input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                step={1}
+                placeholder="Automatic"
+                {...fieldProps("thinkingBudget")}
+              />
+            </label>
+            <FieldError
+              id="settings-thinkingBudget-error"
+              message={errors.thinkingBudget}
+            />
+            <p className="mt-1 text-xs text-slate-400">
+              Leave empty to let the model decide. 0 turns thinking off where
+              the model allows it.
+            </p>
+          </div>
+        )}
+
+        <p className="text-xs text-slate-400">
+          Leave a number empty to use the model's default. Changes apply to the
+          next request.
+        </p>
+
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-sm font-semibold rounded-md transition-colors duration-150 ease-in-out"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="px-4 py-2 bg-sky-600 hover:bg-sky-500 text-white text-sm font-semibold rounded-md transition-colors duration-150 ease-in-out"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { findEntityForTerm } from "../../utils/entityBoxes";
+import {
+  splitAnswerByRegion,
+  StructuredExplanation,
+} from "../../utils/geminiService";
+import { Markdown } from "./Markdown";
+import { RegionAnswerList } from "./RegionAnswerList";
+
+interface StructuredExplanationViewProps {
+  explanation: StructuredExplanation;
+  // Links key terms to the answer's boxes on the image by label.
+  highlightedEntity?: number | null;
+  onHighlightEntity?: (index: number | null) => void;
+}
+
+const Section = ({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) => (
+  <section>
+    <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-400 mb-1">
+      {title}
+    </h3>
+    {children}
+  </section>
+);
+
+export const StructuredExplanationView = ({
+  explanation,
+  highlightedEntity = null,
+  onHighlightEntity,
+}: StructuredExplanationViewProps) => {
+  const [copied, setCopied] = useState(false);
+  const { summary, extractedText, language, keyTerms, confidenceNote } =
+    explanation;
+  const regionAnswers = splitAnswerByRegion(explanation.explanation);
+  const entities = explanation.entities ?? [];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(extractedText);
+      setCopied(true);
+    } catch (error) {
+      console.error("Could not copy the extracted text:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-4 text-slate-200">
+      <Section title="Summary">
+        <p>{summary}</p>
+      </Section>
+
+      {extractedText && (
+        <Section
+          title={language ? `Extracted text (${language})` : "Extracted text"}
+        >
+          <div className="flex items-start space-x-2">
+            <blockquote className="flex-1 border-l-4 border-sky-500 pl-3 whitespace-pre-wrap">
+              {extractedText}
+            </blockquote>
+            <button
+              type="button"
+              onClick={handleCopy}
+              onBlur={() => setCopied(false)}
+              className="flex-none px-3 py-1 bg-slate-600 hover:bg-slate-500 text-xs font-semibold rounded-md transition-colors duration-150 ease-in-out"
+            >
+              {copied ? "Copied" : "Copy text"}
+            </button>
+          </div>
+        </Section>
+      )}
+
+      <Section title="Explanation">
+        {regionAnswers ? (
+          <RegionAnswerList answers={regionAnswers} />
+        ) : (
+          <Markdown>{explanation.explanation}</Markdown>
+        )}
+      </Section>
+
+      {keyTerms.length > 0 && (
+        <Section title="Key terms">
+          <dl className="space-y-1">
+            {keyTerms.map(({ term, definition }, index) => {
+              const entity = findEntityForTerm(entities, term);
+              const isLinked = entity !== -1 && onHighlightEntity;
+              return (
+                <div
+                  key={`${term}-${index}`}
+                  onMouseEnter={
+                    isLinked ? () => onHighlightEntity(entity) : undefined
+                  }
+                  onMouseLeave={
+                    isLinked ? () => onHighlightEntity(null) : undefined
+                  }
+                  className={
+                    isLinked && entity === highlightedEntity
+                      ? "bg-sky-900/60 rounded"
+                      : undefined
+                  }
+                >
+                  <dt
+                    className={`inline font-semibold text-sky-300 ${
+                      isLinked ? "underline decoration-dotted" : ""
+                    }`}
+                    title={isLinked ? "Shown on the image" : undefined}
+                  >
+                    {term}:{" "}
+                  </dt>
+                  <dd className="inline">{definition}</dd>
+                </div>
+              );
+            })}
+          </dl>
+        </Section>
+      )}
+
+      {confidenceNote && (
+        <p className="text-xs text-slate-400 italic">{confidenceNote}</p>
+      )}
+    </div>
+  );
+};
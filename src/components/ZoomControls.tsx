@@ -0,0 +1,47 @@
+interface ZoomControlsProps {
+  // Zoom relative to fit-to-view, where 1 means the whole image is visible.
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFit: () => void;
+}
+
+const BUTTON_CLASS =
+  "px-2 py-1 text-xs font-medium rounded-md bg-slate-600 text-slate-200 hover:bg-slate-500 transition-colors duration-150 ease-in-out";
+
+export const ZoomControls = ({
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onFit,
+}: ZoomControlsProps) => {
+  return (
+    <div className="flex items-center gap-1 mt-2 text-xs text-slate-400">
+      <button
+        type="button"
+        onClick={onZoomOut}
+        aria-label="Zoom out"
+        className={BUTTON_CLASS}
+      >
+        −
+      </button>
+      <span className="w-12 text-center" aria-label="Zoom level">
+        {Math.round(zoom * 100)}%
+      </span>
+      <button
+        type="button"
+        onClick={onZoomIn}
+        aria-label="Zoom in"
+        className={BUTTON_CLASS}
+      >
+        +
+      </button>
+      <button type="button" onClick={onFit} className={BUTTON_CLASS}>
+        Fit
+      </button>
+      <span className="ml-2">
+        Scroll or pinch to zoom, hold Space and drag to pan.
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { BatchQueuePanel } from '../BatchQueuePanel';
+
+const jobs = [
+  { id: 'a', label: 'sheet1.png', input: null, status: 'done' as const, attempts: 1, result: 'Answer' },
+  { id: 'b', label: 'sheet2.png', input: null, status: 'failed' as const, attempts: 2, error: new Error('Rate limit reached') },
+  { id: 'c', label: 'sheet3.png', input: null, status: 'running' as const, attempts: 1 },
+];
+
+const renderPanel = (overrides = {}) => {
+  const props = {
+    jobs,
+    concurrency: 2,
+    onConcurrencyChange: vi.fn(),
+    onRetry: vi.fn(),
+    onRetryFailed: vi.fn(),
+    onCancel: vi.fn(),
+    onExport: vi.fn(),
+    ...overrides,
+  };
+  render(<BatchQueuePanel {...props} />);
+  return props;
+};
+
+describe('BatchQueuePanel', () => {
+  it('summarises progress and shows why jobs failed', () => {
+    renderPanel();
+
+    expect(screen.getByRole('status')).toHaveTextContent('2 of 3 finished · 1 done, 1 failed, 1 running, 0 queued');
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '2');
+    expect(screen.getByText('Rate limit reached')).toBeInTheDocument();
+  });
+
+  it('retries, cancels and exports', () => {
+    const props = renderPanel();
+
+    fireEvent.click(screen.getByLabelText('Retry sheet2.png'));
+    fireEvent.click(screen.getByText('Retry failed'));
+    fireEvent.click(screen.getByText('Cancel batch'));
+    fireEvent.click(screen.getByText('Export CSV'));
+    fireEvent.change(screen.getByLabelText('At once'), { target: { value: '3' } });
+
+    expect(props.onRetry).toHaveBeenCalledWith('b');
+    expect(props.onRetryFailed).toHaveBeenCalled();
+    expect(props.onCancel).toHaveBeenCalled();
+    expect(props.onExport).toHaveBeenCalledWith('csv');
+    expect(props.onConcurrencyChange).toHaveBeenCalledWith(3);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { CopyAnswerButtons } from '../CopyAnswerButtons';
+
+describe('CopyAnswerButtons', () => {
+  it('copies the answer as Markdown or as plain text', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    render(<CopyAnswerButtons markdown={'It is **bold**.'} />);
+
+    fireEvent.click(screen.getByText('Copy as Markdown'));
+    await waitFor(() => expect(screen.getByText('Copied')).toBeInTheDocument());
+    fireEvent.click(screen.getByText('Copy as plain text'));
+
+    expect(writeText).toHaveBeenNthCalledWith(1, 'It is **bold**.');
+    expect(writeText).toHaveBeenNthCalledWith(2, 'It is bold.');
+  });
+});
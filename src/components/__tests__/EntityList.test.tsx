@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { EntityList } from '../EntityList';
+import { StructuredExplanationView } from '../StructuredExplanationView';
+
+const entities = [
+  { label: 'ohm sign', box2d: [10, 10, 50, 50] as [number, number, number, number] },
+  { label: 'resistor', box2d: [60, 60, 90, 90] as [number, number, number, number] },
+];
+
+describe('EntityList', () => {
+  it('highlights a box while its label is hovered or focused', () => {
+    const onHighlight = vi.fn();
+    render(<EntityList entities={entities} highlighted={null} onHighlight={onHighlight} />);
+
+    fireEvent.mouseEnter(screen.getByText('resistor'));
+    fireEvent.mouseLeave(screen.getByText('resistor'));
+    fireEvent.focus(screen.getByText('ohm sign'));
+
+    expect(onHighlight.mock.calls).toEqual([[1], [null], [0]]);
+  });
+
+  it('marks the label of the box hovered on the image', () => {
+    render(<EntityList entities={entities} highlighted={0} onHighlight={vi.fn()} />);
+
+    expect(screen.getByText('ohm sign')).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('resistor')).toHaveAttribute('aria-pressed', 'false');
+  });
+});
+
+describe('StructuredExplanationView entity links', () => {
+  it('links key terms to boxes with the same label', () => {
+    const onHighlightEntity = vi.fn();
+    render(
+      <StructuredExplanationView
+        explanation={{
+          summary: 'A circuit.',
+          extractedText: '',
+          language: '',
+          explanation: 'The resistor limits current.',
+          keyTerms: [
+            { term: 'Resistor', definition: 'limits current' },
+            { term: 'Current', definition: 'flow of charge' },
+          ],
+          confidenceNote: '',
+          entities,
+        }}
+        onHighlightEntity={onHighlightEntity}
+      />
+    );
+
+    fireEvent.mouseEnter(screen.getByText('limits current'));
+    fireEvent.mouseEnter(screen.getByText('flow of charge'));
+
+    expect(onHighlightEntity).toHaveBeenCalledTimes(1);
+    expect(onHighlightEntity).toHaveBeenCalledWith(1);
+    expect(screen.getAllByTitle('Shown on the image')).toHaveLength(1);
+  });
+});
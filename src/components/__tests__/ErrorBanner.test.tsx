@@ -0,0 +1,41 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ErrorBanner } from '../ErrorBanner';
+import { AuthError, RateLimitError } from '../../../utils/providers';
+
+describe('ErrorBanner', () => {
+  it('explains the error kind and offers a retry for transient failures', () => {
+    const onRetry = vi.fn();
+    render(<ErrorBanner error={new RateLimitError('Too many requests')} onRetry={onRetry} />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Rate limit or quota reached:');
+    expect(screen.getByText('Too many requests')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Retry'));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows a remedy but no retry for errors that will not go away', () => {
+    render(<ErrorBanner error={new AuthError('API key not valid')} onRetry={vi.fn()} />);
+
+    expect(screen.getByText(/Check that your API key is set/)).toBeInTheDocument();
+    expect(screen.queryByText('Retry')).not.toBeInTheDocument();
+  });
+
+  it('points to the settings when the API key is missing or rejected', () => {
+    const onOpenSettings = vi.fn();
+    const { rerender } = render(<ErrorBanner error={new AuthError('No API key is set.')} onOpenSettings={onOpenSettings} />);
+
+    fireEvent.click(screen.getByText('Open settings'));
+    expect(onOpenSettings).toHaveBeenCalledTimes(1);
+
+    rerender(<ErrorBanner error={new RateLimitError('Too many requests')} onOpenSettings={onOpenSettings} />);
+    expect(screen.queryByText('Open settings')).not.toBeInTheDocument();
+  });
+
+  it('shows plain messages under a generic title', () => {
+    render(<ErrorBanner error="Please upload an image first." />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Error:Please upload an image first.');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { FollowUpThread, FollowUpMessage } from '../FollowUpThread';
+
+describe('FollowUpThread', () => {
+  const mockOnAsk = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('submits a trimmed question and clears the input', () => {
+    render(<FollowUpThread messages={[]} onAsk={mockOnAsk} />);
+
+    const input = screen.getByLabelText('Follow-up question') as HTMLInputElement;
+    fireEvent.change(input, { target: { value: '  What does ATP mean?  ' } });
+    fireEvent.click(screen.getByText('Ask'));
+
+    expect(mockOnAsk).toHaveBeenCalledWith('What does ATP mean?');
+    expect(input.value).toBe('');
+  });
+
+  it('does not submit an empty question', () => {
+    render(<FollowUpThread messages={[]} onAsk={mockOnAsk} />);
+
+    expect(screen.getByText('Ask')).toBeDisabled();
+    fireEvent.submit(screen.getByLabelText('Follow-up question').closest('form')!);
+    expect(mockOnAsk).not.toHaveBeenCalled();
+  });
+
+  it('shows loading and error states per message', () => {
+    const messages: FollowUpMessage[] = [
+      { id: '1', role: 'user', text: 'Explain it simpler', status: 'done' },
+      { id: '2', role: 'model', text: '', status: 'pending' },
+      { id: '3', role: 'user', text: 'And in French?', status: 'done' },
+      { id: '4', role: 'model', text: '', status: 'error', error: 'Quota exceeded' },
+    ];
+    render(<FollowUpThread messages={messages} onAsk={mockOnAsk} disabled />);
+
+    expect(screen.getByText('Explain it simpler')).toBeInTheDocument();
+    expect(screen.getByText('AI is thinking...')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Quota exceeded');
+    expect(screen.getByLabelText('Follow-up question')).toBeDisabled();
+  });
+});
@@ -7,7 +7,8 @@ import {
   Lightbulb, 
   AlertTriangle, 
   XCircle, 
-  Edit3 
+  Edit3,
+  StopCircle
 } from '../icons';
 
 describe('Icons', () => {
@@ -62,6 +63,15 @@ describe('Icons', () => {
     expect(svg).toHaveAttribute('viewBox', '0 0 24 24');
   });
 
+  it('renders StopCircle icon with default props', () => {
+    const { container } = render(<StopCircle />);
+    const svg = container.querySelector('svg');
+    expect(svg).not.toBeNull();
+    expect(svg).toHaveAttribute('width', '24');
+    expect(svg).toHaveAttribute('height', '24');
+    expect(svg).toHaveAttribute('viewBox', '0 0 24 24');
+  });
+
   it('applies custom className to all icons', () => {
     const icons = [
       { Component: UploadCloud, name: 'UploadCloud' },
@@ -69,6 +79,7 @@ describe('Icons', () => {
       { Component: AlertTriangle, name: 'AlertTriangle' },
       { Component: XCircle, name: 'XCircle' },
       { Component: Edit3, name: 'Edit3' },
+      { Component: StopCircle, name: 'StopCircle' },
     ];
 
     icons.forEach(({ Component, name }) => {
@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { ImageGallery } from '../ImageGallery';
+
+const file = new File(['x'], 'slide.png', { type: 'image/png' });
+const items = [
+  { id: 'a', name: 'Slide 1.png', file, workspace: null },
+  { id: 'b', name: 'Slide 2.png', file, workspace: null },
+  { id: 'c', name: 'Slide 3.png', workspace: null },
+];
+
+describe('ImageGallery', () => {
+  it('switches between images and removes them', () => {
+    const onSelect = vi.fn();
+    const onRemove = vi.fn();
+    render(<ImageGallery items={items} activeId="a" answeredIds={['a']} onSelect={onSelect} onRemove={onRemove} />);
+
+    expect(screen.getByLabelText('Slide 1.png')).toHaveAttribute('aria-current', 'true');
+    fireEvent.click(screen.getByLabelText('Slide 2.png'));
+    fireEvent.click(screen.getByLabelText('Remove Slide 1.png'));
+
+    expect(onSelect).toHaveBeenCalledWith('b');
+    expect(onRemove).toHaveBeenCalledWith('a');
+    expect(screen.getAllByTitle('Has an answer')).toHaveLength(1);
+  });
+
+  it('cannot select an image that is still being prepared', () => {
+    render(<ImageGallery items={items} activeId="a" onSelect={vi.fn()} onRemove={vi.fn()} />);
+
+    expect(screen.getByLabelText('Slide 3.png')).toBeDisabled();
+    expect(screen.getByText('Preparing...')).toBeInTheDocument();
+  });
+});
@@ -36,17 +36,103 @@ describe('ImageUploader', () => {
     expect(mockOnImageUpload).toHaveBeenCalledWith(file);
   });
 
-  it('shows an alert for non-image files', () => {
-    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
+  it('routes session files to onSessionFile when provided', () => {
+    const onSessionFile = vi.fn();
+    const file = createTestFile('shared.underline.json', '', 1024);
+    const { container } = render(
+      <ImageUploader onImageUpload={mockOnImageUpload} onSessionFile={onSessionFile} />
+    );
+
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { files: [file] } });
+
+    expect(onSessionFile).toHaveBeenCalledWith(file);
+    expect(mockOnImageUpload).not.toHaveBeenCalled();
+  });
+
+  it('routes PDFs to onPdfFile when provided', () => {
+    const onPdfFile = vi.fn();
+    const file = createTestFile('paper.pdf', 'application/pdf', 1024);
+    const { container } = render(
+      <ImageUploader onImageUpload={mockOnImageUpload} onPdfFile={onPdfFile} />
+    );
+
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { files: [file] } });
+
+    expect(onPdfFile).toHaveBeenCalledWith(file);
+    expect(mockOnImageUpload).not.toHaveBeenCalled();
+  });
+
+  it('accepts several dropped images and reports the ones it skips', () => {
+    const first = createTestFile('slide1.png', 'image/png', 1024);
+    const second = createTestFile('slide2.jpg', 'image/jpeg', 1024);
+    const notes = createTestFile('notes.txt', 'text/plain', 1024);
+    render(<ImageUploader onImageUpload={mockOnImageUpload} />);
+
+    const dropZone = screen.getByText('Drop files to attach, or').closest('label')!;
+    fireEvent.drop(dropZone, { dataTransfer: { files: [first, notes, second] } });
+
+    expect(mockOnImageUpload).toHaveBeenNthCalledWith(1, first);
+    expect(mockOnImageUpload).toHaveBeenNthCalledWith(2, second);
+    expect(screen.getByText('2 images')).toBeInTheDocument();
+    expect(screen.getByRole('alert')).toHaveTextContent('Please select a valid image file');
+  });
+
+  it('adds images pasted from the clipboard with a readable name', () => {
+    render(<ImageUploader onImageUpload={mockOnImageUpload} />);
+    const pasted = createTestFile('image.png', 'image/png', 1024);
+
+    const event = new Event('paste', { cancelable: true }) as ClipboardEvent;
+    Object.defineProperty(event, 'clipboardData', { value: { files: [pasted] } });
+    window.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(true);
+    expect(mockOnImageUpload).toHaveBeenCalledTimes(1);
+    expect(mockOnImageUpload.mock.calls[0][0].name).toMatch(/^Pasted image .+\.png$/);
+  });
+
+  it('leaves text pastes alone', () => {
+    render(<ImageUploader onImageUpload={mockOnImageUpload} />);
+
+    const event = new Event('paste', { cancelable: true }) as ClipboardEvent;
+    Object.defineProperty(event, 'clipboardData', { value: { files: [] } });
+    window.dispatchEvent(event);
+
+    expect(event.defaultPrevented).toBe(false);
+    expect(mockOnImageUpload).not.toHaveBeenCalled();
+  });
+
+  it('shows an inline message for non-image files', () => {
     const file = createTestFile('test.txt', 'text/plain', 1024);
     const { container } = render(<ImageUploader onImageUpload={mockOnImageUpload} />);
     
     const input = container.querySelector('input[type="file"]') as HTMLInputElement;
     fireEvent.change(input, { target: { files: [file] } });
     
-    expect(alertSpy).toHaveBeenCalledWith('Please select a valid image file (e.g., PNG, JPG, GIF).');
+    expect(screen.getByRole('alert')).toHaveTextContent('Please select a valid image file (e.g., PNG, JPG, GIF).');
     expect(mockOnImageUpload).not.toHaveBeenCalled();
-    alertSpy.mockRestore();
+  });
+
+  it('rejects images that are too large to process', () => {
+    const file = createTestFile('huge.jpg', 'image/jpeg', 100 * 1024 * 1024);
+    const { container } = render(<ImageUploader onImageUpload={mockOnImageUpload} />);
+
+    const input = container.querySelector('input[type="file"]') as HTMLInputElement;
+    fireEvent.change(input, { target: { files: [file] } });
+
+    expect(screen.getByRole('alert')).toHaveTextContent('huge.jpg is 100.0 MB');
+    expect(mockOnImageUpload).not.toHaveBeenCalled();
+  });
+
+  it('shows errors and notices from preprocessing', () => {
+    const { rerender } = render(
+      <ImageUploader onImageUpload={mockOnImageUpload} notice="Rotated to match the camera orientation." />
+    );
+    expect(screen.getByRole('status')).toHaveTextContent('Rotated to match the camera orientation.');
+
+    rerender(<ImageUploader onImageUpload={mockOnImageUpload} error="Couldn't read scan.tiff." />);
+    expect(screen.getByRole('alert')).toHaveTextContent("Couldn't read scan.tiff.");
   });
 
   it('handles drag and drop for valid image', () => {
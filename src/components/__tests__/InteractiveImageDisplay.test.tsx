@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { InteractiveImageDisplay } from '../InteractiveImageDisplay';
+import { Region } from '../../annotations';
+import { EntityBox } from '../../../utils/entityBoxes';
+
+// jsdom does not decode images; report a fixed size as soon as a source is set.
+class LoadedImage {
+  naturalWidth = 400;
+  naturalHeight = 300;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  set src(_value: string) {
+    setTimeout(() => this.onload?.());
+  }
+}
+
+// jsdom has no PointerEvent, so pointer events would lose their position.
+class MousePointerEvent extends MouseEvent {
+  pointerId: number;
+  pointerType: string;
+  constructor(type: string, init: PointerEventInit = {}) {
+    super(type, init);
+    this.pointerId = init.pointerId ?? 1;
+    this.pointerType = init.pointerType ?? 'mouse';
+  }
+}
+
+const image = new File([new Uint8Array([137, 80, 78, 71])], 'menu.png', { type: 'image/png' });
+
+// The left half of the image, and a smaller box inside it.
+const boxes: EntityBox[] = [
+  { label: 'menu', box2d: [0, 0, 1000, 500] },
+  { label: 'price', box2d: [400, 100, 600, 300] },
+];
+
+const region = (question: string): Region => ({
+  id: 0,
+  question,
+  annotations: [{ id: 0, tool: 'pen', points: [{ x: 10, y: 10 }, { x: 90, y: 10 }], style: { color: '#ef4444', width: 3 } }],
+});
+
+// The canvas once it has been sized for the image.
+const loadedCanvas = async () => {
+  const canvas = screen.getByLabelText('Interactive image canvas for drawing markings');
+  await waitFor(() => expect(canvas).toHaveAttribute('width', '400'));
+  return canvas;
+};
+
+describe('InteractiveImageDisplay', () => {
+  beforeEach(() => {
+    vi.stubGlobal('Image', LoadedImage);
+    vi.stubGlobal('PointerEvent', MousePointerEvent);
+    // jsdom has no 2D context; the canvas is laid out at the image's size.
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    vi.spyOn(HTMLCanvasElement.prototype, 'getBoundingClientRect').mockReturnValue(new DOMRect(0, 0, 400, 300));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reports the smallest answer box under the pointer and clears it on leave', async () => {
+    const onHighlightBox = vi.fn();
+    render(<InteractiveImageDisplay imageFile={image} onSelectionChange={vi.fn()} entityBoxes={boxes} onHighlightBox={onHighlightBox} />);
+    const canvas = await loadedCanvas();
+
+    fireEvent.pointerMove(canvas, { clientX: 80, clientY: 150 });
+    fireEvent.pointerMove(canvas, { clientX: 20, clientY: 20 });
+    fireEvent.pointerLeave(canvas);
+
+    expect(onHighlightBox.mock.calls).toEqual([[1], [0], [null]]);
+  });
+
+  it('hides the answer boxes when the overlay is switched off', async () => {
+    const onHighlightBox = vi.fn();
+    render(<InteractiveImageDisplay imageFile={image} onSelectionChange={vi.fn()} entityBoxes={boxes} onHighlightBox={onHighlightBox} />);
+    const canvas = await loadedCanvas();
+    const toggle = screen.getByLabelText('Show what the answer points out (2)');
+    expect(toggle).toBeChecked();
+
+    fireEvent.pointerMove(canvas, { clientX: 20, clientY: 20 });
+    fireEvent.click(toggle);
+    fireEvent.pointerMove(canvas, { clientX: 80, clientY: 150 });
+
+    expect(toggle).not.toBeChecked();
+    expect(onHighlightBox.mock.calls).toEqual([[0], [null]]);
+  });
+
+  it('shows the initial regions once the image loads, and new ones for the same image', async () => {
+    const onSelectionChange = vi.fn();
+    const { rerender } = render(
+      <InteractiveImageDisplay imageFile={image} initialRegions={[region('what is this?')]} onSelectionChange={onSelectionChange} />
+    );
+
+    expect(await screen.findByLabelText('Question for region 1')).toHaveValue('what is this?');
+    expect(onSelectionChange).toHaveBeenLastCalledWith(true);
+
+    rerender(<InteractiveImageDisplay imageFile={image} initialRegions={[region('translate this')]} onSelectionChange={onSelectionChange} />);
+
+    expect(await screen.findByDisplayValue('translate this')).toBeInTheDocument();
+  });
+
+  it('holds Space for panning only when nothing else on the page has focus', async () => {
+    render(
+      <>
+        <details>
+          <summary>Elsewhere</summary>
+        </details>
+        <InteractiveImageDisplay imageFile={image} onSelectionChange={vi.fn()} />
+      </>
+    );
+    const canvas = await loadedCanvas();
+
+    expect(fireEvent.keyDown(screen.getByText('Elsewhere'), { key: ' ' })).toBe(true);
+    expect(canvas).not.toHaveClass('cursor-grab');
+
+    expect(fireEvent.keyDown(document.body, { key: ' ' })).toBe(false);
+    expect(canvas).toHaveClass('cursor-grab');
+  });
+});
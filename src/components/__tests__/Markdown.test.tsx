@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { Markdown, normalizeMathDelimiters } from '../Markdown';
+
+describe('Markdown', () => {
+  it('renders headings, emphasis and lists instead of literal markers', () => {
+    const { container } = render(<Markdown>{'## Meaning\n\nThis is **important**.\n\n- one\n- two'}</Markdown>);
+
+    expect(screen.getByText('important').tagName).toBe('STRONG');
+    expect(screen.getByText('Meaning').tagName).toBe('H3');
+    expect(container.querySelectorAll('li')).toHaveLength(2);
+    expect(container.textContent).not.toContain('**');
+  });
+
+  it('drops raw HTML from model output', () => {
+    const { container } = render(
+      <Markdown>{'Hello <img src="x" onerror="alert(1)"> <script>alert(1)</script>world'}</Markdown>
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('script')).toBeNull();
+    expect(container.textContent).toContain('Hello');
+  });
+
+  it('does not render javascript: links', () => {
+    const { container } = render(<Markdown>{'[click](javascript:alert(1))'}</Markdown>);
+
+    expect(container.querySelector('a')?.getAttribute('href') ?? '').not.toContain('javascript');
+  });
+
+  it('highlights fenced code blocks', () => {
+    const { container } = render(<Markdown>{'```python\nprint("hi")\n```'}</Markdown>);
+
+    expect(container.querySelector('code.hljs.language-python')).not.toBeNull();
+  });
+
+  it('renders LaTeX math with KaTeX', () => {
+    const { container } = render(<Markdown>{'Energy: \\(E = mc^2\\) costs $5 or $10.'}</Markdown>);
+
+    expect(container.querySelector('.katex')).not.toBeNull();
+    expect(container.textContent).toContain('costs $5 or $10.');
+  });
+
+  it('converts bracket math delimiters to dollar signs', () => {
+    expect(normalizeMathDelimiters('a \\(x\\) b \\[y\\]')).toBe('a $$x$$ b \n$$\ny\n$$\n');
+  });
+
+  it('leaves backslash brackets in code alone', () => {
+    const markdown = 'Match \\(x\\) with `/\\(\\d+\\)/`:\n\n```js\nconst price = /\\[(\\d+)\\]/;\n```\n\nor \\[y\\]';
+
+    expect(normalizeMathDelimiters(markdown)).toBe('Match $$x$$ with `/\\(\\d+\\)/`:\n\n```js\nconst price = /\\[(\\d+)\\]/;\n```\n\nor \n$$\ny\n$$\n');
+  });
+
+  it('leaves a code block alone while it is still streaming', () => {
+    expect(normalizeMathDelimiters('```js\nconst call = /\\(x\\)/')).toBe('```js\nconst call = /\\(x\\)/');
+  });
+
+  it('shows a regex in a code block as written', () => {
+    const { container } = render(<Markdown>{'```js\nconst match = /\\(\\d+\\)/;\n```'}</Markdown>);
+
+    expect(container.querySelector('.katex')).toBeNull();
+    expect(container.querySelector('code')?.textContent).toContain('/\\(\\d+\\)/');
+  });
+});
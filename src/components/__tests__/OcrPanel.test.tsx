@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { OcrPanel } from '../OcrPanel';
+
+const result = {
+  text: 'Soupe du jour',
+  confidence: 77,
+  lines: [
+    [
+      { text: 'Soupe', confidence: 96 },
+      { text: 'du', confidence: 91 },
+      { text: 'jour', confidence: 42 },
+    ],
+  ],
+};
+
+const props = {
+  result: null,
+  text: '',
+  onTextChange: vi.fn(),
+  progress: null,
+  includeInPrompt: true,
+  onIncludeInPromptChange: vi.fn(),
+  onRecognize: vi.fn(),
+  canRecognize: true,
+};
+
+describe('OcrPanel', () => {
+  it('reads text once something is marked', () => {
+    const onRecognize = vi.fn();
+    const { rerender } = render(<OcrPanel {...props} canRecognize={false} onRecognize={onRecognize} />);
+    expect(screen.getByText('Read text')).toBeDisabled();
+
+    rerender(<OcrPanel {...props} onRecognize={onRecognize} />);
+    fireEvent.click(screen.getByText('Read text'));
+
+    expect(onRecognize).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows progress while recognising', () => {
+    render(<OcrPanel {...props} progress={{ status: 'recognizing text', progress: 0.42 }} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('Reading text... 42%');
+    expect(screen.getByText('Read text')).toBeDisabled();
+  });
+
+  it('shows each word with its confidence and flags uncertain ones', () => {
+    render(<OcrPanel {...props} result={result} text={result.text} />);
+
+    expect(screen.getByText('jour')).toHaveAttribute('title', '42% confident');
+    expect(screen.getByText(/1 uncertain word underlined/)).toBeInTheDocument();
+    expect(screen.getByText('Read again')).toBeInTheDocument();
+  });
+
+  it('lets the text be corrected and left out of the prompt', () => {
+    const onTextChange = vi.fn();
+    const onIncludeInPromptChange = vi.fn();
+    render(
+      <OcrPanel
+        {...props}
+        result={result}
+        text={result.text}
+        onTextChange={onTextChange}
+        onIncludeInPromptChange={onIncludeInPromptChange}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText(/Text to send/), { target: { value: 'Soup of the day' } });
+    fireEvent.click(screen.getByLabelText('Send this text to the model with the image'));
+
+    expect(onTextChange).toHaveBeenCalledWith('Soup of the day');
+    expect(onIncludeInPromptChange).toHaveBeenCalledWith(false);
+  });
+
+  it('says so when nothing was found', () => {
+    render(<OcrPanel {...props} result={{ text: '', confidence: 0, lines: [] }} />);
+
+    expect(screen.getByText('No text was found in the marked area.')).toBeInTheDocument();
+  });
+});
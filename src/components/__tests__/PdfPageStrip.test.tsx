@@ -0,0 +1,29 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { PdfPageStrip } from '../PdfPageStrip';
+
+describe('PdfPageStrip', () => {
+  it('marks the current page and selects pages from the strip', () => {
+    const onSelect = vi.fn();
+    render(
+      <PdfPageStrip pageCount={3} currentPage={2} thumbnails={['data:image/jpeg;base64,AA==']} onSelect={onSelect} />
+    );
+
+    expect(screen.getByText('Page 2 of 3')).toBeInTheDocument();
+    expect(screen.getByLabelText('Page 2')).toHaveAttribute('aria-current', 'page');
+    fireEvent.click(screen.getByLabelText('Page 3'));
+    fireEvent.click(screen.getByText('Previous page'));
+
+    expect(onSelect).toHaveBeenNthCalledWith(1, 3);
+    expect(onSelect).toHaveBeenNthCalledWith(2, 1);
+  });
+
+  it('disables navigation past either end and flags pages with markings', () => {
+    render(<PdfPageStrip pageCount={2} currentPage={2} thumbnails={[]} markedPages={[1]} onSelect={vi.fn()} />);
+
+    expect(screen.getByText('Next page')).toBeDisabled();
+    expect(screen.getByText('Previous page')).toBeEnabled();
+    expect(screen.getAllByTitle('Has markings')).toHaveLength(1);
+  });
+});
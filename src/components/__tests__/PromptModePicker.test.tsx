@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { PromptModePicker } from '../PromptModePicker';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_VARIABLES } from '../../../utils/promptTemplates';
+
+describe('PromptModePicker', () => {
+  const handlers = {
+    onSelect: vi.fn(),
+    onVariablesChange: vi.fn(),
+    onSaveTemplate: vi.fn(),
+    onDeleteTemplate: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows inputs only for the variables the selected template uses', () => {
+    render(
+      <PromptModePicker
+        templates={BUILT_IN_TEMPLATES}
+        selectedId="translate"
+        variables={DEFAULT_TEMPLATE_VARIABLES}
+        {...handlers}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Language'), { target: { value: 'Spanish' } });
+
+    expect(handlers.onVariablesChange).toHaveBeenCalledWith({
+      ...DEFAULT_TEMPLATE_VARIABLES,
+      language: 'Spanish',
+    });
+    expect(screen.queryByLabelText('Question')).not.toBeInTheDocument();
+  });
+
+  it('saves a new template based on the selected one', () => {
+    render(
+      <PromptModePicker
+        templates={BUILT_IN_TEMPLATES}
+        selectedId="summarize"
+        variables={DEFAULT_TEMPLATE_VARIABLES}
+        {...handlers}
+      />
+    );
+
+    fireEvent.click(screen.getByText('New template'));
+    fireEvent.change(screen.getByLabelText('Template name'), { target: { value: 'Quiz me' } });
+    fireEvent.change(screen.getByLabelText('Template instructions'), {
+      target: { value: 'Ask me a question about {question}.' },
+    });
+    fireEvent.click(screen.getByText('Save template'));
+
+    expect(handlers.onSaveTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Quiz me', text: 'Ask me a question about {question}.' })
+    );
+    expect(screen.queryByLabelText('Template name')).not.toBeInTheDocument();
+  });
+
+  it('only lets custom templates be edited or deleted', () => {
+    const custom = { id: 'custom-1', name: 'Poem', text: 'Write a poem.' };
+    const { rerender } = render(
+      <PromptModePicker
+        templates={[...BUILT_IN_TEMPLATES, custom]}
+        selectedId="explain"
+        variables={DEFAULT_TEMPLATE_VARIABLES}
+        {...handlers}
+      />
+    );
+    expect(screen.queryByText('Delete')).not.toBeInTheDocument();
+
+    rerender(
+      <PromptModePicker
+        templates={[...BUILT_IN_TEMPLATES, custom]}
+        selectedId="custom-1"
+        variables={DEFAULT_TEMPLATE_VARIABLES}
+        {...handlers}
+      />
+    );
+    fireEvent.click(screen.getByText('Delete'));
+
+    expect(handlers.onDeleteTemplate).toHaveBeenCalledWith('custom-1');
+  });
+});
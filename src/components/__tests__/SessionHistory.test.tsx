@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { SessionHistory } from '../SessionHistory';
+import { SessionSummary } from '../../sessions';
+import { DEFAULT_TEMPLATE_VARIABLES } from '../../../utils/promptTemplates';
+
+const session: SessionSummary = {
+  id: 'session-1',
+  createdAt: 0,
+  imageName: 'receipt.jpg',
+  regions: [],
+  prompt: {
+    templateId: 'explain',
+    templateName: 'Explain',
+    templateText: 'Explain it.',
+    variables: DEFAULT_TEMPLATE_VARIABLES,
+    structured: false,
+  },
+  response: 'A grocery receipt.',
+};
+
+describe('SessionHistory', () => {
+  it('opens and deletes saved sessions', () => {
+    const onOpen = vi.fn();
+    const onDelete = vi.fn();
+    render(
+      <SessionHistory
+        sessions={[session]}
+        storageUsage={{ usage: 2048, quota: 1024 * 1024 }}
+        activeSessionId={null}
+        onOpen={onOpen}
+        onDelete={onDelete}
+        onImport={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('receipt.jpg'));
+    fireEvent.click(screen.getByLabelText('Delete session receipt.jpg'));
+
+    expect(onOpen).toHaveBeenCalledWith('session-1');
+    expect(onDelete).toHaveBeenCalledWith('session-1');
+    expect(screen.getByText('Using 2.0 KB of 1.0 MB available storage.')).toBeInTheDocument();
+  });
+
+  it('passes a chosen session file to onImport', () => {
+    const onImport = vi.fn();
+    render(
+      <SessionHistory sessions={[]} storageUsage={null} activeSessionId={null} onOpen={vi.fn()} onDelete={vi.fn()} onImport={onImport} />
+    );
+    const file = new File(['{}'], 'shared.underline.json', { type: 'application/json' });
+
+    fireEvent.change(screen.getByLabelText('Session file to import'), { target: { files: [file] } });
+
+    expect(onImport).toHaveBeenCalledWith(file);
+  });
+
+  it('explains the empty state', () => {
+    render(
+      <SessionHistory sessions={[]} storageUsage={null} activeSessionId={null} onOpen={vi.fn()} onDelete={vi.fn()} onImport={vi.fn()} />
+    );
+
+    expect(screen.getByText('Explanations you run are saved here on this device.')).toBeInTheDocument();
+  });
+});
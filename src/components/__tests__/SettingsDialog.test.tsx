@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { SettingsDialog } from '../SettingsDialog';
+
+const GEMINI = { provider: 'gemini' as const };
+
+const renderDialog = (overrides = {}) => {
+  const props = {
+    settings: { apiKey: '', model: '' },
+    provider: GEMINI,
+    onSave: vi.fn(),
+    onClose: vi.fn(),
+    ...overrides,
+  };
+  render(<SettingsDialog {...props} />);
+  return props;
+};
+
+describe('SettingsDialog', () => {
+  it('saves the entered key, model and generation settings', () => {
+    const { onSave } = renderDialog();
+
+    fireEvent.change(screen.getByLabelText('API key'), { target: { value: ' AIza-key ' } });
+    fireEvent.change(screen.getByLabelText('Model'), { target: { value: 'gemini-2.5-pro' } });
+    fireEvent.change(screen.getByLabelText('Temperature'), { target: { value: '0.3' } });
+    fireEvent.change(screen.getByLabelText('Thinking budget (tokens)'), { target: { value: '2048' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSave).toHaveBeenCalledWith({
+      apiKey: 'AIza-key',
+      model: 'gemini-2.5-pro',
+      temperature: 0.3,
+      maxOutputTokens: undefined,
+      thinkingBudget: 2048,
+    });
+  });
+
+  it('shows what is wrong instead of saving invalid settings', () => {
+    const { onSave } = renderDialog();
+
+    fireEvent.change(screen.getByLabelText('Max output tokens'), { target: { value: '100000' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSave).not.toHaveBeenCalled();
+    expect(screen.getByLabelText('Max output tokens')).toHaveAttribute('aria-invalid', 'true');
+    expect(screen.getByText(/Output length must be a whole number/)).toBeInTheDocument();
+  });
+
+  it('warns that the key is kept in local storage and can forget it', () => {
+    const { onSave } = renderDialog({ settings: { apiKey: 'AIza-key', model: '' } });
+
+    expect(screen.getByRole('note')).toHaveTextContent("saved unencrypted in this browser's local storage");
+    expect(screen.getByLabelText('API key')).toHaveAttribute('type', 'password');
+    fireEvent.click(screen.getByText('Forget key'));
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({ apiKey: '' }));
+  });
+
+  it('asks for a model name and hides the thinking budget for other providers', () => {
+    renderDialog({ provider: { provider: 'openai-compatible', model: 'llava' } });
+
+    expect(screen.getByLabelText('Model')).toHaveAttribute('placeholder', 'llava');
+    expect(screen.queryByLabelText('Thinking budget (tokens)')).not.toBeInTheDocument();
+  });
+
+  it('leaves the key and model to the server in proxy mode', () => {
+    const { onSave } = renderDialog({ provider: { provider: 'proxy' } });
+
+    expect(screen.queryByLabelText('API key')).not.toBeInTheDocument();
+    expect(screen.queryByLabelText('Model')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Temperature'), { target: { value: '0.5' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSave).toHaveBeenCalledWith(expect.objectContaining({ temperature: 0.5 }));
+  });
+
+  it('closes on Escape without saving', () => {
+    const { onSave, onClose } = renderDialog();
+
+    fireEvent.keyDown(window, { key: 'Escape' });
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onSave).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import '@testing-library/jest-dom';
+import { StructuredExplanationView } from '../StructuredExplanationView';
+
+const explanation = {
+  summary: 'A German warning sign.',
+  extractedText: 'Betreten verboten',
+  language: 'German',
+  explanation: 'It means "no entry".',
+  keyTerms: [{ term: 'Betreten', definition: 'entering' }],
+  confidenceNote: 'The text is sharp.',
+};
+
+describe('StructuredExplanationView', () => {
+  it('renders each field as its own section', () => {
+    render(<StructuredExplanationView explanation={explanation} />);
+
+    expect(screen.getByText('A German warning sign.')).toBeInTheDocument();
+    expect(screen.getByText('Extracted text (German)')).toBeInTheDocument();
+    expect(screen.getByText('It means "no entry".')).toBeInTheDocument();
+    expect(screen.getByText('Betreten:')).toBeInTheDocument();
+    expect(screen.getByText('The text is sharp.')).toBeInTheDocument();
+  });
+
+  it('copies only the extracted text', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    render(<StructuredExplanationView explanation={explanation} />);
+
+    fireEvent.click(screen.getByText('Copy text'));
+
+    expect(writeText).toHaveBeenCalledWith('Betreten verboten');
+    await waitFor(() => expect(screen.getByText('Copied')).toBeInTheDocument());
+  });
+
+  it('omits the extracted text section when nothing textual was marked', () => {
+    render(<StructuredExplanationView explanation={{ ...explanation, extractedText: '' }} />);
+
+    expect(screen.queryByText('Copy text')).not.toBeInTheDocument();
+  });
+});
@@ -1,4 +1,27 @@
 export { ImageUploader } from "./ImageUploader";
 export { InteractiveImageDisplay } from "./InteractiveImageDisplay";
 export { LoadingSpinner } from "./LoadingSpinner";
-export { AlertTriangle, UploadCloud, XCircle, Edit3, Lightbulb } from "./icons";
+export { FollowUpThread } from "./FollowUpThread";
+export { RegionAnswerList } from "./RegionAnswerList";
+export { StructuredExplanationView } from "./StructuredExplanationView";
+export { PromptModePicker } from "./PromptModePicker";
+export { SessionHistory } from "./SessionHistory";
+export { Markdown } from "./Markdown";
+export { CopyAnswerButtons } from "./CopyAnswerButtons";
+export { ErrorBanner } from "./ErrorBanner";
+export { PdfPageStrip } from "./PdfPageStrip";
+export { ImageGallery } from "./ImageGallery";
+export { BatchQueuePanel } from "./BatchQueuePanel";
+export { OcrPanel } from "./OcrPanel";
+export { EntityList } from "./EntityList";
+export { SettingsDialog } from "./SettingsDialog";
+export { ExportSettings, IMAGE_QUALITY_OPTIONS } from "./ExportSettings";
+export {
+  AlertTriangle,
+  UploadCloud,
+  XCircle,
+  Edit3,
+  Lightbulb,
+  StopCircle,
+  Settings,
+} from "./icons";
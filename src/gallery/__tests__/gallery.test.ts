@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  galleryNeighbour,
+  GalleryItem,
+  pastedImageName,
+  removeGalleryItem,
+  updateGalleryItem,
+} from '..';
+
+const file = new File(['x'], 'slide.png', { type: 'image/png' });
+const item = (id: string, ready = true): GalleryItem<number> => ({
+  id,
+  name: `${id}.png`,
+  file: ready ? file : undefined,
+  workspace: 0,
+});
+
+describe('gallery', () => {
+  it('updates and removes items by id', () => {
+    const items = [item('a'), item('b')];
+
+    expect(updateGalleryItem(items, 'b', { workspace: 2 })[1].workspace).toBe(2);
+    expect(removeGalleryItem(items, 'a').map(({ id }) => id)).toEqual(['b']);
+  });
+
+  it('picks the next ready image after a removal, or the previous one at the end', () => {
+    const items = [item('a'), item('b'), item('c', false), item('d')];
+
+    expect(galleryNeighbour(items, 'b')?.id).toBe('d');
+    expect(galleryNeighbour(items, 'd')?.id).toBe('b');
+    expect(galleryNeighbour([item('a')], 'a')).toBeUndefined();
+  });
+
+  it('names pasted images after the time they were pasted', () => {
+    const date = new Date(2024, 2, 5, 9, 7, 3);
+
+    expect(pastedImageName('image/png', date)).toBe('Pasted image 2024-03-05 09.07.03.png');
+    expect(pastedImageName('image/jpeg', date)).toBe('Pasted image 2024-03-05 09.07.03.jpg');
+  });
+});
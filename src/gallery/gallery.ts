@@ -0,0 +1,53 @@
+// The images open in the workspace. Each keeps its own view state so users
+// can switch between them without losing markings or answers.
+
+export interface GalleryItem<T> {
+  id: string;
+  name: string;
+  // Missing while the upload is still being prepared.
+  file?: File;
+  thumbnailUrl?: string;
+  // What was on screen when the user last switched away from this image.
+  workspace: T;
+}
+
+export const createGalleryItemId = (): string =>
+  `image-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const isGalleryItemReady = <T>(
+  item: GalleryItem<T>
+): item is GalleryItem<T> & { file: File } => Boolean(item.file);
+
+export const updateGalleryItem = <T>(
+  items: GalleryItem<T>[],
+  id: string,
+  patch: Partial<Omit<GalleryItem<T>, "id">>
+): GalleryItem<T>[] =>
+  items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+
+export const removeGalleryItem = <T>(
+  items: GalleryItem<T>[],
+  id: string
+): GalleryItem<T>[] => items.filter((item) => item.id !== id);
+
+// The ready image to show after `id` is removed: the next one, or the
+// previous one when `id` was last.
+export const galleryNeighbour = <T>(
+  items: GalleryItem<T>[],
+  id: string
+): (GalleryItem<T> & { file: File }) | undefined => {
+  const index = items.findIndex((item) => item.id === id);
+  if (index === -1) return undefined;
+  return [...items.slice(index + 1), ...items.slice(0, index).reverse()].find(
+    isGalleryItemReady
+  );
+};
+
+// A readable name for an image pasted from the clipboard, which browsers
+// usually call "image.png".
+export const pastedImageName = (type: string, date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}`;
+  const extension = type.replace(/^image\//, "").replace("jpeg", "jpg");
+  return `Pasted image ${stamp}.${extension || "png"}`;
+};
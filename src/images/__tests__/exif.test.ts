@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { clearExifOrientation, readExifOrientation, swapsDimensions } from '..';
+
+// A JPEG header with an EXIF block holding a single orientation entry.
+const jpegWithOrientation = (orientation: number, littleEndian = false) => {
+  const buffer = new ArrayBuffer(2 + 2 + 2 + 6 + 8 + 2 + 12 + 4);
+  const view = new DataView(buffer);
+  view.setUint16(0, 0xffd8);
+  view.setUint16(2, 0xffe1);
+  view.setUint16(4, buffer.byteLength - 4);
+  [0x45, 0x78, 0x69, 0x66, 0, 0].forEach((byte, i) => view.setUint8(6 + i, byte));
+  const tiff = 12;
+  view.setUint16(tiff, littleEndian ? 0x4949 : 0x4d4d);
+  view.setUint16(tiff + 2, 42, littleEndian);
+  view.setUint32(tiff + 4, 8, littleEndian);
+  view.setUint16(tiff + 8, 1, littleEndian);
+  view.setUint16(tiff + 10, 0x0112, littleEndian);
+  view.setUint16(tiff + 12, 3, littleEndian);
+  view.setUint32(tiff + 14, 1, littleEndian);
+  view.setUint16(tiff + 18, orientation, littleEndian);
+  return buffer;
+};
+
+describe('EXIF orientation', () => {
+  it('reads the orientation in either byte order', () => {
+    expect(readExifOrientation(jpegWithOrientation(6))).toBe(6);
+    expect(readExifOrientation(jpegWithOrientation(3, true))).toBe(3);
+  });
+
+  it('treats files without a usable tag as upright', () => {
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+    expect(readExifOrientation(jpegWithOrientation(42))).toBe(1);
+  });
+
+  it('clears the tag in a copy so browsers do not rotate again', () => {
+    const original = jpegWithOrientation(8, true);
+    const cleared = clearExifOrientation(original);
+
+    expect(readExifOrientation(cleared)).toBe(1);
+    expect(readExifOrientation(original)).toBe(8);
+  });
+
+  it('knows which orientations swap width and height', () => {
+    expect([1, 2, 3, 4, 5, 6, 7, 8].map((o) => swapsDimensions(o as 1))).toEqual([
+      false, false, false, false, true, true, true, true,
+    ]);
+  });
+});
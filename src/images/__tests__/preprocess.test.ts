@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { planImage, preprocessImage, validateImageFile } from '..';
+
+const photo = { type: 'image/jpeg', size: 1024, width: 800, height: 600, orientation: 1 as const };
+
+describe('image preprocessing', () => {
+  it('keeps small upright images in common formats as they are', () => {
+    const plan = planImage(photo);
+
+    expect(plan.reencode).toBe(false);
+    expect(plan.notes).toEqual([]);
+  });
+
+  it('rotates sideways photos and swaps their dimensions', () => {
+    const plan = planImage({ ...photo, orientation: 6 });
+
+    expect(plan.reencode).toBe(true);
+    expect([plan.width, plan.height]).toEqual([600, 800]);
+    expect(plan.notes).toEqual(['Rotated to match the camera orientation.']);
+  });
+
+  it('caps the longest side', () => {
+    const plan = planImage({ ...photo, width: 4000, height: 3000 }, { maxDimension: 2000 });
+
+    expect([plan.width, plan.height]).toEqual([2000, 1500]);
+    expect(plan.notes).toEqual(['Resized from 4000×3000 to 2000×1500.']);
+  });
+
+  it('recompresses files over the size limit', () => {
+    const plan = planImage({ ...photo, size: 8 * 1024 * 1024 }, { maxBytes: 4 * 1024 * 1024 });
+
+    expect(plan.reencode).toBe(true);
+    expect(plan.notes).toEqual(['Compressed from 8.0 MB.']);
+  });
+
+  it('converts unusual formats, keeping PNG for formats with transparency', () => {
+    expect(planImage({ ...photo, type: 'image/bmp' })).toMatchObject({
+      outputType: 'image/jpeg',
+      notes: ['Converted from BMP to JPEG.'],
+    });
+    expect(planImage({ ...photo, type: 'image/png' }).outputType).toBe('image/png');
+  });
+
+  it('validates the file before reading it', () => {
+    expect(validateImageFile(new File(['x'], 'notes.txt', { type: 'text/plain' }))).toBe(
+      'Please select a valid image file (e.g., PNG, JPG, GIF).'
+    );
+    expect(validateImageFile(new File(['x'], 'a.png', { type: 'image/png' }))).toBeNull();
+  });
+
+  it('reports files the browser cannot decode', async () => {
+    const file = new File(['not really an image'], 'photo.heic', { type: 'image/heic' });
+
+    await expect(preprocessImage(file)).rejects.toThrow(
+      "This browser can't open photo.heic (HEIC). Export the photo as JPEG or PNG and try again."
+    );
+  });
+});
@@ -0,0 +1,103 @@
+// Minimal EXIF reader: only the orientation tag of JPEG files matters here.
+
+// EXIF orientation values 1-8; 1 means the pixels are stored upright.
+export type Orientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+const ORIENTATION_TAG = 0x0112;
+const SOI = 0xffd8;
+const APP1 = 0xffe1;
+const SOS = 0xffda;
+const EXIF_HEADER = 0x45786966; // "Exif"
+
+// Byte offset of the orientation value and its endianness, or null when the
+// file is not a JPEG or has no orientation tag.
+const findOrientation = (
+  buffer: ArrayBuffer
+): { offset: number; littleEndian: boolean } | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== SOI) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === SOS) return null;
+    const length = view.getUint16(offset + 2);
+    if (marker === APP1 && view.getUint32(offset + 4) === EXIF_HEADER) {
+      const tiff = offset + 10;
+      const littleEndian = view.getUint16(tiff) === 0x4949; // "II"
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      const end = Math.min(view.byteLength, offset + 2 + length);
+      if (ifd + 2 > end) return null;
+      const entries = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > end) return null;
+        if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+          return { offset: entry + 8, littleEndian };
+        }
+      }
+      return null;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+export const readExifOrientation = (buffer: ArrayBuffer): Orientation => {
+  const found = findOrientation(buffer);
+  if (!found) return 1;
+  const value = new DataView(buffer).getUint16(
+    found.offset,
+    found.littleEndian
+  );
+  return value >= 1 && value <= 8 ? (value as Orientation) : 1;
+};
+
+// A copy of the file whose orientation tag says "upright". Browsers apply
+// the tag when decoding; clearing it first means the rotation is applied
+// exactly once, by us.
+export const clearExifOrientation = (buffer: ArrayBuffer): ArrayBuffer => {
+  const copy = buffer.slice(0);
+  const found = findOrientation(copy);
+  if (found) new DataView(copy).setUint16(found.offset, 1, found.littleEndian);
+  return copy;
+};
+
+// Orientations 5-8 store the image rotated by a quarter turn.
+export const swapsDimensions = (orientation: Orientation): boolean =>
+  orientation >= 5;
+
+// Sets up `ctx` so that drawing the stored pixels at (0, 0) with their
+// stored size produces an upright `width` x `height` image.
+export const applyOrientationTransform = (
+  ctx: CanvasRenderingContext2D,
+  orientation: Orientation,
+  width: number,
+  height: number
+) => {
+  switch (orientation) {
+    case 2:
+      ctx.setTransform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3:
+      ctx.setTransform(-1, 0, 0, -1, width, height);
+      break;
+    case 4:
+      ctx.setTransform(1, 0, 0, -1, 0, height);
+      break;
+    case 5:
+      ctx.setTransform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6:
+      ctx.setTransform(0, 1, -1, 0, width, 0);
+      break;
+    case 7:
+      ctx.setTransform(0, -1, -1, 0, width, height);
+      break;
+    case 8:
+      ctx.setTransform(0, -1, 1, 0, 0, height);
+      break;
+    default:
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+  }
+};
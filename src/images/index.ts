@@ -0,0 +1,3 @@
+export * from "./exif";
+export * from "./load";
+export * from "./preprocess";
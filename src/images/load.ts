@@ -0,0 +1,16 @@
+// Loads a file into an <img> for drawing onto a canvas. The object URL is
+// released once the image has decoded.
+export const loadImageElement = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not load the image."));
+    };
+    img.src = url;
+  });
@@ -0,0 +1,316 @@
+import {
+  applyOrientationTransform,
+  clearExifOrientation,
+  Orientation,
+  readExifOrientation,
+  swapsDimensions,
+} from "./exif";
+import { loadImageElement } from "./load";
+
+export interface PreprocessOptions {
+  // Longest side of the prepared image in pixels.
+  maxDimension?: number;
+  // Prepared images larger than this are re-encoded at lower quality or size.
+  maxBytes?: number;
+  // Files larger than this are refused without trying to decode them.
+  maxInputBytes?: number;
+}
+
+export interface PreparedImage {
+  // The original file when nothing needed changing.
+  file: File;
+  width: number;
+  height: number;
+  // Human-readable changes, e.g. "Rotated to match the camera orientation."
+  notes: string[];
+}
+
+export interface ImagePlan {
+  width: number;
+  height: number;
+  orientation: Orientation;
+  outputType: "image/png" | "image/jpeg";
+  // False when the original file can be used as is.
+  reencode: boolean;
+  notes: string[];
+}
+
+export const DEFAULT_MAX_IMAGE_DIMENSION = 2048;
+export const DEFAULT_MAX_IMAGE_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_MAX_INPUT_BYTES = 40 * 1024 * 1024;
+
+// Formats every browser decodes and every provider accepts.
+const PASSTHROUGH_TYPES = new Set([
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+]);
+// Formats that may carry transparency, which JPEG would lose.
+const ALPHA_TYPES = new Set(["image/png", "image/gif", "image/webp"]);
+const JPEG_QUALITIES = [0.9, 0.8, 0.7];
+// How much to shrink each time the lowest quality is still too large.
+const SHRINK_FACTOR = 0.75;
+const MAX_SHRINK_STEPS = 4;
+
+const formatMegabytes = (bytes: number) =>
+  `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const formatLabel = (type: string) =>
+  type.replace(/^image\//, "").toUpperCase() || "this";
+
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith("image/");
+
+// Checks that can run before reading the file; returns a message for the
+// user, or null when the file is worth decoding.
+export const validateImageFile = (
+  file: File,
+  { maxInputBytes = DEFAULT_MAX_INPUT_BYTES }: PreprocessOptions = {}
+): string | null => {
+  if (!isImageFile(file)) {
+    return "Please select a valid image file (e.g., PNG, JPG, GIF).";
+  }
+  if (file.size > maxInputBytes) {
+    return `${file.name} is ${formatMegabytes(file.size)}; images up to ${formatMegabytes(maxInputBytes)} are supported.`;
+  }
+  return null;
+};
+
+// Decides what has to happen to a decoded image. `width` and `height` are
+// the stored pixel dimensions, before orientation is applied.
+export const planImage = (
+  {
+    type,
+    size,
+    width,
+    height,
+    orientation,
+  }: {
+    type: string;
+    size: number;
+    width: number;
+    height: number;
+    orientation: Orientation;
+  },
+  {
+    maxDimension = DEFAULT_MAX_IMAGE_DIMENSION,
+    maxBytes = DEFAULT_MAX_IMAGE_BYTES,
+  }: PreprocessOptions = {}
+): ImagePlan => {
+  const notes: string[] = [];
+  const [uprightWidth, uprightHeight] = swapsDimensions(orientation)
+    ? [height, width]
+    : [width, height];
+  const scale = Math.min(
+    1,
+    maxDimension / Math.max(uprightWidth, uprightHeight)
+  );
+  const plan: ImagePlan = {
+    width: Math.max(1, Math.round(uprightWidth * scale)),
+    height: Math.max(1, Math.round(uprightHeight * scale)),
+    orientation,
+    outputType: ALPHA_TYPES.has(type) ? "image/png" : "image/jpeg",
+    reencode: false,
+    notes,
+  };
+
+  if (orientation !== 1) {
+    notes.push("Rotated to match the camera orientation.");
+  }
+  if (scale < 1) {
+    notes.push(
+      `Resized from ${uprightWidth}×${uprightHeight} to ${plan.width}×${plan.height}.`
+    );
+  }
+  if (!PASSTHROUGH_TYPES.has(type)) {
+    notes.push(
+      `Converted from ${formatLabel(type)} to ${formatLabel(plan.outputType)}.`
+    );
+  } else if (size > maxBytes && scale === 1) {
+    notes.push(`Compressed from ${formatMegabytes(size)}.`);
+  }
+  plan.reencode = notes.length > 0;
+  return plan;
+};
+
+const readAsArrayBuffer = (file: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  close: () => void;
+}
+
+const decodeWithImageElement = async (blob: Blob): Promise<DecodedImage> => {
+  const img = await loadImageElement(blob);
+  return {
+    source: img,
+    width: img.naturalWidth,
+    height: img.naturalHeight,
+    close: () => {},
+  };
+};
+
+const decodeImage = async (blob: Blob): Promise<DecodedImage> => {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bitmap = await createImageBitmap(blob);
+      return {
+        source: bitmap,
+        width: bitmap.width,
+        height: bitmap.height,
+        close: () => bitmap.close(),
+      };
+    } catch {
+      // Some formats only decode through <img>, e.g. SVG.
+    }
+  }
+  return decodeWithImageElement(blob);
+};
+
+const undecodableMessage = (file: File) =>
+  file.type === "image/heic" || file.type === "image/heif"
+    ? `This browser can't open ${file.name} (HEIC). Export the photo as JPEG or PNG and try again.`
+    : `Couldn't read ${file.name}. The file may be damaged, or ${formatLabel(file.type)} images aren't supported by this browser.`;
+
+const canvasToBlob = (
+  canvas: HTMLCanvasElement,
+  type: string,
+  quality?: number
+): Promise<Blob> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not encode the image.")),
+      type,
+      quality
+    )
+  );
+
+const renderPlan = (
+  image: DecodedImage,
+  orientation: Orientation,
+  type: string,
+  width: number,
+  height: number
+): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Could not prepare the image: canvas unavailable.");
+  if (type === "image/jpeg") {
+    // JPEG has no transparency; match what a viewer shows behind it.
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+  }
+  applyOrientationTransform(ctx, orientation, width, height);
+  const [drawWidth, drawHeight] = swapsDimensions(orientation)
+    ? [height, width]
+    : [width, height];
+  ctx.drawImage(image.source, 0, 0, drawWidth, drawHeight);
+  return canvas;
+};
+
+// Encodes the plan, falling back from PNG to JPEG, then to lower JPEG
+// quality and finally to smaller sizes until the result fits.
+const encodePlan = async (
+  image: DecodedImage,
+  plan: ImagePlan,
+  maxBytes: number
+): Promise<{ blob: Blob; width: number; height: number }> => {
+  const encodings: { type: string; quality?: number }[] = [
+    ...(plan.outputType === "image/png" ? [{ type: "image/png" }] : []),
+    ...JPEG_QUALITIES.map((quality) => ({ type: "image/jpeg", quality })),
+  ];
+  let { width, height } = plan;
+  for (let shrinks = 0; ; shrinks++) {
+    const canvases = new Map<string, HTMLCanvasElement>();
+    let blob: Blob | null = null;
+    for (const { type, quality } of encodings) {
+      const canvas =
+        canvases.get(type) ??
+        renderPlan(image, plan.orientation, type, width, height);
+      canvases.set(type, canvas);
+      blob = await canvasToBlob(canvas, type, quality);
+      if (blob.size <= maxBytes) return { blob, width, height };
+    }
+    if (shrinks >= MAX_SHRINK_STEPS) return { blob: blob!, width, height };
+    width = Math.max(1, Math.round(width * SHRINK_FACTOR));
+    height = Math.max(1, Math.round(height * SHRINK_FACTOR));
+  }
+};
+
+const renameFor = (name: string, type: string) =>
+  `${name.replace(/\.[^.]+$/, "")}.${type === "image/png" ? "png" : "jpg"}`;
+
+// Turns an uploaded file into one that is upright, of bounded size and in a
+// format the providers accept. Throws an Error with a user-facing message
+// when the file can't be used.
+export const preprocessImage = async (
+  file: File,
+  options: PreprocessOptions = {}
+): Promise<PreparedImage> => {
+  const invalid = validateImageFile(file, options);
+  if (invalid) throw new Error(invalid);
+
+  const buffer = await readAsArrayBuffer(file);
+  const orientation =
+    file.type === "image/jpeg" ? readExifOrientation(buffer) : 1;
+  const decodable =
+    orientation === 1
+      ? file
+      : new Blob([clearExifOrientation(buffer)], { type: file.type });
+
+  let image: DecodedImage;
+  try {
+    image = await decodeImage(decodable);
+  } catch {
+    throw new Error(undecodableMessage(file));
+  }
+
+  try {
+    const plan = planImage(
+      {
+        type: file.type,
+        size: file.size,
+        width: image.width,
+        height: image.height,
+        orientation,
+      },
+      options
+    );
+    if (!plan.reencode) {
+      return { file, width: plan.width, height: plan.height, notes: [] };
+    }
+    const { blob, width, height } = await encodePlan(
+      image,
+      plan,
+      options.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES
+    );
+    const notes = [...plan.notes];
+    if (width < plan.width || blob.type !== plan.outputType) {
+      notes.push(
+        `Saved as a ${width}×${height} ${formatLabel(blob.type)} to stay under ${formatMegabytes(options.maxBytes ?? DEFAULT_MAX_IMAGE_BYTES)}.`
+      );
+    }
+    return {
+      file: new File([blob], renameFor(file.name, blob.type), {
+        type: blob.type,
+      }),
+      width,
+      height,
+      notes,
+    };
+  } finally {
+    image.close();
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Page } from 'tesseract.js';
+
+const tesseract = vi.hoisted(() => ({
+  createWorker: vi.fn(),
+  OEM: { LSTM_ONLY: 1 },
+}));
+vi.mock('tesseract.js', () => tesseract);
+vi.mock('tesseract.js/dist/worker.min.js?url', () => ({ default: '/assets/worker.min.js' }));
+vi.mock('tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url', () => ({ default: '/assets/core.wasm.js' }));
+
+import { createOcrEngine, isLowConfidence, pageToOcrResult } from '..';
+
+const word = (text: string, confidence: number) => ({ text, confidence });
+
+const page = (lines: { text: string; confidence: number }[][]): Page =>
+  ({
+    text: lines.map((words) => words.map((w) => w.text).join(' ')).join('\n') + '\n',
+    confidence: 80,
+    blocks: [{ paragraphs: [{ lines: lines.map((words) => ({ words })) }] }],
+  }) as unknown as Page;
+
+describe('OCR results', () => {
+  it('flattens blocks into lines of words with their confidence', () => {
+    const result = pageToOcrResult(page([[word('Soupe', 96), word('du', 91)], [word(' ', 0)], [word('jour', 42)]]));
+
+    expect(result).toEqual({
+      text: 'Soupe du\n \njour',
+      confidence: 80,
+      lines: [[word('Soupe', 96), word('du', 91)], [word('jour', 42)]],
+    });
+  });
+
+  it('copes with pages that have no blocks', () => {
+    expect(pageToOcrResult({ text: '', confidence: 0, blocks: null } as unknown as Page).lines).toEqual([]);
+  });
+
+  it('flags words below the confidence threshold', () => {
+    expect(isLowConfidence(word('jour', 42))).toBe(true);
+    expect(isLowConfidence(word('Soupe', 96))).toBe(false);
+  });
+});
+
+describe('OCR engine', () => {
+  beforeEach(() => {
+    tesseract.createWorker.mockReset();
+  });
+
+  it('starts one worker from the bundled assets and reuses it', async () => {
+    const recognize = vi.fn(async () => ({ data: page([[word('Hello', 90)]]) }));
+    tesseract.createWorker.mockResolvedValue({ recognize, terminate: vi.fn() });
+    const engine = createOcrEngine();
+
+    await engine.recognize('data:image/png;base64,AA==');
+    const result = await engine.recognize('data:image/png;base64,BB==');
+
+    expect(result.text).toBe('Hello');
+    expect(tesseract.createWorker).toHaveBeenCalledTimes(1);
+    const [langs, , options] = tesseract.createWorker.mock.calls[0];
+    expect(langs).toBe('eng');
+    expect(options).toMatchObject({
+      workerPath: '/assets/worker.min.js',
+      corePath: '/assets/core.wasm.js',
+      langPath: '/tesseract',
+      gzip: true,
+      cacheMethod: 'none',
+    });
+  });
+
+  it('sends progress to the caller of the running recognition', async () => {
+    let logger: (message: { status: string; progress: number }) => void = () => {};
+    tesseract.createWorker.mockImplementation(async (_langs, _oem, options) => {
+      logger = options.logger;
+      return {
+        recognize: async () => {
+          logger({ status: 'recognizing text', progress: 0.5 });
+          return { data: page([]) };
+        },
+        terminate: vi.fn(),
+      };
+    });
+    const onProgress = vi.fn();
+
+    await createOcrEngine().recognize('data:image/png;base64,AA==', onProgress);
+    logger({ status: 'recognizing text', progress: 1 });
+
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(onProgress).toHaveBeenCalledWith({ status: 'recognizing text', progress: 0.5 });
+  });
+
+  it('tries to start the worker again after a failed start', async () => {
+    tesseract.createWorker
+      .mockRejectedValueOnce(new Error('no wasm'))
+      .mockResolvedValue({ recognize: async () => ({ data: page([]) }), terminate: vi.fn() });
+    const engine = createOcrEngine();
+
+    await expect(engine.recognize('data:image/png;base64,AA==')).rejects.toThrow('no wasm');
+    await expect(engine.recognize('data:image/png;base64,AA==')).resolves.toMatchObject({ lines: [] });
+  });
+});
@@ -0,0 +1,59 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { createWorker, OEM } from 'tesseract.js';
+import { LANGUAGE_DATA_DIR, pageToOcrResult } from '..';
+
+const root = path.resolve(__dirname, '../../..');
+const langPath = path.join(root, 'public', LANGUAGE_DATA_DIR);
+
+// A 5x7 pixel font, enough to spell HELLO.
+const GLYPHS: Record<string, string[]> = {
+  H: ['10001', '10001', '10001', '11111', '10001', '10001', '10001'],
+  E: ['11111', '10000', '10000', '11110', '10000', '10000', '11111'],
+  L: ['10000', '10000', '10000', '10000', '10000', '10000', '11111'],
+  O: ['01110', '10001', '10001', '10001', '10001', '10001', '01110'],
+};
+
+// Black text on white as a binary PGM, which Tesseract reads without a decoder.
+const textImage = (text: string, scale = 6, margin = 20) => {
+  const width = margin * 2 + text.length * 6 * scale;
+  const height = margin * 2 + 7 * scale;
+  const pixels = Buffer.alloc(width * height, 255);
+  [...text].forEach((char, i) =>
+    GLYPHS[char].forEach((row, y) =>
+      [...row].forEach((bit, x) => {
+        if (bit !== '1') return;
+        for (let dy = 0; dy < scale; dy++) {
+          const start = (margin + y * scale + dy) * width + margin + (i * 6 + x) * scale;
+          pixels.fill(0, start, start + scale);
+        }
+      })
+    )
+  );
+  return Buffer.concat([Buffer.from(`P5\n${width} ${height}\n255\n`), pixels]);
+};
+
+// Not mocked: a real Tesseract worker, started the way the app starts it.
+describe('OCR worker', () => {
+  it('reads text with the English model served with the app', async () => {
+    const worker = await createWorker('eng', OEM.LSTM_ONLY, { langPath, gzip: true, cacheMethod: 'none' });
+    try {
+      const { data } = await worker.recognize(textImage('HELLO'), {}, { text: true, blocks: true });
+
+      expect(pageToOcrResult(data)).toMatchObject({ text: 'HELLO', lines: [[{ text: 'HELLO' }]] });
+    } finally {
+      await worker.terminate();
+    }
+  }, 60_000);
+
+  it('serves the same model as the installed language package', async () => {
+    const [served, installed] = await Promise.all([
+      readFile(path.join(langPath, 'eng.traineddata.gz')),
+      readFile(path.join(root, 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz')),
+    ]);
+
+    expect(served.equals(installed)).toBe(true);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Page, Worker } from "tesseract.js";
+
+export interface OcrWord {
+  text: string;
+  // Tesseract's confidence, 0-100.
+  confidence: number;
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+  // Recognised words, one list per line of text.
+  lines: OcrWord[][];
+}
+
+export interface OcrProgress {
+  // e.g. "loading language traineddata" or "recognizing text".
+  status: string;
+  // 0-1 for the current status.
+  progress: number;
+}
+
+export interface OcrEngine {
+  recognize: (
+    imageDataUrl: string,
+    onProgress?: (progress: OcrProgress) => void
+  ) => Promise<OcrResult>;
+  terminate: () => Promise<void>;
+}
+
+// Words below this confidence are flagged for the user to check.
+export const LOW_CONFIDENCE = 60;
+
+export const isLowConfidence = (word: OcrWord): boolean =>
+  word.confidence < LOW_CONFIDENCE;
+
+// Flattens Tesseract's block > paragraph > line > word tree into lines of
+// words, dropping empty ones.
+export const pageToOcrResult = ({ text, confidence, blocks }: Page) => ({
+  text: text.trim(),
+  confidence,
+  lines: (blocks ?? [])
+    .flatMap((block) => block.paragraphs)
+    .flatMap((paragraph) => paragraph.lines)
+    .map((line) =>
+      line.words
+        .filter((word) => word.text.trim() !== "")
+        .map((word) => ({ text: word.text, confidence: word.confidence }))
+    )
+    .filter((words) => words.length > 0),
+});
+
+// The English model, copied from @tesseract.js-data/eng/4.0.0_best_int into
+// public/ so it has a stable URL. Tesseract fetches
+// `<langPath>/eng.traineddata.gz` itself.
+export const LANGUAGE_DATA_DIR = "tesseract";
+
+// Tesseract, its WASM core and the English model are served with the app
+// and only loaded the first time someone asks for OCR, so recognition works
+// offline and never sends the image anywhere.
+const loadTesseract = async () => {
+  const [tesseract, worker, core] = await Promise.all([
+    import("tesseract.js"),
+    import("tesseract.js/dist/worker.min.js?url"),
+    // Every browser we support has WASM SIMD.
+    import("tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url"),
+  ]);
+  return {
+    tesseract,
+    workerPath: worker.default,
+    corePath: core.default,
+    // Absolute, as the worker resolves relative URLs against its own script
+    langPath: `${import.meta.env.BASE_URL}${LANGUAGE_DATA_DIR}`,
+  };
+};
+
+// One Tesseract worker, started on first use and reused afterwards.
+// Recognitions run one at a time; progress goes to the caller of the
+// current one.
+export const createOcrEngine = (): OcrEngine => {
+  let reportProgress: ((progress: OcrProgress) => void) | undefined;
+  let worker: Promise<Worker> | null = null;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const startWorker = async () => {
+    const { tesseract, workerPath, corePath, langPath } = await loadTesseract();
+    return tesseract.createWorker("eng", tesseract.OEM.LSTM_ONLY, {
+      workerPath,
+      corePath,
+      langPath,
+      gzip: true,
+      workerBlobURL: false,
+      // The model comes from our own server, which the browser caches
+      cacheMethod: "none",
+      logger: ({ status, progress }) => reportProgress?.({ status, progress }),
+    });
+  };
+
+  const getWorker = () => {
+    if (!worker) {
+      const starting = startWorker();
+      // A failed start is retried next time instead of being cached
+      starting.catch(() => {
+        if (worker === starting) worker = null;
+      });
+      worker = starting;
+    }
+    return worker;
+  };
+
+  return {
+    recognize: (imageDataUrl, onProgress) => {
+      const run = queue.then(async () => {
+        reportProgress = onProgress;
+        try {
+          const { data } = await (
+            await getWorker()
+          ).recognize(imageDataUrl, {}, { text: true, blocks: true });
+          return pageToOcrResult(data);
+        } finally {
+          reportProgress = undefined;
+        }
+      });
+      queue = run.catch(() => {});
+      return run;
+    },
+    terminate: async () => {
+      const current = worker;
+      worker = null;
+      if (current) await (await current).terminate();
+    },
+  };
+};
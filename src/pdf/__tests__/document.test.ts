@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { isPdfFile, pageImageName, textItemsToString } from '..';
+
+describe('PDF documents', () => {
+  it('recognises PDFs by type or extension', () => {
+    expect(isPdfFile(new File(['%PDF'], 'paper.pdf', { type: 'application/pdf' }))).toBe(true);
+    expect(isPdfFile(new File(['%PDF'], 'MANUAL.PDF', { type: '' }))).toBe(true);
+    expect(isPdfFile(new File(['x'], 'photo.png', { type: 'image/png' }))).toBe(false);
+  });
+
+  it('names page images after the document and page', () => {
+    expect(pageImageName('paper.pdf', 3)).toBe('paper-p3.png');
+  });
+
+  it('joins text items into lines', () => {
+    const text = textItemsToString([
+      { str: 'Chapter', hasEOL: false },
+      { str: ' 1 ', hasEOL: true },
+      {},
+      { str: 'Energy is conserved.', hasEOL: true },
+      { str: '', hasEOL: true },
+      { str: '', hasEOL: true },
+      { str: 'Next paragraph' },
+    ]);
+
+    expect(text).toBe('Chapter 1\nEnergy is conserved.\n\nNext paragraph');
+  });
+});
@@ -0,0 +1,136 @@
+import type { PDFDocumentProxy } from "pdfjs-dist";
+
+export interface PdfDocument {
+  name: string;
+  pageCount: number;
+  // Renders a page (1-based) as a PNG whose longest side is `maxDimension`.
+  renderPage: (pageNumber: number, maxDimension?: number) => Promise<File>;
+  // A small JPEG data URL for the page strip.
+  renderThumbnail: (pageNumber: number) => Promise<string>;
+  // The page's text layer; empty for scanned pages without one.
+  getPageText: (pageNumber: number) => Promise<string>;
+  destroy: () => void;
+}
+
+// Pieces of a page's text layer; marked-content entries have no `str`.
+export interface PdfTextItem {
+  str?: string;
+  hasEOL?: boolean;
+}
+
+export const DEFAULT_PAGE_MAX_DIMENSION = 2048;
+const THUMBNAIL_MAX_DIMENSION = 160;
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+
+// Name for the image of one page, e.g. "paper.pdf" page 3 -> "paper-p3.png".
+export const pageImageName = (pdfName: string, pageNumber: number): string =>
+  `${pdfName.replace(/\.pdf$/i, "")}-p${pageNumber}.png`;
+
+// Joins text items the way they are laid out: items on one line are
+// concatenated and `hasEOL` starts a new line.
+export const textItemsToString = (items: PdfTextItem[]): string =>
+  items
+    .map(({ str = "", hasEOL }) => (hasEOL ? `${str}\n` : str))
+    .join("")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+// pdf.js is large, so it is only loaded once someone opens a PDF.
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+const readAsArrayBuffer = (file: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+const renderToCanvas = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  maxDimension: number
+): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+  try {
+    const { width, height } = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({
+      scale: maxDimension / Math.max(width, height),
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Could not render the page: canvas unavailable.");
+    // PDF pages are transparent where nothing is drawn; show them on paper.
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: ctx, viewport }).promise;
+    return canvas;
+  } finally {
+    page.cleanup();
+  }
+};
+
+const canvasToFile = (canvas: HTMLCanvasElement, name: string): Promise<File> =>
+  new Promise((resolve, reject) =>
+    canvas.toBlob((blob) =>
+      blob
+        ? resolve(new File([blob], name, { type: "image/png" }))
+        : reject(new Error("Could not encode the page image."))
+    )
+  );
+
+// Opens a PDF for page-by-page rendering. Throws an Error with a user-facing
+// message when the file is not a readable PDF.
+export const loadPdf = async (file: File): Promise<PdfDocument> => {
+  const pdfjs = await loadPdfJs();
+  const data = await readAsArrayBuffer(file);
+  let pdf: PDFDocumentProxy;
+  try {
+    pdf = await pdfjs.getDocument({ data }).promise;
+  } catch (err) {
+    const name = err instanceof Error ? err.name : "";
+    throw new Error(
+      name === "PasswordException"
+        ? `${file.name} is password-protected. Remove the password and try again.`
+        : `Couldn't open ${file.name}. The file may be damaged or not a PDF.`
+    );
+  }
+
+  return {
+    name: file.name,
+    pageCount: pdf.numPages,
+    renderPage: async (pageNumber, maxDimension = DEFAULT_PAGE_MAX_DIMENSION) =>
+      canvasToFile(
+        await renderToCanvas(pdf, pageNumber, maxDimension),
+        pageImageName(file.name, pageNumber)
+      ),
+    renderThumbnail: async (pageNumber) =>
+      (
+        await renderToCanvas(pdf, pageNumber, THUMBNAIL_MAX_DIMENSION)
+      ).toDataURL("image/jpeg", 0.7),
+    getPageText: async (pageNumber) => {
+      const page = await pdf.getPage(pageNumber);
+      try {
+        const { items } = await page.getTextContent();
+        return textItemsToString(items as PdfTextItem[]);
+      } finally {
+        page.cleanup();
+      }
+    },
+    destroy: () => {
+      void pdf.destroy();
+    },
+  };
+};
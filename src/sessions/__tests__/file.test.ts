@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSessionFile,
+  PortableSession,
+  serializeSession,
+  SESSION_FILE_FORMAT,
+  SESSION_FILE_VERSION,
+  sessionFileName,
+} from '..';
+import { DEFAULT_TEMPLATE_VARIABLES } from '../../../utils/promptTemplates';
+
+const session: PortableSession = {
+  createdAt: 1700000000000,
+  imageName: 'menu.jpg',
+  image: { name: 'menu.jpg', type: 'image/jpeg', data: new Uint8Array([255, 216, 255, 0, 1]).buffer },
+  regions: [
+    {
+      id: 0,
+      question: 'translate this',
+      annotations: [
+        { id: 0, tool: 'highlighter', points: [{ x: 10, y: 20 }, { x: 200, y: 20 }], style: { color: '#facc15', width: 18 } },
+        { id: 1, tool: 'rectangle', points: [{ x: 5, y: 5 }, { x: 210, y: 40 }], style: { color: '#3b82f6', width: 2 } },
+      ],
+    },
+  ],
+  prompt: {
+    templateId: 'translate',
+    templateName: 'Translate',
+    templateText: 'Translate the marked text into {language}.',
+    variables: { ...DEFAULT_TEMPLATE_VARIABLES, language: 'English' },
+    structured: false,
+  },
+  response: 'Soup of the day.',
+};
+
+describe('session files', () => {
+  it('round-trips a session including the image bytes', () => {
+    const restored = parseSessionFile(serializeSession(session));
+
+    expect(restored).toMatchObject({ ...session, image: { name: 'menu.jpg', type: 'image/jpeg' } });
+    expect(new Uint8Array(restored.image.data)).toEqual(new Uint8Array([255, 216, 255, 0, 1]));
+  });
+
+  it('writes the current format version', () => {
+    expect(JSON.parse(serializeSession(session))).toMatchObject({ format: SESSION_FILE_FORMAT, version: SESSION_FILE_VERSION });
+  });
+
+  it('rejects a format version it has no migration for', () => {
+    const file = { ...JSON.parse(serializeSession(session)), version: 0 };
+
+    expect(() => parseSessionFile(JSON.stringify(file))).toThrow(
+      'Invalid session file: version must be a supported format version.'
+    );
+  });
+
+  it('reports exactly which field is invalid', () => {
+    const file = JSON.parse(serializeSession(session));
+    file.session.regions[0].annotations[1].tool = 'laser';
+
+    expect(() => parseSessionFile(JSON.stringify(file))).toThrow(
+      'Invalid session file: session.regions[0].annotations[1].tool must be a known tool.'
+    );
+  });
+
+  it('keeps stylus pressures and validates them', () => {
+    const stroke = {
+      id: 2,
+      tool: 'pen' as const,
+      points: [{ x: 0, y: 0 }, { x: 40, y: 10 }],
+      pressures: [0.3, 0.8],
+      style: { color: '#ef4444', width: 3 },
+    };
+    const withPressure = { ...session, regions: [{ ...session.regions[0], annotations: [stroke] }] };
+
+    expect(parseSessionFile(serializeSession(withPressure)).regions[0].annotations[0].pressures).toEqual([0.3, 0.8]);
+
+    const file = JSON.parse(serializeSession(withPressure));
+    file.session.regions[0].annotations[0].pressures[1] = 'hard';
+    expect(() => parseSessionFile(JSON.stringify(file))).toThrow(
+      'Invalid session file: session.regions[0].annotations[0].pressures[1] must be a number.'
+    );
+  });
+
+  it('rejects files that are not sessions or come from a newer version', () => {
+    expect(() => parseSessionFile('not json')).toThrow('not valid JSON');
+    expect(() => parseSessionFile('{"format":"other"}')).toThrow('not an Understand the Underline session');
+    expect(() => parseSessionFile(JSON.stringify({ format: SESSION_FILE_FORMAT, version: 99 }))).toThrow(
+      'newer version of the app'
+    );
+  });
+
+  it('names exported files after the image', () => {
+    expect(sessionFileName(session)).toBe('menu.underline.json');
+  });
+});
@@ -0,0 +1,80 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  deleteSession,
+  fileToStoredImage,
+  getSession,
+  listSessions,
+  saveSession,
+  Session,
+  storedImageToFile,
+} from '..';
+import { DEFAULT_TEMPLATE_VARIABLES } from '../../../utils/promptTemplates';
+
+const makeSession = (id: string, createdAt: number): Session => ({
+  id,
+  createdAt,
+  imageName: `${id}.png`,
+  image: { name: `${id}.png`, type: 'image/png', data: new Uint8Array([1, 2, 3]).buffer },
+  regions: [
+    {
+      id: 0,
+      question: 'translate this',
+      annotations: [
+        { id: 0, tool: 'pen', points: [{ x: 1, y: 2 }, { x: 30, y: 2 }], style: { color: '#ef4444', width: 3 } },
+      ],
+    },
+  ],
+  prompt: {
+    templateId: 'translate',
+    templateName: 'Translate',
+    templateText: 'Translate the marked text into {language}.',
+    variables: { ...DEFAULT_TEMPLATE_VARIABLES, language: 'French' },
+    structured: false,
+  },
+  response: 'Bonjour.',
+});
+
+describe('session store', () => {
+  beforeEach(async () => {
+    await Promise.all((await listSessions()).map(({ id }) => deleteSession(id)));
+  });
+
+  it('saves and reopens a session with its image and annotations', async () => {
+    const session = makeSession('a', 1);
+    await saveSession(session);
+
+    const reopened = await getSession('a');
+    expect(reopened).toMatchObject({ regions: session.regions, prompt: session.prompt, response: 'Bonjour.' });
+    expect(new Uint8Array(reopened!.image.data)).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('lists sessions newest first without their image data', async () => {
+    await saveSession(makeSession('old', 1));
+    await saveSession(makeSession('new', 2));
+
+    const sessions = await listSessions();
+    expect(sessions.map(({ id }) => id)).toEqual(['new', 'old']);
+    expect(sessions[0]).not.toHaveProperty('image');
+  });
+
+  it('deletes a session and its image', async () => {
+    await saveSession(makeSession('a', 1));
+    await deleteSession('a');
+
+    expect(await listSessions()).toEqual([]);
+    expect(await getSession('a')).toBeNull();
+  });
+
+  it('converts uploads to stored images and back', async () => {
+    const file = new File(['hello'], 'note.png', { type: 'image/png' });
+
+    const stored = await fileToStoredImage(file);
+    expect(new TextDecoder().decode(stored.data)).toBe('hello');
+
+    const restored = storedImageToFile(stored);
+    expect(restored.name).toBe('note.png');
+    expect(restored.type).toBe('image/png');
+    expect(restored.size).toBe(5);
+  });
+});
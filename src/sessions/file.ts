@@ -0,0 +1,234 @@
+import { Annotation, ANNOTATION_TOOLS, Point, Region } from "../annotations";
+import { TemplateVariables } from "../../utils/promptTemplates";
+import { Session, SessionPrompt } from "./types";
+
+export const SESSION_FILE_FORMAT = "understand-the-underline/session";
+export const SESSION_FILE_VERSION = 1;
+export const SESSION_FILE_EXTENSION = ".underline.json";
+
+// A session without its local id; importing assigns a new one.
+export type PortableSession = Omit<Session, "id">;
+
+interface SessionFileV1 {
+  format: typeof SESSION_FILE_FORMAT;
+  version: 1;
+  exportedAt: string;
+  session: Omit<PortableSession, "image"> & {
+    image: { name: string; type: string; base64: string };
+  };
+}
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // Chunked so large images don't overflow the argument limit.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToArrayBuffer = (base64: string): ArrayBuffer => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+export const serializeSession = ({
+  image,
+  ...session
+}: PortableSession): string => {
+  const file: SessionFileV1 = {
+    format: SESSION_FILE_FORMAT,
+    version: SESSION_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      ...session,
+      image: {
+        name: image.name,
+        type: image.type,
+        base64: arrayBufferToBase64(image.data),
+      },
+    },
+  };
+  return JSON.stringify(file);
+};
+
+// Validation: each check throws with the path of the first bad field so an
+// unreadable file can be reported precisely.
+
+const invalid = (path: string, expected: string): never => {
+  throw new Error(`Invalid session file: ${path} must be ${expected}.`);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readRecord = (value: unknown, path: string) =>
+  isRecord(value) ? value : invalid(path, "an object");
+
+const readArray = (value: unknown, path: string) =>
+  Array.isArray(value) ? value : invalid(path, "a list");
+
+const readString = (value: unknown, path: string) =>
+  typeof value === "string" ? value : invalid(path, "text");
+
+const readNumber = (value: unknown, path: string) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? value
+    : invalid(path, "a number");
+
+const readPoint = (value: unknown, path: string): Point => {
+  const point = readRecord(value, path);
+  return {
+    x: readNumber(point.x, `${path}.x`),
+    y: readNumber(point.y, `${path}.y`),
+  };
+};
+
+const readPoints = (value: unknown, path: string): Point[] =>
+  readArray(value, path).map((point, i) => readPoint(point, `${path}[${i}]`));
+
+const readAnnotation = (value: unknown, path: string): Annotation => {
+  const annotation = readRecord(value, path);
+  const tool = readString(annotation.tool, `${path}.tool`);
+  if (!ANNOTATION_TOOLS.some((option) => option.tool === tool)) {
+    invalid(`${path}.tool`, "a known tool");
+  }
+  const style = readRecord(annotation.style, `${path}.style`);
+  return {
+    id: readNumber(annotation.id, `${path}.id`),
+    tool: tool as Annotation["tool"],
+    points: readPoints(annotation.points, `${path}.points`),
+    ...(annotation.pressures !== undefined && {
+      pressures: readArray(annotation.pressures, `${path}.pressures`).map(
+        (pressure, i) => readNumber(pressure, `${path}.pressures[${i}]`)
+      ),
+    }),
+    style: {
+      color: readString(style.color, `${path}.style.color`),
+      width: readNumber(style.width, `${path}.style.width`),
+    },
+  };
+};
+
+const readRegion = (value: unknown, path: string): Region => {
+  const region = readRecord(value, path);
+  return {
+    id: readNumber(region.id, `${path}.id`),
+    question: readString(region.question, `${path}.question`),
+    annotations: readArray(region.annotations, `${path}.annotations`).map(
+      (annotation, i) => readAnnotation(annotation, `${path}.annotations[${i}]`)
+    ),
+  };
+};
+
+const readVariables = (value: unknown, path: string): TemplateVariables => {
+  const variables = readRecord(value, path);
+  return {
+    language: readString(variables.language, `${path}.language`),
+    audience_level: readString(
+      variables.audience_level,
+      `${path}.audience_level`
+    ),
+    question: readString(variables.question, `${path}.question`),
+  };
+};
+
+const readPrompt = (value: unknown, path: string): SessionPrompt => {
+  const prompt = readRecord(value, path);
+  if (typeof prompt.structured !== "boolean") {
+    invalid(`${path}.structured`, "true or false");
+  }
+  return {
+    templateId: readString(prompt.templateId, `${path}.templateId`),
+    templateName: readString(prompt.templateName, `${path}.templateName`),
+    templateText: readString(prompt.templateText, `${path}.templateText`),
+    variables: readVariables(prompt.variables, `${path}.variables`),
+    structured: prompt.structured as boolean,
+  };
+};
+
+const readImage = (value: unknown, path: string) => {
+  const image = readRecord(value, path);
+  const type = readString(image.type, `${path}.type`);
+  if (!type.startsWith("image/")) invalid(`${path}.type`, "an image type");
+  let data: ArrayBuffer;
+  try {
+    data = base64ToArrayBuffer(readString(image.base64, `${path}.base64`));
+  } catch {
+    return invalid(`${path}.base64`, "base64 image data");
+  }
+  return { name: readString(image.name, `${path}.name`), type, data };
+};
+
+const readSessionV1 = (file: Record<string, unknown>): PortableSession => {
+  const session = readRecord(file.session, "session");
+  const image = readImage(session.image, "session.image");
+  return {
+    createdAt: readNumber(session.createdAt, "session.createdAt"),
+    imageName: image.name,
+    image,
+    regions: readArray(session.regions, "session.regions").map((region, i) =>
+      readRegion(region, `session.regions[${i}]`)
+    ),
+    prompt: readPrompt(session.prompt, "session.prompt"),
+    response: readString(session.response, "session.response"),
+  };
+};
+
+// Each migration upgrades a file by exactly one version, keyed by the version
+// it upgrades from.
+const MIGRATIONS: Record<
+  number,
+  (file: Record<string, unknown>) => Record<string, unknown>
+> = {};
+
+export const parseSessionFile = (text: string): PortableSession => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("This file is not a session file (it is not valid JSON).");
+  }
+  if (!isRecord(parsed) || parsed.format !== SESSION_FILE_FORMAT) {
+    throw new Error("This file is not an Understand the Underline session.");
+  }
+
+  let file = parsed;
+  let version = readNumber(file.version, "version");
+  if (version > SESSION_FILE_VERSION) {
+    throw new Error(
+      `This session was saved by a newer version of the app (format ${version}). Please update to open it.`
+    );
+  }
+  while (version < SESSION_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) invalid("version", "a supported format version");
+    file = migrate(file);
+    version = readNumber(file.version, "version");
+  }
+  return readSessionV1(file);
+};
+
+export const isSessionFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith(SESSION_FILE_EXTENSION) ||
+  file.type === "application/json";
+
+export const readSessionFile = (file: File): Promise<PortableSession> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        resolve(parseSessionFile(reader.result as string));
+      } catch (error) {
+        reject(error);
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+export const sessionFileName = ({ imageName }: PortableSession): string =>
+  `${imageName.replace(/\.[^.]+$/, "") || "session"}${SESSION_FILE_EXTENSION}`;
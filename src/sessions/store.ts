@@ -0,0 +1,141 @@
+import { Session, SessionSummary, StoredImage } from "./types";
+
+const DB_NAME = "understand-the-underline";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const IMAGES_STORE = "images";
+
+interface StoredImageRecord extends StoredImage {
+  id: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Transaction aborted."));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("Session history is not supported in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(SESSIONS_STORE, { keyPath: "id" }).createIndex(
+          "createdAt",
+          "createdAt"
+        );
+        db.createObjectStore(IMAGES_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry instead of caching the failure.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+export const createSessionId = (): string =>
+  `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveSession = async ({
+  image,
+  ...summary
+}: Session): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SESSIONS_STORE, IMAGES_STORE],
+    "readwrite"
+  );
+  transaction.objectStore(SESSIONS_STORE).put(summary);
+  transaction
+    .objectStore(IMAGES_STORE)
+    .put({ id: summary.id, ...image } satisfies StoredImageRecord);
+  await transactionDone(transaction);
+};
+
+// Newest first.
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const db = await openDatabase();
+  const index = db
+    .transaction(SESSIONS_STORE)
+    .objectStore(SESSIONS_STORE)
+    .index("createdAt");
+  const sessions = await toPromise<SessionSummary[]>(index.getAll());
+  return sessions.reverse();
+};
+
+export const getSession = async (id: string): Promise<Session | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, IMAGES_STORE]);
+  const [summary, imageRecord] = await Promise.all([
+    toPromise<SessionSummary | undefined>(
+      transaction.objectStore(SESSIONS_STORE).get(id)
+    ),
+    toPromise<StoredImageRecord | undefined>(
+      transaction.objectStore(IMAGES_STORE).get(id)
+    ),
+  ]);
+  if (!summary || !imageRecord) return null;
+
+  const { name, type, data } = imageRecord;
+  return { ...summary, image: { name, type, data } };
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [SESSIONS_STORE, IMAGES_STORE],
+    "readwrite"
+  );
+  transaction.objectStore(SESSIONS_STORE).delete(id);
+  transaction.objectStore(IMAGES_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Null when the browser does not report storage usage.
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) {
+    return null;
+  }
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage === undefined || quota === undefined ? null : { usage, quota };
+};
+
+export const fileToStoredImage = (file: File): Promise<StoredImage> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () =>
+      resolve({
+        name: file.name,
+        type: file.type,
+        data: reader.result as ArrayBuffer,
+      });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+export const storedImageToFile = ({ name, type, data }: StoredImage): File =>
+  new File([data], name, { type });
@@ -0,0 +1,35 @@
+import { Region } from "../annotations";
+import { TemplateVariables } from "../../utils/promptTemplates";
+
+// The original upload, stored as raw bytes so it round-trips through
+// IndexedDB (and later files) regardless of Blob support.
+export interface StoredImage {
+  name: string;
+  type: string;
+  data: ArrayBuffer;
+}
+
+export interface SessionPrompt {
+  templateId: string;
+  templateName: string;
+  // The template text as it was when the session ran; custom templates can
+  // change or be deleted afterwards.
+  templateText: string;
+  variables: TemplateVariables;
+  structured: boolean;
+}
+
+// Everything shown in the history list; kept apart from the image bytes so
+// listing sessions stays cheap.
+export interface SessionSummary {
+  id: string;
+  createdAt: number;
+  imageName: string;
+  prompt: SessionPrompt;
+  regions: Region[];
+  response: string;
+}
+
+export interface Session extends SessionSummary {
+  image: StoredImage;
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { batchResultsToCsv, batchResultsToJson } from '../batchExport';
+
+const results = [
+  { image: 'sheet 1.png', status: 'done', attempts: 1, answer: 'He said "hi",\nthen left.', error: '' },
+  { image: '=cmd.png', status: 'failed', attempts: 2, answer: '', error: 'Rate limit reached' },
+  { image: 'list.png', status: 'done', attempts: 1, answer: '- first item', error: '' },
+];
+
+describe('batch export', () => {
+  it('writes one quoted CSV row per result', () => {
+    expect(batchResultsToCsv(results)).toBe(
+      [
+        'image,status,attempts,answer,error',
+        'sheet 1.png,done,1,"He said ""hi"",\nthen left.",',
+        "'=cmd.png,failed,2,,Rate limit reached",
+        'list.png,done,1,- first item,',
+        '',
+      ].join('\r\n')
+    );
+  });
+
+  it('adds the parsed explanation for structured answers in JSON', () => {
+    const answer = JSON.stringify({
+      summary: 'A verb.',
+      extractedText: 'run',
+      language: 'English',
+      explanation: 'To move fast.',
+      keyTerms: [],
+      confidenceNote: '',
+    });
+    const json = JSON.parse(
+      batchResultsToJson(
+        [{ image: 'a.png', status: 'done', attempts: 1, answer, error: '', structured: true }],
+        new Date('2024-05-01T00:00:00Z')
+      )
+    );
+
+    expect(json.exportedAt).toBe('2024-05-01T00:00:00.000Z');
+    expect(json.results[0].explanation.summary).toBe('A verb.');
+    expect(json.results[0]).not.toHaveProperty('structured');
+  });
+});
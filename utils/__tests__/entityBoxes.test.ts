@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ENTITY_BOXES_SCHEMA,
+  entityBoxToRect,
+  extractEntityBoxes,
+  findEntityBoxAt,
+  findEntityForTerm,
+  parseEntityBoxes,
+} from '../entityBoxes';
+import { createFakeProvider } from '../providers';
+
+const symbol = { label: 'second symbol', box2d: [100, 200, 300, 400] as [number, number, number, number] };
+
+describe('entity boxes', () => {
+  it('keeps well-formed boxes, clamping and ordering their corners', () => {
+    expect(
+      parseEntityBoxes([
+        { label: ' second symbol ', box_2d: [100, 200, 300, 400] },
+        { label: 'swapped', box_2d: [300, 1200, 100, 900.4] },
+        { label: 'flat', box_2d: [100, 100, 100, 200] },
+        { label: 'short', box_2d: [1, 2, 3] },
+        { label: '', box_2d: [0, 0, 10, 10] },
+        { box_2d: [0, 0, 10, 10] },
+        'nonsense',
+      ])
+    ).toEqual([symbol, { label: 'swapped', box2d: [100, 900, 300, 1000] }]);
+    expect(parseEntityBoxes({ label: 'x' })).toEqual([]);
+  });
+
+  it('gets a usable box from the fake provider', async () => {
+    const { text } = await createFakeProvider().explain({
+      imageDataUrl: 'data:image/png;base64,aGVsbG8=',
+      prompt: 'Point it out',
+      responseSchema: ENTITY_BOXES_SCHEMA,
+    });
+
+    expect(parseEntityBoxes(JSON.parse(text))).toEqual([{ label: 'Fake label', box2d: [250, 250, 750, 750] }]);
+  });
+
+  it('splits the boxes block off a free-form answer', () => {
+    const answer =
+      'The **second symbol** is an ohm sign.\n\n```boxes\n[{"label": "second symbol", "box_2d": [100, 200, 300, 400]}]\n```\n';
+
+    expect(extractEntityBoxes(answer)).toEqual({
+      text: 'The **second symbol** is an ohm sign.',
+      boxes: [symbol],
+    });
+  });
+
+  it('hides a boxes block while it is still streaming in', () => {
+    expect(extractEntityBoxes('An ohm sign.\n\n```boxes\n[{"label": "sec')).toEqual({
+      text: 'An ohm sign.',
+      boxes: [],
+    });
+    expect(extractEntityBoxes('An ohm sign.\n\n```bo').text).toBe('An ohm sign.');
+  });
+
+  it('leaves answers without a boxes block alone', () => {
+    const answer = 'Run:\n\n```bash\nls\n```';
+
+    expect(extractEntityBoxes(answer)).toEqual({ text: answer, boxes: [] });
+  });
+
+  it('drops a malformed boxes block without losing the answer', () => {
+    expect(extractEntityBoxes('An ohm sign.\n```boxes\nnot json\n```')).toEqual({
+      text: 'An ohm sign.',
+      boxes: [],
+    });
+  });
+
+  it('maps boxes to image pixels and finds the smallest one under a point', () => {
+    const outer = { label: 'circuit', box2d: [0, 0, 1000, 1000] as [number, number, number, number] };
+
+    expect(entityBoxToRect(symbol, 2000, 1000)).toEqual({ x: 400, y: 100, width: 400, height: 200 });
+    expect(findEntityBoxAt([outer, symbol], { x: 500, y: 150 }, 2000, 1000)).toBe(1);
+    expect(findEntityBoxAt([outer, symbol], { x: 100, y: 900 }, 2000, 1000)).toBe(0);
+    expect(findEntityBoxAt([symbol], { x: 100, y: 900 }, 2000, 1000)).toBe(-1);
+  });
+
+  it('matches key terms to labels loosely', () => {
+    expect(findEntityForTerm([symbol], '"Second Symbol":')).toBe(0);
+    expect(findEntityForTerm([symbol], 'first symbol')).toBe(-1);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { buildPrompt, splitAnswerByRegion } from '../geminiService';
+
+describe('geminiService prompts', () => {
+  it('lists every region with its question or a default', () => {
+    const prompt = buildPrompt([
+      { number: 1, question: 'translate this' },
+      { number: 2, question: '' },
+    ]);
+
+    expect(prompt).toContain('- Region 1: translate this');
+    expect(prompt).toContain('- Region 2: Explain what is marked.');
+    expect(prompt).toContain('"### Region <number>"');
+  });
+
+  it('builds the instructions from the chosen template', () => {
+    const prompt = buildPrompt([], {
+      template: 'Translate the marked text into {language}.',
+      variables: { language: 'Japanese' },
+    });
+
+    expect(prompt).toContain('Translate the marked text into Japanese.');
+    expect(prompt).not.toContain('explanation or meaning');
+  });
+
+  it('mentions the close-up only when one is sent', () => {
+    expect(buildPrompt([], { hasDetailImage: true })).toContain('close-up');
+    expect(buildPrompt([])).not.toContain('close-up');
+  });
+
+  it('names the PDF page and includes its text layer', () => {
+    const prompt = buildPrompt([], { page: { number: 3, pageCount: 12, text: 'Theorem 2. Every bounded sequence...' } });
+
+    expect(prompt).toContain('page 3 of 12 of a PDF document');
+    expect(prompt).toContain('Theorem 2. Every bounded sequence...');
+    expect(buildPrompt([], { page: { number: 1, pageCount: 1 } })).not.toContain('text layer');
+  });
+
+  it('shortens very long page text', () => {
+    const prompt = buildPrompt([], { page: { number: 1, pageCount: 1, text: 'word '.repeat(5000) } });
+
+    expect(prompt).toContain('[...]');
+    expect(prompt.length).toBeLessThan(8000);
+  });
+
+  it('includes OCR text of the marked area only when there is some', () => {
+    const prompt = buildPrompt([], { recognizedText: '  Soupe du jour\n' });
+
+    expect(prompt).toContain('recognised in the marked area by OCR');
+    expect(prompt).toContain('"""\nSoupe du jour\n"""');
+    expect(buildPrompt([], { recognizedText: '   ' })).not.toContain('OCR');
+  });
+
+  it('asks for boxes of what the answer mentions only when requested', () => {
+    expect(buildPrompt([], { locateEntities: true })).toContain('```boxes');
+    expect(buildPrompt([], { locateEntities: true, structured: true })).toContain('"entities"');
+    expect(buildPrompt([], { locateEntities: true, structured: true })).not.toContain('```boxes');
+    expect(buildPrompt([])).not.toContain('box_2d');
+  });
+
+  it('describes how each region was marked', () => {
+    const prompt = buildPrompt([
+      { number: 1, question: '', markings: ['yellow translucent highlighter', 'red arrow pointing at the content'] },
+    ]);
+
+    expect(prompt).toContain(
+      '- Region 1 (marked with yellow translucent highlighter, red arrow pointing at the content)'
+    );
+    expect(prompt).not.toContain('red ink');
+  });
+
+  it('splits an answer into one section per region heading', () => {
+    const answer = [
+      'Here is what you marked.',
+      '### Region 1',
+      'Bonjour means hello.',
+      '',
+      '## **Region 2** - the diagram',
+      'A mitochondrion.',
+    ].join('\n');
+
+    expect(splitAnswerByRegion(answer)).toEqual([
+      { number: 1, text: 'Bonjour means hello.' },
+      { number: 2, text: 'A mitochondrion.' },
+    ]);
+  });
+
+  it('returns null when the answer has no region headings', () => {
+    expect(splitAnswerByRegion('Just one paragraph.')).toBeNull();
+  });
+});
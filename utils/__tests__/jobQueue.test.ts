@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createJobQueue } from '../jobQueue';
+import { RateLimitError, ServerError } from '../providers';
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+const jobs = (...ids: string[]) => ids.map((id) => ({ id, label: `${id}.png`, input: id }));
+
+describe('createJobQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    const pending = new Map<string, ReturnType<typeof deferred<string>>>();
+    const run = vi.fn((input: string) => {
+      const job = deferred<string>();
+      pending.set(input, job);
+      return job.promise;
+    });
+    const queue = createJobQueue({ run, concurrency: 2 });
+
+    queue.add(jobs('a', 'b', 'c'));
+    expect(queue.getJobs().map(({ status }) => status)).toEqual(['running', 'running', 'queued']);
+
+    pending.get('a')!.resolve('answer a');
+    await vi.waitFor(() => expect(run).toHaveBeenCalledTimes(3));
+    pending.get('b')!.resolve('answer b');
+    pending.get('c')!.resolve('answer c');
+    await queue.whenIdle();
+
+    expect(queue.getJobs().map(({ status, result }) => [status, result])).toEqual([
+      ['done', 'answer a'],
+      ['done', 'answer b'],
+      ['done', 'answer c'],
+    ]);
+  });
+
+  it('marks failed jobs and retries them on request', async () => {
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(new ServerError('down'))
+      .mockResolvedValue('fine');
+    const onChange = vi.fn();
+    const queue = createJobQueue({ run, concurrency: 1, onChange });
+
+    queue.add(jobs('a'));
+    await queue.whenIdle();
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'failed', attempts: 1 });
+
+    queue.retryFailed();
+    await queue.whenIdle();
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'done', result: 'fine' });
+    expect(onChange).toHaveBeenLastCalledWith(queue.getJobs());
+  });
+
+  it('pauses and slows down after a rate limit instead of failing the job', async () => {
+    vi.useFakeTimers();
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('slow down', { retryAfterMs: 5000 }))
+      .mockResolvedValue('ok');
+    const queue = createJobQueue({ run, concurrency: 2 });
+
+    queue.add(jobs('a'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getJobs()[0].status).toBe('queued');
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await queue.whenIdle();
+    expect(queue.getJobs()[0]).toMatchObject({ status: 'done', attempts: 2 });
+  });
+
+  it('cancels running and queued jobs', async () => {
+    const run = vi.fn(
+      (_input: string, signal: AbortSignal) =>
+        new Promise<string>((_resolve, reject) =>
+          signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')))
+        )
+    );
+    const queue = createJobQueue({ run, concurrency: 1 });
+
+    queue.add(jobs('a', 'b'));
+    queue.cancel();
+    await queue.whenIdle();
+
+    expect(queue.getJobs().map(({ status }) => status)).toEqual(['failed', 'failed']);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips jobs that are already waiting and re-runs finished ones', async () => {
+    const run = vi.fn().mockResolvedValue('ok');
+    const queue = createJobQueue({ run, concurrency: 1 });
+
+    queue.add(jobs('a', 'a'));
+    await queue.whenIdle();
+    queue.add(jobs('a'));
+    await queue.whenIdle();
+
+    expect(queue.getJobs()).toHaveLength(1);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('ignores runs that settle after the queue was cleared', async () => {
+    const first = deferred<string>();
+    const second = deferred<string>();
+    const run = vi.fn().mockReturnValueOnce(first.promise).mockReturnValueOnce(second.promise);
+    const queue = createJobQueue({ run, concurrency: 1 });
+
+    queue.add(jobs('a'));
+    queue.clear();
+    queue.add(jobs('a'));
+    first.resolve('stale');
+    await new Promise((resolve) => setTimeout(resolve));
+
+    expect(queue.getJobs()).toMatchObject([{ id: 'a', status: 'running' }]);
+
+    second.resolve('fresh');
+    await queue.whenIdle();
+
+    expect(queue.getJobs()).toMatchObject([{ id: 'a', status: 'done', result: 'fresh' }]);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToPlainText } from '../markdownText';
+
+describe('markdownToPlainText', () => {
+  it('drops formatting markers but keeps the structure', () => {
+    const markdown = '## Meaning\n\nThis is **very** _important_, see [the docs](https://example.com).\n\n* one\n* `two`';
+
+    expect(markdownToPlainText(markdown)).toBe(
+      'Meaning\n\nThis is very important, see the docs.\n\n- one\n- two'
+    );
+  });
+
+  it('keeps code and math source without their delimiters', () => {
+    const markdown = '```js\nconst a = 1;\n```\n\n$$\nx^2\n$$\n\nInline \\(y\\).';
+
+    expect(markdownToPlainText(markdown)).toBe('const a = 1;\n\nx^2\n\nInline y.');
+  });
+
+  it('turns tables into tab-separated rows', () => {
+    expect(markdownToPlainText('| Word | Meaning |\n| --- | --- |\n| Hund | dog |')).toBe(
+      'Word\tMeaning\nHund\tdog'
+    );
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  fillTemplate,
+  getTemplateVariables,
+  loadCustomTemplates,
+  saveCustomTemplates,
+} from '../promptTemplates';
+
+describe('prompt templates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('fills known variables and falls back to defaults for empty ones', () => {
+    expect(fillTemplate('Translate into {language} for {audience_level}.', { language: 'French' })).toBe(
+      'Translate into French for a general audience.'
+    );
+    expect(fillTemplate('Keep {unknown} as written.')).toBe('Keep {unknown} as written.');
+  });
+
+  it('lists the known variables a template uses once each', () => {
+    expect(getTemplateVariables('{question} in {language}, then {question} again {other}')).toEqual([
+      'question',
+      'language',
+    ]);
+  });
+
+  it('leaves placeholders named after object built-ins alone', () => {
+    const text = 'Explain {constructor} and {toString} in {language}.';
+
+    expect(getTemplateVariables(text)).toEqual(['language']);
+    expect(fillTemplate(text, { language: 'German' })).toBe('Explain {constructor} and {toString} in German.');
+  });
+
+  it('saves custom templates and ignores malformed stored data', () => {
+    saveCustomTemplates([{ id: 'custom-1', name: 'Poem', text: 'Write a poem about it.' }]);
+    expect(loadCustomTemplates()).toEqual([{ id: 'custom-1', name: 'Poem', text: 'Write a poem about it.' }]);
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.setItem('understand-the-underline:prompt-templates', '{not json');
+    expect(loadCustomTemplates()).toEqual([]);
+  });
+});
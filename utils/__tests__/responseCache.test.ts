@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createResponseCache, hashCacheKey } from '../responseCache';
+
+describe('response cache', () => {
+  let time: number;
+  const now = () => time;
+
+  beforeEach(() => {
+    time = 0;
+    localStorage.clear();
+  });
+
+  it('hashes every part of a request into a stable key', async () => {
+    const key = await hashCacheKey(['gemini', 'image', 'prompt']);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashCacheKey(['gemini', 'image', 'prompt'])).toBe(key);
+    expect(await hashCacheKey(['ab', 'c'])).not.toBe(await hashCacheKey(['a', 'bc']));
+  });
+
+  it('persists answers across cache instances', () => {
+    createResponseCache({ now }).set('key', 'An answer.');
+
+    expect(createResponseCache({ now }).get('key')).toBe('An answer.');
+  });
+
+  it('expires entries after the TTL', () => {
+    const cache = createResponseCache({ now, ttlMs: 1000 });
+    cache.set('key', 'An answer.');
+
+    time = 999;
+    expect(cache.get('key')).toBe('An answer.');
+    time = 1000;
+    expect(cache.get('key')).toBeNull();
+  });
+
+  it('evicts the oldest entries when over the size limits', () => {
+    const cache = createResponseCache({ now, maxMemoryEntries: 1, maxStoredChars: 20 });
+    cache.set('a', 'first answer');
+    time = 1;
+    cache.set('b', 'second answer');
+
+    expect(cache.get('a')).toBeNull();
+    expect(cache.get('b')).toBe('second answer');
+  });
+
+  it('works in memory when there is no persistent storage', () => {
+    const cache = createResponseCache({ storage: null });
+    cache.set('key', 'An answer.');
+
+    expect(cache.get('key')).toBe('An answer.');
+    expect(localStorage.length).toBe(0);
+  });
+});
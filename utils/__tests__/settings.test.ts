@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createProviderForSettings,
+  DEFAULT_SETTINGS,
+  loadSettings,
+  saveSettings,
+  toGenerationConfig,
+  validateSettings,
+} from '../settings';
+
+const GEMINI = { provider: 'gemini' as const };
+
+describe('settings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('accepts empty settings and values the model supports', () => {
+    expect(validateSettings(DEFAULT_SETTINGS, GEMINI)).toEqual({});
+    expect(
+      validateSettings(
+        { apiKey: 'AIza-key', model: 'gemini-2.5-pro', temperature: 0.4, maxOutputTokens: 4096, thinkingBudget: 1024 },
+        GEMINI
+      )
+    ).toEqual({});
+  });
+
+  it('rejects out-of-range numbers and keys with spaces', () => {
+    const errors = validateSettings(
+      { apiKey: 'AIza key', model: '', temperature: 2.5, maxOutputTokens: 1.5, thinkingBudget: 100_000 },
+      GEMINI
+    );
+
+    expect(Object.keys(errors).sort()).toEqual(['apiKey', 'maxOutputTokens', 'temperature', 'thinkingBudget']);
+    expect(validateSettings({ ...DEFAULT_SETTINGS, temperature: Number.NaN }, GEMINI).temperature).toBeDefined();
+  });
+
+  it('checks the thinking budget against the chosen model', () => {
+    expect(validateSettings({ ...DEFAULT_SETTINGS, thinkingBudget: 0 }, GEMINI)).toEqual({});
+    expect(validateSettings({ ...DEFAULT_SETTINGS, model: 'gemini-2.5-pro', thinkingBudget: 0 }, GEMINI).thinkingBudget).toMatch(
+      'cannot turn thinking off'
+    );
+    expect(validateSettings({ ...DEFAULT_SETTINGS, thinkingBudget: 256 }, { provider: 'gemini', model: 'gemini-2.5-flash-lite' }).thinkingBudget).toMatch(
+      '512 to 24576'
+    );
+    expect(validateSettings({ ...DEFAULT_SETTINGS, thinkingBudget: 0.5 }, { provider: 'openai-compatible' })).toEqual({});
+  });
+
+  it('needs room for the answer after thinking', () => {
+    expect(
+      validateSettings({ ...DEFAULT_SETTINGS, maxOutputTokens: 1000, thinkingBudget: 2000 }, GEMINI).maxOutputTokens
+    ).toMatch('more output tokens than the thinking budget');
+  });
+
+  it('saves settings and drops invalid stored fields when loading', () => {
+    const settings = { apiKey: 'AIza-key', model: 'gemini-2.5-pro', temperature: 0.2, maxOutputTokens: 2048, thinkingBudget: 512 };
+    saveSettings(settings);
+    expect(loadSettings()).toEqual(settings);
+
+    localStorage.setItem(
+      'understand-the-underline:settings',
+      JSON.stringify({ apiKey: 42, model: 'gemini-2.5-flash', temperature: 9, maxOutputTokens: '100' })
+    );
+    expect(loadSettings()).toEqual({ apiKey: '', model: 'gemini-2.5-flash' });
+
+    localStorage.setItem('understand-the-underline:settings', 'not json');
+    expect(loadSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('sends only the generation fields that were set', () => {
+    expect(toGenerationConfig(DEFAULT_SETTINGS)).toBeUndefined();
+    expect(toGenerationConfig({ ...DEFAULT_SETTINGS, temperature: 0 })).toEqual({ temperature: 0 });
+  });
+
+  it('uses the entered key and model for the provider', () => {
+    expect(createProviderForSettings(DEFAULT_SETTINGS).isConfigured()).toBe(false);
+
+    const provider = createProviderForSettings({ apiKey: ' AIza-key ', model: 'gemini-2.5-pro' });
+    expect(provider.isConfigured()).toBe(true);
+    expect(provider.model).toBe('gemini-2.5-pro');
+  });
+});
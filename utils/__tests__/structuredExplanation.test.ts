@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { parseStructuredExplanation, structuredExplanationToMarkdown } from '../structuredExplanation';
+
+const valid = {
+  summary: 'A German warning sign.',
+  extractedText: 'Betreten verboten',
+  language: 'German',
+  explanation: 'It means "no entry".',
+  keyTerms: [{ term: 'Betreten', definition: 'entering' }],
+  confidenceNote: 'The text is sharp.',
+};
+
+describe('parseStructuredExplanation', () => {
+  it('accepts a reply that matches the schema', () => {
+    expect(parseStructuredExplanation(JSON.stringify(valid))).toEqual(valid);
+  });
+
+  it('accepts JSON wrapped in a Markdown code fence', () => {
+    const fenced = '```json\n' + JSON.stringify(valid) + '\n```';
+    expect(parseStructuredExplanation(fenced)).toEqual(valid);
+  });
+
+  it('keeps valid entity boxes when the reply has them', () => {
+    const withEntities = {
+      ...valid,
+      entities: [
+        { label: 'Betreten', box_2d: [10, 20, 30, 40] },
+        { label: 'broken', box_2d: 'here' },
+      ],
+    };
+
+    expect(parseStructuredExplanation(JSON.stringify(withEntities))?.entities).toEqual([
+      { label: 'Betreten', box2d: [10, 20, 30, 40] },
+    ]);
+  });
+
+  it('rejects replies that are not JSON or have the wrong shape', () => {
+    expect(parseStructuredExplanation('It means "no entry".')).toBeNull();
+    expect(parseStructuredExplanation('[]')).toBeNull();
+    expect(parseStructuredExplanation(JSON.stringify({ ...valid, summary: 3 }))).toBeNull();
+    expect(
+      parseStructuredExplanation(JSON.stringify({ ...valid, keyTerms: ['Betreten'] }))
+    ).toBeNull();
+  });
+
+  it('formats a structured answer as Markdown sections', () => {
+    const markdown = structuredExplanationToMarkdown(valid);
+
+    expect(markdown).toContain('## Extracted text (German)\n\n> Betreten verboten');
+    expect(markdown).toContain('- **Betreten**: entering');
+    expect(markdown.endsWith('_The text is sharp._')).toBe(true);
+  });
+});
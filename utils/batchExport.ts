@@ -0,0 +1,56 @@
+import { parseStructuredExplanation } from "./structuredExplanation";
+
+export interface BatchResult {
+  image: string;
+  status: string;
+  attempts: number;
+  answer: string;
+  error: string;
+  // Set when the answer was requested as a StructuredExplanation.
+  structured?: boolean;
+}
+
+export const BATCH_CSV_COLUMNS: (keyof BatchResult)[] = [
+  "image",
+  "status",
+  "attempts",
+  "answer",
+  "error",
+];
+
+// Quotes fields that need it (RFC 4180). Values that a spreadsheet would
+// run as a formula get a leading apostrophe; Markdown list items ("- ...")
+// are left alone.
+const toCsvField = (value: string | number | boolean | undefined): string => {
+  let text = String(value ?? "");
+  if (/^([=+@\t\r]|-(?!\s))/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const batchResultsToCsv = (results: BatchResult[]): string =>
+  [
+    BATCH_CSV_COLUMNS.join(","),
+    ...results.map((result) =>
+      BATCH_CSV_COLUMNS.map((column) => toCsvField(result[column])).join(",")
+    ),
+  ].join("\r\n") + "\r\n";
+
+// Structured answers are included both as text and parsed, so scripts do
+// not have to parse JSON inside JSON.
+export const batchResultsToJson = (
+  results: BatchResult[],
+  exportedAt = new Date()
+): string =>
+  JSON.stringify(
+    {
+      exportedAt: exportedAt.toISOString(),
+      results: results.map(({ structured, ...result }) => ({
+        ...result,
+        ...(structured && result.answer
+          ? { explanation: parseStructuredExplanation(result.answer) }
+          : {}),
+      })),
+    },
+    null,
+    2
+  );
@@ -0,0 +1,15 @@
+// Saves text as a file through a temporary object URL.
+export const downloadTextFile = (
+  text: string,
+  fileName: string,
+  type = "application/json"
+): void => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
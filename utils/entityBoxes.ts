@@ -0,0 +1,152 @@
+import { ResponseSchema } from "./providers";
+
+// [ymin, xmin, ymax, xmax] on a 0-1000 grid over the image, the way Gemini
+// reports object locations.
+export type Box2d = [number, number, number, number];
+
+// Something the answer mentions, and where it is in the image.
+export interface EntityBox {
+  label: string;
+  box2d: Box2d;
+}
+
+export const BOX_GRID = 1000;
+
+const BOXES_FENCE = "```boxes";
+
+// Asks for a fenced "boxes" block after a free-form answer.
+export const ENTITY_BOXES_TEXT = `After your answer, add a fenced code block tagged "boxes" that locates each thing you mention that is visible in the image, for example:
+${BOXES_FENCE}
+[{"label": "second symbol", "box_2d": [120, 340, 180, 410]}]
+\`\`\`
+"box_2d" is [ymin, xmin, ymax, xmax] in the first image, normalised to 0-1000. Use the answer's own wording for each label. Use an empty list if nothing can be located.`;
+
+// The structured-answer version: boxes go in the "entities" field.
+export const ENTITY_BOXES_STRUCTURED_TEXT = `List each thing the explanation mentions that is visible in the image in "entities", using the explanation's own wording for "label" and [ymin, xmin, ymax, xmax] in the first image, normalised to 0-1000, for "box_2d".`;
+
+export const ENTITY_BOXES_SCHEMA: ResponseSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      label: { type: "string" },
+      box_2d: {
+        type: "array",
+        items: { type: "integer" },
+        description: "[ymin, xmin, ymax, xmax] normalised to 0-1000.",
+      },
+    },
+    required: ["label", "box_2d"],
+  },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const clampToGrid = (value: number) =>
+  Math.min(BOX_GRID, Math.max(0, Math.round(value)));
+
+const toBox2d = (value: unknown): Box2d | null => {
+  if (
+    !Array.isArray(value) ||
+    value.length !== 4 ||
+    !value.every((n) => typeof n === "number" && Number.isFinite(n))
+  ) {
+    return null;
+  }
+  const [y0, x0, y1, x1] = value.map(clampToGrid);
+  // Models occasionally swap the corners
+  const box: Box2d = [
+    Math.min(y0, y1),
+    Math.min(x0, x1),
+    Math.max(y0, y1),
+    Math.max(x0, x1),
+  ];
+  return box[0] < box[2] && box[1] < box[3] ? box : null;
+};
+
+// Keeps the well-formed entries of a model's box list and drops the rest.
+export const parseEntityBoxes = (value: unknown): EntityBox[] =>
+  Array.isArray(value)
+    ? value.flatMap((entry) => {
+        if (!isRecord(entry) || typeof entry.label !== "string") return [];
+        const label = entry.label.trim();
+        const box2d = toBox2d(entry.box_2d);
+        return label && box2d ? [{ label, box2d }] : [];
+      })
+    : [];
+
+// A trailing "```b", "```bo", ... may be the start of the boxes block.
+const PARTIAL_FENCE = /\n*```b(?:o(?:x(?:es?)?)?)?$/;
+
+// Splits a free-form answer into the text to show and the boxes from its
+// "boxes" block. While the block is still streaming in it is hidden and has
+// no boxes yet.
+export const extractEntityBoxes = (
+  answer: string
+): { text: string; boxes: EntityBox[] } => {
+  const start = answer.lastIndexOf(BOXES_FENCE);
+  if (start === -1) {
+    return { text: answer.replace(PARTIAL_FENCE, ""), boxes: [] };
+  }
+  const body = answer.slice(start + BOXES_FENCE.length);
+  const end = body.indexOf("```");
+  const after = end === -1 ? "" : body.slice(end + 3).trim();
+  const text = [answer.slice(0, start).trimEnd(), after]
+    .filter(Boolean)
+    .join("\n\n");
+  if (end === -1) return { text, boxes: [] };
+  try {
+    return { text, boxes: parseEntityBoxes(JSON.parse(body.slice(0, end))) };
+  } catch {
+    return { text, boxes: [] };
+  }
+};
+
+// The box in image pixels.
+export const entityBoxToRect = (
+  { box2d: [ymin, xmin, ymax, xmax] }: EntityBox,
+  width: number,
+  height: number
+) => ({
+  x: (xmin / BOX_GRID) * width,
+  y: (ymin / BOX_GRID) * height,
+  width: ((xmax - xmin) / BOX_GRID) * width,
+  height: ((ymax - ymin) / BOX_GRID) * height,
+});
+
+// Index of the entity whose label matches `term`, ignoring case and
+// surrounding punctuation, or -1.
+export const findEntityForTerm = (boxes: EntityBox[], term: string) => {
+  const normalise = (text: string) =>
+    text.toLowerCase().replace(/^[\s"'“”‘’*_]+|[\s"'“”‘’*_.,:;!?]+$/g, "");
+  const wanted = normalise(term);
+  return boxes.findIndex(({ label }) => normalise(label) === wanted);
+};
+
+// Index of the smallest box containing the point (in image pixels), so a
+// box nested in another can still be picked, or -1.
+export const findEntityBoxAt = (
+  boxes: EntityBox[],
+  point: { x: number; y: number },
+  width: number,
+  height: number
+) => {
+  let found = -1;
+  let foundArea = Infinity;
+  boxes.forEach((entity, index) => {
+    const rect = entityBoxToRect(entity, width, height);
+    const area = rect.width * rect.height;
+    if (
+      point.x >= rect.x &&
+      point.x <= rect.x + rect.width &&
+      point.y >= rect.y &&
+      point.y <= rect.y + rect.height &&
+      area < foundArea
+    ) {
+      found = index;
+      foundArea = area;
+    }
+  });
+  return found;
+};
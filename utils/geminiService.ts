@@ -1,65 +1,423 @@
-import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import {
+  BadInputError,
+  ConversationTurn,
+  createDeadline,
+  EmptyResponseError,
+  ExplainRequest,
+  GenerationConfig,
+  getActiveProvider,
+  isRetryableError,
+  RetryOptions,
+  VisionProvider,
+  withRetry,
+} from "./providers";
+import {
+  BUILT_IN_TEMPLATES,
+  DEFAULT_TEMPLATE_ID,
+  fillTemplate,
+  TemplateVariables,
+} from "./promptTemplates";
+import {
+  createResponseCache,
+  hashCacheKey,
+  ResponseCache,
+} from "./responseCache";
+import { STRUCTURED_EXPLANATION_SCHEMA } from "./structuredExplanation";
+import { ENTITY_BOXES_STRUCTURED_TEXT, ENTITY_BOXES_TEXT } from "./entityBoxes";
 
-const API_KEY = process.env.API_KEY;
+export type { ConversationTurn, GenerationConfig } from "./providers";
+export type { VisionErrorKind } from "./providers";
+export {
+  isAbortError,
+  isRetryableError,
+  isVisionError,
+  VisionError,
+} from "./providers";
+export type { KeyTerm, StructuredExplanation } from "./structuredExplanation";
+export {
+  parseStructuredExplanation,
+  structuredExplanationToMarkdown,
+} from "./structuredExplanation";
+export type { EntityBox } from "./entityBoxes";
+export { extractEntityBoxes } from "./entityBoxes";
 
-if (!API_KEY) {
-  console.error(
-    "Gemini API key not found. Please set the API_KEY environment variable."
-  );
+const PROMPT_TEXT = `You are an expert at analyzing images and identifying specific regions.
+The user has provided an image with hand-drawn markings (such as underlines, circles, highlights, boxes or arrows) to highlight specific parts.`;
+
+const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES.find(
+  ({ id }) => id === DEFAULT_TEMPLATE_ID
+)!.text;
+
+const DETAIL_IMAGE_TEXT = `Two images are attached. The first shows the whole image with the markings, for context.
+The second is a higher-resolution close-up of the marked area; use it to read fine print and small details.`;
+
+// Keeps a dense page's text layer from crowding out the rest of the prompt.
+const PAGE_TEXT_LIMIT = 6000;
+
+const describePage = ({ number, pageCount, text }: DocumentPage) => {
+  const intro = `The image is page ${number} of ${pageCount} of a PDF document.`;
+  const trimmed = text?.trim();
+  if (!trimmed) return intro;
+  const excerpt =
+    trimmed.length > PAGE_TEXT_LIMIT
+      ? `${trimmed.slice(0, PAGE_TEXT_LIMIT)}\n[...]`
+      : trimmed;
+  return `${intro}
+The page's text layer is included below as extra context. It may be out of reading order and does not show the markings; use it to quote marked text exactly.
+"""
+${excerpt}
+"""`;
+};
+
+// Text the user read out of the marked area with offline OCR and may have
+// corrected by hand.
+const describeRecognizedText = (text: string) =>
+  `Text recognised in the marked area by OCR is included below and may have been corrected by the user. It can still contain recognition mistakes; when it disagrees with the image, trust the image.
+"""
+${text.trim()}
+"""`;
+
+const STRUCTURED_TEXT = `Reply with a single JSON object that matches the response schema and nothing else.
+Copy any marked text verbatim into "extractedText" and put the full explanation in "explanation".`;
+
+export interface MarkedRegion {
+  number: number;
+  // Optional per-region instruction such as "translate this"; empty means explain.
+  question: string;
+  // How the region was marked, e.g. "yellow translucent highlighter".
+  markings?: string[];
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY || "" });
+// The page an image was rendered from, for PDFs.
+export interface DocumentPage {
+  number: number;
+  pageCount: number;
+  // The page's text layer, when the PDF has one.
+  text?: string;
+}
 
-const PROMPT_TEXT = `You are an expert at analyzing images and identifying specific regions.
-The user has provided an image with red ink markings (like underlines or circles) to highlight specific parts.
-Please provide a concise and informative explanation or meaning of the content indicated by these markings.
-Focus only on what is marked. If it's text, explain the text. If it's an object or area, describe it and its context within the markings.
-Be descriptive and clear.`;
+export interface RegionAnswer {
+  number: number;
+  text: string;
+}
 
-export const getExplanationForImageRegion = async (
-  annotatedImageDataBase64: string
-): Promise<string> => {
-  if (!API_KEY) {
-    throw new Error("Gemini API key is not configured.");
+const REGION_HEADING = /^#{1,6}\s*\**\s*Region\s+(\d+)\b.*$/gim;
+
+const describeRegion = ({ number, question, markings = [] }: MarkedRegion) => {
+  const style =
+    markings.length > 0 ? ` (marked with ${markings.join(", ")})` : "";
+  return `- Region ${number}${style}: ${question || "Explain what is marked."}`;
+};
+
+const describeRegions = (
+  regions: MarkedRegion[],
+  structured: boolean
+) => `Each marked region is labelled with a numbered badge. There are ${regions.length} marked region(s):
+${regions.map(describeRegion).join("\n")}
+
+Answer every region separately and in order. Start each section${
+  structured ? " of the explanation" : ""
+} with a heading of the form "### Region <number>" and only discuss that region in its section.`;
+
+interface PromptOptions {
+  // Task instructions with `{variable}` placeholders; see promptTemplates.
+  template?: string;
+  variables?: Partial<TemplateVariables>;
+  hasDetailImage?: boolean;
+  // Ask for a JSON reply matching STRUCTURED_EXPLANATION_SCHEMA.
+  structured?: boolean;
+  page?: DocumentPage;
+  recognizedText?: string;
+  // Ask for the location of each thing the answer mentions; see entityBoxes.
+  locateEntities?: boolean;
+}
+
+export const buildPrompt = (
+  regions: MarkedRegion[] = [],
+  {
+    template = DEFAULT_TEMPLATE,
+    variables,
+    hasDetailImage = false,
+    structured = false,
+    page,
+    recognizedText,
+    locateEntities = false,
+  }: PromptOptions = {}
+): string => {
+  const sections = [PROMPT_TEXT, fillTemplate(template, variables)];
+  if (page) sections.push(describePage(page));
+  if (recognizedText?.trim()) {
+    sections.push(describeRecognizedText(recognizedText));
+  }
+  if (hasDetailImage) sections.push(DETAIL_IMAGE_TEXT);
+  if (regions.length > 0) sections.push(describeRegions(regions, structured));
+  if (structured) sections.push(STRUCTURED_TEXT);
+  if (locateEntities) {
+    sections.push(
+      structured ? ENTITY_BOXES_STRUCTURED_TEXT : ENTITY_BOXES_TEXT
+    );
   }
+  return sections.join("\n\n");
+};
+
+// Splits an answer written for buildPrompt's region format into one entry per
+// "### Region N" heading. Returns null when the model ignored the format.
+export const splitAnswerByRegion = (answer: string): RegionAnswer[] | null => {
+  const headings = [...answer.matchAll(REGION_HEADING)];
+  if (headings.length === 0) return null;
+
+  return headings.map((heading, index) => {
+    const start = heading.index! + heading[0].length;
+    const end = headings[index + 1]?.index ?? answer.length;
+    return {
+      number: Number(heading[1]),
+      text: answer.slice(start, end).trim(),
+    };
+  });
+};
+
+interface ExplanationOptions {
+  provider?: VisionProvider;
+  template?: string;
+  variables?: Partial<TemplateVariables>;
+  signal?: AbortSignal;
+  regions?: MarkedRegion[];
+  // Close-up of the marked area, sent alongside the full annotated image.
+  detailImageDataUrl?: string;
+  // Request a StructuredExplanation as JSON instead of free-form text; parse
+  // the reply with parseStructuredExplanation.
+  structured?: boolean;
+  // Set when the image is a page of a PDF.
+  page?: DocumentPage;
+  // OCR text of the marked area, sent as extra context.
+  recognizedText?: string;
+  // Ask for bounding boxes of what the answer mentions: a "boxes" block
+  // after free-form answers (see extractEntityBoxes) or the "entities"
+  // field of structured ones.
+  locateEntities?: boolean;
+  // Temperature, output length and thinking budget from the settings.
+  generation?: GenerationConfig;
+  // Where answers are cached; null disables caching for this call.
+  cache?: ResponseCache | null;
+  // Ask the model again even when a cached answer exists; the new answer
+  // replaces the cached one.
+  skipCache?: boolean;
+  // Called when the answer comes from the cache instead of the provider.
+  onCacheHit?: () => void;
+  // Each attempt fails with a TimeoutError if the model sends nothing for
+  // this long.
+  timeoutMs?: number;
+  // Automatic retries for transient failures: rate limits, timeouts, network
+  // and server errors.
+  retries?: number;
+  onRetry?: RetryOptions["onRetry"];
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
 
-  const base64DataWithoutPrefix = annotatedImageDataBase64.split(",")[1];
-  if (!base64DataWithoutPrefix) {
-    throw new Error("Invalid image data format.");
+interface StreamingExplanationOptions extends ExplanationOptions {
+  // Called with the full text received so far every time a chunk arrives.
+  onText?: (textSoFar: string) => void;
+}
+
+// Shared by every explanation request unless a call passes its own cache.
+export const responseCache = createResponseCache();
+
+// Everything that can change the answer: the provider and model, both images,
+// the full prompt (which already includes the mode and region questions) and
+// the generation settings.
+const getCacheKey = (provider: VisionProvider, request: ExplainRequest) =>
+  hashCacheKey([
+    provider.id,
+    provider.model,
+    request.imageDataUrl,
+    request.detailImageDataUrl ?? "",
+    request.prompt,
+    JSON.stringify(request.responseSchema ?? null),
+    JSON.stringify(request.generation ?? null),
+  ]);
+
+// Serves the answer from the cache when possible; otherwise asks the provider
+// and caches the complete answer. `onCached` receives a cache hit's text.
+const withCache = async (
+  provider: VisionProvider,
+  request: ExplainRequest,
+  {
+    cache = responseCache,
+    skipCache = false,
+    onCacheHit,
+  }: Pick<ExplanationOptions, "cache" | "skipCache" | "onCacheHit">,
+  ask: () => Promise<string>,
+  onCached?: (text: string) => void
+): Promise<string> => {
+  if (!cache) return ask();
+
+  const key = await getCacheKey(provider, request);
+  const cached = skipCache ? null : cache.get(key);
+  if (cached !== null) {
+    onCached?.(cached);
+    onCacheHit?.();
+    return cached;
   }
+  const answer = await ask();
+  cache.set(key, answer);
+  return answer;
+};
 
-  const imagePart: Part = {
-    inlineData: {
-      mimeType: "image/png",
-      data: base64DataWithoutPrefix,
-    },
-  };
+const buildRequest = (
+  annotatedImageDataBase64: string,
+  {
+    signal,
+    regions,
+    detailImageDataUrl,
+    structured = false,
+    template,
+    variables,
+    page,
+    recognizedText,
+    locateEntities,
+    generation,
+  }: ExplanationOptions
+): ExplainRequest => ({
+  imageDataUrl: annotatedImageDataBase64,
+  detailImageDataUrl,
+  prompt: buildPrompt(regions, {
+    template,
+    variables,
+    hasDetailImage: Boolean(detailImageDataUrl),
+    structured,
+    page,
+    recognizedText,
+    locateEntities,
+  }),
+  responseSchema: structured ? STRUCTURED_EXPLANATION_SCHEMA : undefined,
+  generation,
+  signal,
+});
 
-  const textPart: Part = {
-    text: PROMPT_TEXT,
-  };
+export const isVisionProviderConfigured = (): boolean =>
+  getActiveProvider().isConfigured();
 
-  try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: { parts: [imagePart, textPart] },
-    });
+export const getExplanationForImageRegion = (
+  annotatedImageDataBase64: string,
+  { provider = getActiveProvider(), ...options }: ExplanationOptions = {}
+): Promise<string> => {
+  const request = buildRequest(annotatedImageDataBase64, options);
+  return withCache(provider, request, options, () =>
+    runWithPolicy(options, async (signal) => {
+      const result = await provider.explain({ ...request, signal });
+      return result.text;
+    })
+  );
+};
 
-    const explanation = response.text;
-    if (!explanation) {
-      throw new Error("No explanation received from the API.");
-    }
-    return explanation;
-  } catch (error) {
-    console.error("Error calling Gemini API:", error);
-    if (error instanceof Error) {
-      if (error.message.includes("API key not valid")) {
-        throw new Error("Invalid API Key. Please check your configuration.");
+// Runs one provider call per attempt, each under its own inactivity
+// deadline, retrying transient failures with backoff. `canRetry` lets
+// streaming calls give up once text has been shown.
+const runWithPolicy = <T>(
+  {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries,
+    onRetry,
+  }: Pick<ExplanationOptions, "signal" | "timeoutMs" | "retries" | "onRetry">,
+  attempt: (signal: AbortSignal, keepAlive: () => void) => Promise<T>,
+  canRetry: () => boolean = () => true
+): Promise<T> =>
+  withRetry(
+    async () => {
+      const deadline = createDeadline(timeoutMs, signal);
+      try {
+        return await attempt(deadline.signal, deadline.extend);
+      } catch (error) {
+        throw deadline.toError(error);
+      } finally {
+        deadline.dispose();
       }
-      throw new Error(`Gemini API request failed: ${error.message}`);
+    },
+    {
+      retries,
+      signal,
+      onRetry,
+      shouldRetry: (error) => canRetry() && isRetryableError(error),
     }
-    throw new Error(
-      "An unknown error occurred while communicating with the Gemini API."
+  );
+
+const collectStream = async (
+  stream: AsyncGenerator<string>,
+  onText?: (textSoFar: string) => void
+): Promise<string> => {
+  let explanation = "";
+  for await (const chunk of stream) {
+    explanation += chunk;
+    onText?.(explanation);
+  }
+  if (!explanation) {
+    throw new EmptyResponseError();
+  }
+  return explanation;
+};
+
+// A retry after text has streamed in would show the answer twice, so only
+// attempts that failed before the first chunk are retried.
+const streamWithPolicy = (
+  provider: VisionProvider,
+  request: ExplainRequest,
+  options: ExplanationOptions,
+  onText?: (textSoFar: string) => void
+): Promise<string> => {
+  let received = false;
+  return runWithPolicy(
+    options,
+    (signal, keepAlive) =>
+      collectStream(provider.explainStream({ ...request, signal }), (text) => {
+        received = true;
+        keepAlive();
+        onText?.(text);
+      }),
+    () => !received
+  );
+};
+
+export const streamExplanationForImageRegion = (
+  annotatedImageDataBase64: string,
+  {
+    provider = getActiveProvider(),
+    onText,
+    ...options
+  }: StreamingExplanationOptions = {}
+): Promise<string> => {
+  const request = buildRequest(annotatedImageDataBase64, options);
+  return withCache(
+    provider,
+    request,
+    options,
+    () => streamWithPolicy(provider, request, options, onText),
+    onText
+  );
+};
+
+// Asks a follow-up question about the same annotated image. `thread` holds
+// the conversation after the initial prompt (starting with the first
+// explanation) and must end with the user's new question.
+export const streamFollowUpAnswer = (
+  annotatedImageDataBase64: string,
+  thread: ConversationTurn[],
+  {
+    provider = getActiveProvider(),
+    onText,
+    ...options
+  }: StreamingExplanationOptions = {}
+): Promise<string> => {
+  if (thread[thread.length - 1]?.role !== "user") {
+    return Promise.reject(
+      new BadInputError("A follow-up thread must end with a question.")
     );
   }
+  return streamWithPolicy(
+    provider,
+    { ...buildRequest(annotatedImageDataBase64, options), history: thread },
+    options,
+    onText
+  );
 };
@@ -0,0 +1,205 @@
+import { createAbortError } from "./providers/abort";
+import { RateLimitError } from "./providers";
+
+export type JobStatus = "queued" | "running" | "done" | "failed";
+
+export interface Job<T, R> {
+  id: string;
+  // Shown in progress lists and exports, e.g. the image name.
+  label: string;
+  input: T;
+  status: JobStatus;
+  // Runs started so far, including the current one.
+  attempts: number;
+  result?: R;
+  error?: unknown;
+}
+
+export interface JobQueue<T, R> {
+  // Queues new jobs. A job whose id is already queued or running is skipped;
+  // a finished one is replaced and runs again.
+  add: (jobs: { id: string; label: string; input: T }[]) => void;
+  retry: (id: string) => void;
+  retryFailed: () => void;
+  setConcurrency: (concurrency: number) => void;
+  // Aborts running jobs and fails the queued ones; both can be retried.
+  cancel: () => void;
+  clear: () => void;
+  getJobs: () => Job<T, R>[];
+  // Resolves once nothing is queued or running.
+  whenIdle: () => Promise<void>;
+}
+
+interface JobQueueOptions<T, R> {
+  run: (input: T, signal: AbortSignal) => Promise<R>;
+  concurrency?: number;
+  // Runs per job when it keeps hitting rate limits, including the first.
+  maxAttempts?: number;
+  // How long to pause after a rate limit that did not say when to return.
+  rateLimitPauseMs?: number;
+  // Called with a new array whenever any job changes.
+  onChange?: (jobs: Job<T, R>[]) => void;
+}
+
+export const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RATE_LIMIT_PAUSE_MS = 10_000;
+
+// Runs jobs a few at a time. When a job is rate limited the whole queue
+// pauses for as long as the server asked, concurrency is halved, and the job
+// goes back in line instead of failing.
+export const createJobQueue = <T, R>({
+  run,
+  concurrency = DEFAULT_CONCURRENCY,
+  maxAttempts = DEFAULT_MAX_ATTEMPTS,
+  rateLimitPauseMs = DEFAULT_RATE_LIMIT_PAUSE_MS,
+  onChange,
+}: JobQueueOptions<T, R>): JobQueue<T, R> => {
+  let jobs: Job<T, R>[] = [];
+  let limit = Math.max(1, concurrency);
+  let pausedUntil = 0;
+  let resumeTimer: ReturnType<typeof setTimeout> | undefined;
+  const controllers = new Map<string, AbortController>();
+  let idleWaiters: (() => void)[] = [];
+
+  const update = (id: string, patch: Partial<Job<T, R>>) => {
+    jobs = jobs.map((job) => (job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const isIdle = () =>
+    !jobs.some(({ status }) => status === "queued" || status === "running");
+
+  // Settles one run. `clear` forgets runs without waiting for them, and a job
+  // with the same id may have started since, so a run that is no longer the
+  // job's current one changes nothing.
+  const finish = (
+    id: string,
+    controller: AbortController,
+    attempts: number,
+    outcome: Promise<R>
+  ) => {
+    const isCurrent = () => controllers.get(id) === controller;
+    return outcome
+      .then(
+        (result) => {
+          if (isCurrent()) update(id, { status: "done", result });
+        },
+        (error) => {
+          if (!isCurrent()) return;
+          if (
+            !controller.signal.aborted &&
+            error instanceof RateLimitError &&
+            attempts < maxAttempts
+          ) {
+            pausedUntil = Date.now() + (error.retryAfterMs ?? rateLimitPauseMs);
+            limit = Math.max(1, Math.floor(limit / 2));
+            update(id, { status: "queued", error });
+            return;
+          }
+          update(id, { status: "failed", error });
+        }
+      )
+      .finally(() => {
+        if (!isCurrent()) return;
+        controllers.delete(id);
+        pump();
+      });
+  };
+
+  const start = (job: Job<T, R>) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    const attempts = job.attempts + 1;
+    update(job.id, {
+      status: "running",
+      attempts,
+      result: undefined,
+      error: undefined,
+    });
+    let outcome: Promise<R>;
+    try {
+      outcome = run(job.input, controller.signal);
+    } catch (error) {
+      // A synchronous throw fails the job like a rejection would.
+      outcome = Promise.reject(error);
+    }
+    void finish(job.id, controller, attempts, outcome);
+  };
+
+  function pump() {
+    clearTimeout(resumeTimer);
+    const wait = pausedUntil - Date.now();
+    if (wait > 0) {
+      resumeTimer = setTimeout(pump, wait);
+    } else {
+      while (controllers.size < limit) {
+        const next = jobs.find(({ status }) => status === "queued");
+        if (!next) break;
+        start(next);
+      }
+    }
+    onChange?.(jobs);
+    if (isIdle()) {
+      idleWaiters.forEach((resolve) => resolve());
+      idleWaiters = [];
+    }
+  }
+
+  const requeue = (shouldRequeue: (job: Job<T, R>) => boolean) => {
+    jobs = jobs.map((job) =>
+      shouldRequeue(job)
+        ? { ...job, status: "queued", attempts: 0, error: undefined }
+        : job
+    );
+    pump();
+  };
+
+  return {
+    add: (newJobs) => {
+      for (const { id, label, input } of newJobs) {
+        const existing = jobs.find((job) => job.id === id);
+        if (existing?.status === "queued" || existing?.status === "running") {
+          continue;
+        }
+        const job: Job<T, R> = {
+          id,
+          label,
+          input,
+          status: "queued",
+          attempts: 0,
+        };
+        jobs = existing
+          ? jobs.map((other) => (other.id === id ? job : other))
+          : [...jobs, job];
+      }
+      pump();
+    },
+    retry: (id) => requeue((job) => job.id === id && job.status === "failed"),
+    retryFailed: () => requeue((job) => job.status === "failed"),
+    setConcurrency: (next) => {
+      limit = Math.max(1, next);
+      pump();
+    },
+    cancel: () => {
+      const cancelled = createAbortError();
+      jobs = jobs.map((job) =>
+        job.status === "queued"
+          ? { ...job, status: "failed", error: cancelled }
+          : job
+      );
+      controllers.forEach((controller) => controller.abort());
+      pump();
+    },
+    clear: () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+      jobs = [];
+      pump();
+    },
+    getJobs: () => jobs,
+    whenIdle: () =>
+      isIdle()
+        ? Promise.resolve()
+        : new Promise((resolve) => idleWaiters.push(resolve)),
+  };
+};
@@ -0,0 +1,42 @@
+// Converts model Markdown to readable plain text for pasting into places
+// that do not render Markdown. Structure survives as line breaks and "- "
+// bullets; formatting markers, link targets and math delimiters are dropped.
+export const markdownToPlainText = (markdown: string): string =>
+  markdown
+    .replace(/\r\n?/g, "\n")
+    // Code fences: keep the code, drop the fence lines.
+    .replace(/^ {0,3}(`{3,}|~{3,})[^\n]*\n([\s\S]*?)^ {0,3}\1[ \t]*$/gm, "$2")
+    // Display math delimiters on their own lines.
+    .replace(/^[ \t]*\$\$[ \t]*$/gm, "")
+    .replace(/\$\$([^$\n]+)\$\$/g, "$1")
+    .replace(/\\\[([\s\S]+?)\\\]/g, "$1")
+    .replace(/\\\(([\s\S]+?)\\\)/g, "$1")
+    // Images and links keep their text.
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    // Headings, blockquotes and horizontal rules.
+    .replace(/^ {0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, "$1")
+    .replace(/^ {0,3}>[ \t]?/gm, "")
+    .replace(/^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/gm, "")
+    // Bullets become "- "; numbered lists already read as plain text.
+    .replace(/^([ \t]*)[*+-][ \t]+/gm, "$1- ")
+    // Table separator rows, then cell pipes.
+    .replace(
+      /^[ \t]*\|?[ \t]*:?-{3,}:?[ \t]*(\|[ \t]*:?-{3,}:?[ \t]*)*\|?[ \t]*\n/gm,
+      ""
+    )
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) =>
+      cells
+        .split("|")
+        .map((cell) => cell.trim())
+        .join("\t")
+    )
+    // Emphasis, strikethrough and inline code.
+    .replace(/(\*\*|__)(.+?)\1/g, "$2")
+    .replace(/(?<![\w*])([*_])(?!\s)(.+?)(?<!\s)\1(?![\w*])/g, "$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    // HTML is never rendered, so it is not copied either.
+    .replace(/<\/?[a-z][^>]*>/gi, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
@@ -0,0 +1,124 @@
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  // Instructions for the task; `{variable}` placeholders are filled in from
+  // TemplateVariables when the prompt is built.
+  text: string;
+  builtIn?: boolean;
+}
+
+export interface TemplateVariables {
+  language: string;
+  audience_level: string;
+  question: string;
+}
+
+export type TemplateVariableName = keyof TemplateVariables;
+
+export const DEFAULT_TEMPLATE_VARIABLES: TemplateVariables = {
+  language: "English",
+  audience_level: "a general audience",
+  question: "",
+};
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "explain",
+    name: "Explain",
+    text: `Please provide a concise and informative explanation or meaning of the content indicated by these markings.
+Focus only on what is marked. If it's text, explain the text. If it's an object or area, describe it and its context within the markings.
+Be descriptive and clear, and pitch the explanation at {audience_level}.`,
+  },
+  {
+    id: "translate",
+    name: "Translate",
+    text: `Translate the marked text into {language}.
+Give the translation first, then short notes on idioms, ambiguous words or anything that does not translate directly.`,
+  },
+  {
+    id: "define",
+    name: "Define terms",
+    text: `Define each term, word or symbol that is marked, for {audience_level}.
+Give a short definition and, where it helps, an example of how it is used.`,
+  },
+  {
+    id: "summarize",
+    name: "Summarize",
+    text: `Summarize the marked content in a few sentences.
+Keep only the essential points and leave out examples and asides.`,
+  },
+  {
+    id: "solve",
+    name: "Solve / step through",
+    text: `The marked content is a math, science or logic problem.
+Solve it step by step, explaining each step for {audience_level}, and state the final answer clearly at the end.
+If the problem is ambiguous or cut off, say what you assumed.`,
+  },
+  {
+    id: "identify",
+    name: "Identify object",
+    text: `Identify the marked object or area.
+Say what it is, name the species, model, landmark, brand or artwork if you can recognise it, and describe the clues you used.`,
+  },
+].map((template) => ({ ...template, builtIn: true }));
+
+export const DEFAULT_TEMPLATE_ID = "explain";
+
+const VARIABLE_PATTERN = /\{(\w+)\}/g;
+
+// Own keys only, so `{constructor}` or `{toString}` are not variables.
+const isVariableName = (name: string): name is TemplateVariableName =>
+  Object.prototype.hasOwnProperty.call(DEFAULT_TEMPLATE_VARIABLES, name);
+
+// The known variables a template uses, in order of first appearance.
+export const getTemplateVariables = (text: string): TemplateVariableName[] => [
+  ...new Set(
+    [...text.matchAll(VARIABLE_PATTERN)]
+      .map((match) => match[1])
+      .filter(isVariableName)
+  ),
+];
+
+// Replaces known `{variable}` placeholders, falling back to the defaults for
+// empty values. Unknown placeholders are left as written.
+export const fillTemplate = (
+  text: string,
+  variables: Partial<TemplateVariables> = {}
+): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!isVariableName(name)) return placeholder;
+    return variables[name]?.trim() || DEFAULT_TEMPLATE_VARIABLES[name];
+  });
+
+const CUSTOM_TEMPLATES_KEY = "understand-the-underline:prompt-templates";
+
+const isPromptTemplate = (value: unknown): value is PromptTemplate =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as PromptTemplate).id === "string" &&
+  typeof (value as PromptTemplate).name === "string" &&
+  typeof (value as PromptTemplate).text === "string";
+
+export const loadCustomTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(CUSTOM_TEMPLATES_KEY) ?? "[]"
+    );
+    return Array.isArray(stored)
+      ? stored
+          .filter(isPromptTemplate)
+          .map(({ id, name, text }) => ({ id, name, text }))
+      : [];
+  } catch (error) {
+    console.error("Could not load custom prompt templates:", error);
+    return [];
+  }
+};
+
+export const saveCustomTemplates = (templates: PromptTemplate[]): void => {
+  try {
+    localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error("Could not save custom prompt templates:", error);
+  }
+};
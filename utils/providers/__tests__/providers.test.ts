@@ -0,0 +1,396 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AuthError,
+  RateLimitError,
+  SafetyBlockedError,
+  ServerError,
+  TimeoutError,
+  createFakeProvider,
+  createOpenAICompatibleProvider,
+  createProvider,
+  createProxyProvider,
+  setActiveProvider,
+} from '..';
+import {
+  getExplanationForImageRegion,
+  isAbortError,
+  parseStructuredExplanation,
+  responseCache,
+  streamExplanationForImageRegion,
+  streamFollowUpAnswer,
+} from '../../geminiService';
+
+const IMAGE_DATA_URL = 'data:image/png;base64,aGVsbG8=';
+
+describe('vision providers', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    setActiveProvider(null);
+    responseCache.clear();
+  });
+
+  it('creates the provider named in the config', () => {
+    expect(createProvider({ provider: 'fake' }).id).toBe('fake');
+    expect(
+      createProvider({ provider: 'openai-compatible', model: 'llava' }).id
+    ).toBe('openai-compatible');
+  });
+
+  it('returns a deterministic answer from the fake provider', async () => {
+    const provider = createFakeProvider();
+    const first = await provider.explain({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' });
+    const second = await provider.explain({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' });
+
+    expect(first).toEqual(second);
+    expect(first.metadata.provider).toBe('fake');
+    expect(provider.isConfigured()).toBe(true);
+  });
+
+  it('rejects malformed image data', async () => {
+    const provider = createFakeProvider();
+    await expect(
+      provider.explain({ imageDataUrl: 'not-a-data-url', prompt: 'Explain' })
+    ).rejects.toThrow('Invalid image data format.');
+  });
+
+  it('posts a chat-completions request to the OpenAI-compatible server', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(
+        JSON.stringify({ choices: [{ message: { content: 'A cat.' } }] }),
+        { status: 200 }
+      )
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createOpenAICompatibleProvider({
+      model: 'llava',
+      baseUrl: 'http://localhost:11434/v1/',
+    });
+    const result = await provider.explain({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' });
+
+    expect(result.text).toBe('A cat.');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('llava');
+    expect(body.messages[0].content[1].image_url.url).toBe(IMAGE_DATA_URL);
+  });
+
+  it('sends the generation settings with OpenAI-compatible requests', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: 'A cat.' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await getExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: createOpenAICompatibleProvider({ model: 'llava' }),
+      generation: { temperature: 0.2, maxOutputTokens: 512, thinkingBudget: 128 },
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.temperature).toBe(0.2);
+    expect(body.max_tokens).toBe(512);
+    expect(body).not.toHaveProperty('thinkingBudget');
+  });
+
+  it('sends the marked-area close-up as a second image', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: 'A cat.' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const detailImageDataUrl = 'data:image/jpeg;base64,ZGV0YWls';
+
+    await getExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: createOpenAICompatibleProvider({ model: 'llava' }),
+      detailImageDataUrl,
+    });
+
+    const { messages } = JSON.parse(fetchMock.mock.calls[0][1].body);
+    const images = messages[0].content.filter((part: { type: string }) => part.type === 'image_url');
+    expect(images.map((part: { image_url: { url: string } }) => part.image_url.url)).toEqual([
+      IMAGE_DATA_URL,
+      detailImageDataUrl,
+    ]);
+    expect(messages[0].content[0].text).toContain('close-up');
+  });
+
+  it('asks the OpenAI-compatible server for JSON in structured mode', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: '{}' } }] }), { status: 200 })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    await getExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: createOpenAICompatibleProvider({ model: 'llava' }),
+      structured: true,
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.response_format.type).toBe('json_schema');
+    expect(body.response_format.json_schema.schema.required).toContain('extractedText');
+  });
+
+  it('returns a parseable structured answer from the fake provider', async () => {
+    const answer = await streamExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: createFakeProvider(),
+      structured: true,
+    });
+
+    expect(parseStructuredExplanation(answer)).toMatchObject({
+      summary: 'Fake summary',
+      keyTerms: [{ term: 'Fake term', definition: 'Fake definition' }],
+    });
+  });
+
+  it('surfaces HTTP errors from the OpenAI-compatible server', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response('model not found', { status: 404 }))
+    );
+    const provider = createOpenAICompatibleProvider({ model: 'missing' });
+
+    await expect(
+      provider.explain({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' })
+    ).rejects.toThrow('Model server request failed (404): model not found');
+  });
+
+  it('routes getExplanationForImageRegion through the active provider', async () => {
+    setActiveProvider(createFakeProvider({ response: 'Fixed answer' }));
+
+    await expect(getExplanationForImageRegion(IMAGE_DATA_URL)).resolves.toBe('Fixed answer');
+  });
+
+  it('streams text from the OpenAI-compatible server', async () => {
+    const events = [
+      'data: {"choices":[{"delta":{"content":"A "}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"cat."}}]}\n\ndata: [DONE]\n\n',
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        events.forEach((event) => controller.enqueue(new TextEncoder().encode(event)));
+        controller.close();
+      },
+    });
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+    const onText = vi.fn();
+    const explanation = await streamExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: createOpenAICompatibleProvider({ model: 'llava' }),
+      onText,
+    });
+
+    expect(explanation).toBe('A cat.');
+    expect(onText).toHaveBeenNthCalledWith(1, 'A ');
+    expect(onText).toHaveBeenNthCalledWith(2, 'A cat.');
+  });
+
+  it('keeps the last server-sent event when the stream ends without a newline', async () => {
+    const body = new Response('data: {"choices":[{"delta":{"content":"A "}}]}\n\ndata: {"choices":[{"delta":{"content":"cat."}}]}').body;
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+    const chunks: string[] = [];
+    for await (const chunk of createOpenAICompatibleProvider({ model: 'llava' }).explainStream({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['A ', 'cat.']);
+  });
+
+  it('reports a malformed server-sent event as a server error', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('data: {"choices":[\n\n', { status: 200 })));
+
+    const stream = createOpenAICompatibleProvider({ model: 'llava' }).explainStream({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' });
+    const error = await stream.next().catch((err) => err);
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.message).toContain('malformed stream event');
+  });
+
+  it('keeps the last line of a proxy stream that ends without a newline', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{"text":"A "}\n{"text":"cat."}', { status: 200 })));
+
+    const chunks: string[] = [];
+    for await (const chunk of createProxyProvider().explainStream({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['A ', 'cat.']);
+  });
+
+  it('reports a malformed proxy stream line as a server error', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('{"text":"A "}\n<html>Bad Gateway\n', { status: 200 })));
+
+    const stream = createProxyProvider().explainStream({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' });
+    expect(await stream.next()).toEqual({ done: false, value: 'A ' });
+    const error = await stream.next().catch((err) => err);
+
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.message).toContain('malformed stream line: <html>Bad Gateway');
+  });
+
+  it('throws the error a proxy stream ends with, with or without a trailing newline', async () => {
+    for (const body of ['{"text":"A "}\n{"error":{"kind":"rate-limit","message":"Slow down."}}\n', '{"text":"A "}\n{"error":{"kind":"rate-limit","message":"Slow down."}}']) {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+      const chunks: string[] = [];
+
+      const error = await (async () => {
+        for await (const chunk of createProxyProvider().explainStream({ imageDataUrl: IMAGE_DATA_URL, prompt: 'Explain' })) {
+          chunks.push(chunk);
+        }
+      })().catch((err) => err);
+
+      expect(chunks).toEqual(['A ']);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.message).toBe('Slow down.');
+    }
+  });
+
+  it('stops streaming when the signal is aborted and keeps the partial text', async () => {
+    const controller = new AbortController();
+    const received: string[] = [];
+    const provider = createFakeProvider({ response: 'one two three four' });
+
+    const error = await streamExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider,
+      signal: controller.signal,
+      onText: (text) => {
+        received.push(text);
+        if (received.length === 2) controller.abort();
+      },
+    }).catch((err) => err);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(received[received.length - 1]).toBe('one two ');
+  });
+
+  it('does not serve a cached answer made with other generation settings', async () => {
+    const provider = createFakeProvider();
+    const explain = vi.spyOn(provider, 'explain');
+
+    await getExplanationForImageRegion(IMAGE_DATA_URL, { provider, generation: { temperature: 0 } });
+    await getExplanationForImageRegion(IMAGE_DATA_URL, { provider, generation: { temperature: 1 } });
+    await getExplanationForImageRegion(IMAGE_DATA_URL, { provider, generation: { temperature: 1 } });
+
+    expect(explain).toHaveBeenCalledTimes(2);
+    expect(explain.mock.calls[1][0].generation).toEqual({ temperature: 1 });
+  });
+
+  it('answers a repeated request from the cache unless asked to skip it', async () => {
+    const provider = createFakeProvider();
+    const explainStream = vi.spyOn(provider, 'explainStream');
+    const onCacheHit = vi.fn();
+    const onText = vi.fn();
+
+    const first = await streamExplanationForImageRegion(IMAGE_DATA_URL, { provider });
+    const second = await streamExplanationForImageRegion(IMAGE_DATA_URL, { provider, onCacheHit, onText });
+
+    expect(second).toBe(first);
+    expect(explainStream).toHaveBeenCalledTimes(1);
+    expect(onCacheHit).toHaveBeenCalledTimes(1);
+    expect(onText).toHaveBeenCalledWith(first);
+
+    await streamExplanationForImageRegion(IMAGE_DATA_URL, { provider, skipCache: true });
+    expect(explainStream).toHaveBeenCalledTimes(2);
+
+    await streamExplanationForImageRegion(IMAGE_DATA_URL, { provider, template: 'Summarize it.' });
+    expect(explainStream).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries a rate-limited request and then succeeds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(
+        new Response('slow down', { status: 429, headers: { 'Retry-After': '0' } })
+      )
+      .mockResolvedValueOnce(
+        new Response(JSON.stringify({ choices: [{ message: { content: 'A cat.' } }] }), { status: 200 })
+      );
+    vi.stubGlobal('fetch', fetchMock);
+    const onRetry = vi.fn();
+
+    const answer = await getExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: createOpenAICompatibleProvider({ model: 'llava' }),
+      onRetry,
+    });
+
+    expect(answer).toBe('A cat.');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(RateLimitError), 0);
+    vi.restoreAllMocks();
+  });
+
+  it('does not retry an authentication failure', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response('bad key', { status: 401 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await getExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider: createOpenAICompatibleProvider({ model: 'llava' }),
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a content-filtered answer as blocked by safety filters', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        new Response(
+          JSON.stringify({ choices: [{ message: { content: '' }, finish_reason: 'content_filter' }] }),
+          { status: 200 }
+        )
+      )
+    );
+
+    await expect(
+      getExplanationForImageRegion(IMAGE_DATA_URL, {
+        provider: createOpenAICompatibleProvider({ model: 'llava' }),
+      })
+    ).rejects.toBeInstanceOf(SafetyBlockedError);
+  });
+
+  it('times out a stream that stops sending data', async () => {
+    const provider = createFakeProvider({ chunkDelayMs: 200 });
+
+    const error = await streamExplanationForImageRegion(IMAGE_DATA_URL, {
+      provider,
+      timeoutMs: 20,
+      retries: 0,
+    }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+
+  it('sends prior turns as context for follow-up questions', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response('data: {"choices":[{"delta":{"content":"Simpler."}}]}\n\ndata: [DONE]\n\n', {
+        status: 200,
+      })
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const answer = await streamFollowUpAnswer(
+      IMAGE_DATA_URL,
+      [
+        { role: 'model', text: 'A mitochondrion.' },
+        { role: 'user', text: 'Explain it simpler' },
+      ],
+      { provider: createOpenAICompatibleProvider({ model: 'llava' }) }
+    );
+
+    expect(answer).toBe('Simpler.');
+    const { messages } = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(messages).toHaveLength(3);
+    expect(messages[1]).toEqual({ role: 'assistant', content: 'A mitochondrion.' });
+    expect(messages[2]).toEqual({ role: 'user', content: 'Explain it simpler' });
+  });
+
+  it('rejects a follow-up thread that does not end with a question', async () => {
+    await expect(
+      streamFollowUpAnswer(IMAGE_DATA_URL, [{ role: 'model', text: 'Answer' }], {
+        provider: createFakeProvider(),
+      })
+    ).rejects.toThrow('A follow-up thread must end with a question.');
+  });
+});
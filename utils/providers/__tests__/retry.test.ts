@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  AuthError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  createDeadline,
+  errorForStatus,
+  getBackoffDelay,
+  parseRetryAfter,
+  withRetry,
+} from '..';
+
+describe('withRetry', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries retryable failures until one succeeds', async () => {
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(new ServerError('busy'))
+      .mockResolvedValueOnce('done');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(run, { onRetry, random: () => 0 })).resolves.toBe('done');
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(ServerError), 0);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const run = vi.fn().mockRejectedValue(new AuthError('bad key'));
+
+    await expect(withRetry(run, { random: () => 0 })).rejects.toBeInstanceOf(AuthError);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const run = vi.fn().mockRejectedValue(new ServerError('down'));
+
+    await expect(withRetry(run, { retries: 3, random: () => 0 })).rejects.toThrow('down');
+    expect(run).toHaveBeenCalledTimes(4);
+  });
+
+  it('waits at least as long as the server asks after a rate limit', async () => {
+    vi.useFakeTimers();
+    const run = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('slow down', { retryAfterMs: 3000 }))
+      .mockResolvedValueOnce('done');
+    const onRetry = vi.fn();
+
+    const result = withRetry(run, { onRetry, random: () => 0 });
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(run).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('done');
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(RateLimitError), 3000);
+  });
+
+  it('grows the backoff window exponentially up to the maximum', () => {
+    const random = () => 1;
+    expect(getBackoffDelay(0, { random })).toBe(500);
+    expect(getBackoffDelay(2, { random })).toBe(2000);
+    expect(getBackoffDelay(10, { random })).toBe(8000);
+  });
+});
+
+describe('error classification', () => {
+  it('maps HTTP statuses to error kinds', () => {
+    expect(errorForStatus(401, 'no').kind).toBe('auth');
+    expect(errorForStatus(429, 'no').kind).toBe('rate-limit');
+    expect(errorForStatus(503, 'no').retryable).toBe(true);
+    expect(errorForStatus(400, 'no').retryable).toBe(false);
+  });
+
+  it('parses Retry-After as seconds or as a date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('createDeadline', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports a passed deadline as a TimeoutError', () => {
+    vi.useFakeTimers();
+    const deadline = createDeadline(1000);
+    vi.advanceTimersByTime(1000);
+
+    expect(deadline.signal.aborted).toBe(true);
+    expect(deadline.toError(new Error('aborted'))).toBeInstanceOf(TimeoutError);
+    deadline.dispose();
+  });
+
+  it('keeps an outer cancellation as the original error', () => {
+    const outer = new AbortController();
+    const deadline = createDeadline(1000, outer.signal);
+    outer.abort();
+    const error = new Error('aborted');
+
+    expect(deadline.signal.aborted).toBe(true);
+    expect(deadline.toError(error)).toBe(error);
+    deadline.dispose();
+  });
+});
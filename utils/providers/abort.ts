@@ -0,0 +1,12 @@
+export const createAbortError = (): DOMException =>
+  new DOMException("The request was cancelled.", "AbortError");
+
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException || error instanceof Error) &&
+  error.name === "AbortError";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
@@ -0,0 +1,181 @@
+export type VisionErrorKind =
+  | "auth"
+  | "rate-limit"
+  | "safety"
+  | "empty-response"
+  | "timeout"
+  | "network"
+  | "server"
+  | "bad-input";
+
+interface VisionErrorOptions {
+  status?: number;
+  cause?: unknown;
+}
+
+// Base class for classified provider failures. `retryable` marks failures
+// that may succeed if the same request is sent again.
+export class VisionError extends Error {
+  readonly kind: VisionErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+  // The underlying SDK or fetch error, kept for logging.
+  readonly cause?: unknown;
+
+  constructor(
+    kind: VisionErrorKind,
+    message: string,
+    retryable: boolean,
+    { status, cause }: VisionErrorOptions = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = status;
+    this.cause = cause;
+  }
+}
+
+export class AuthError extends VisionError {
+  constructor(message: string, options?: VisionErrorOptions) {
+    super("auth", message, false, options);
+  }
+}
+
+export class RateLimitError extends VisionError {
+  // From the server's Retry-After header, when it sent one.
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    {
+      retryAfterMs,
+      ...options
+    }: VisionErrorOptions & { retryAfterMs?: number } = {}
+  ) {
+    super("rate-limit", message, true, options);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockedError extends VisionError {
+  constructor(message: string, options?: VisionErrorOptions) {
+    super("safety", message, false, options);
+  }
+}
+
+export class EmptyResponseError extends VisionError {
+  constructor(
+    message = "No explanation received from the API.",
+    options?: VisionErrorOptions
+  ) {
+    super("empty-response", message, true, options);
+  }
+}
+
+export class TimeoutError extends VisionError {
+  constructor(message: string, options?: VisionErrorOptions) {
+    super("timeout", message, true, options);
+  }
+}
+
+export class NetworkError extends VisionError {
+  constructor(message: string, options?: VisionErrorOptions) {
+    super("network", message, true, options);
+  }
+}
+
+export class ServerError extends VisionError {
+  constructor(message: string, options?: VisionErrorOptions) {
+    super("server", message, true, options);
+  }
+}
+
+export class BadInputError extends VisionError {
+  constructor(message: string, options?: VisionErrorOptions) {
+    super("bad-input", message, false, options);
+  }
+}
+
+export const isVisionError = (error: unknown): error is VisionError =>
+  error instanceof VisionError;
+
+export const isRetryableError = (error: unknown): boolean =>
+  isVisionError(error) && error.retryable;
+
+// Parses a Retry-After header given in seconds or as an HTTP date.
+export const parseRetryAfter = (
+  header: string | null | undefined,
+  now = Date.now()
+): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Maps an HTTP failure to the matching error class. `message` is shown to
+// the user as is.
+export const errorForStatus = (
+  status: number,
+  message: string,
+  { retryAfterMs, cause }: { retryAfterMs?: number; cause?: unknown } = {}
+): VisionError => {
+  if (status === 401 || status === 403) {
+    return new AuthError(message, { status, cause });
+  }
+  if (status === 429) {
+    return new RateLimitError(message, { status, cause, retryAfterMs });
+  }
+  if (status === 408) return new TimeoutError(message, { status, cause });
+  if (status >= 500) return new ServerError(message, { status, cause });
+  return new BadInputError(message, { status, cause });
+};
+
+const VISION_ERROR_KINDS: VisionErrorKind[] = [
+  "auth",
+  "rate-limit",
+  "safety",
+  "empty-response",
+  "timeout",
+  "network",
+  "server",
+  "bad-input",
+];
+
+export const isVisionErrorKind = (value: unknown): value is VisionErrorKind =>
+  VISION_ERROR_KINDS.includes(value as VisionErrorKind);
+
+// Rebuilds a classified error from its kind, e.g. one reported by the proxy
+// server, which cannot be told apart by HTTP status alone.
+export const errorForKind = (
+  kind: VisionErrorKind,
+  message: string,
+  {
+    status,
+    retryAfterMs,
+    cause,
+  }: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+): VisionError => {
+  const options = { status, cause };
+  switch (kind) {
+    case "auth":
+      return new AuthError(message, options);
+    case "rate-limit":
+      return new RateLimitError(message, { ...options, retryAfterMs });
+    case "safety":
+      return new SafetyBlockedError(message, options);
+    case "empty-response":
+      return new EmptyResponseError(message, options);
+    case "timeout":
+      return new TimeoutError(message, options);
+    case "network":
+      return new NetworkError(message, options);
+    case "server":
+      return new ServerError(message, options);
+    case "bad-input":
+      return new BadInputError(message, options);
+  }
+};
@@ -0,0 +1,95 @@
+import { throwIfAborted } from "./abort";
+import { parseImageDataUrl } from "./imageData";
+import {
+  ExplainRequest,
+  ExplainResult,
+  ResponseSchema,
+  VisionProvider,
+} from "./types";
+
+export const FAKE_MODEL = "fake-vision-1";
+
+interface FakeProviderOptions {
+  // Fixed answer to return; by default the answer is derived from the request.
+  response?: string;
+  // Delay between streamed words, to exercise loading and cancel states.
+  chunkDelayMs?: number;
+}
+
+// Fills every field of a schema with a placeholder derived from its name.
+const fakeValueFor = (schema: ResponseSchema, name: string): unknown => {
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          fakeValueFor(value, key),
+        ])
+      );
+    case "array":
+      if (schema.items?.type === "integer") {
+        // Integer lists are box_2d corners; a box around the image's centre.
+        return [250, 250, 750, 750];
+      }
+      return schema.items ? [fakeValueFor(schema.items, name)] : [];
+    case "string":
+      return `Fake ${name}`;
+    case "integer":
+      return 500;
+  }
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Deterministic provider for tests and offline development: no key, no network.
+export const createFakeProvider = ({
+  response,
+  chunkDelayMs = 0,
+}: FakeProviderOptions = {}): VisionProvider => {
+  const answerFor = ({
+    imageDataUrl,
+    detailImageDataUrl,
+    prompt,
+    history = [],
+    responseSchema,
+  }: ExplainRequest) => {
+    const { mimeType, data } = parseImageDataUrl(imageDataUrl);
+    if (detailImageDataUrl) parseImageDataUrl(detailImageDataUrl);
+    if (response !== undefined) return response;
+
+    const question = history[history.length - 1];
+    if (question?.role === "user") {
+      return `Fake follow-up answer to "${question.text}" after ${history.length} turns.`;
+    }
+    if (responseSchema) {
+      return JSON.stringify(fakeValueFor(responseSchema, "response"));
+    }
+    const closeUp = detailImageDataUrl ? " with a close-up" : "";
+    return `Fake explanation for a ${mimeType} image (${data.length} base64 characters)${closeUp} using a ${prompt.length}-character prompt.`;
+  };
+
+  const explain = async (request: ExplainRequest): Promise<ExplainResult> => {
+    throwIfAborted(request.signal);
+    return {
+      text: answerFor(request),
+      metadata: { provider: "fake", model: FAKE_MODEL, durationMs: 0 },
+    };
+  };
+
+  async function* explainStream(request: ExplainRequest) {
+    const words = answerFor(request).split(/(?<=\s)/);
+    for (const word of words) {
+      if (chunkDelayMs > 0) await wait(chunkDelayMs);
+      throwIfAborted(request.signal);
+      yield word;
+    }
+  }
+
+  return {
+    id: "fake",
+    model: FAKE_MODEL,
+    isConfigured: () => true,
+    explain,
+    explainStream,
+  };
+};
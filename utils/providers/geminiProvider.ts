@@ -0,0 +1,212 @@
+import {
+  Content,
+  GoogleGenAI,
+  GenerateContentResponse,
+  Part,
+  Schema,
+  Type,
+} from "@google/genai";
+import { isAbortError, throwIfAborted } from "./abort";
+import {
+  AuthError,
+  EmptyResponseError,
+  errorForStatus,
+  isVisionError,
+  NetworkError,
+  SafetyBlockedError,
+} from "./errors";
+import { parseImageDataUrl } from "./imageData";
+import {
+  ExplainRequest,
+  ExplainResult,
+  ResponseSchema,
+  VisionProvider,
+} from "./types";
+
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
+
+interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+const GEMINI_TYPES: Record<ResponseSchema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  integer: Type.INTEGER,
+};
+
+const toGeminiSchema = ({
+  type,
+  description,
+  properties,
+  required,
+  items,
+}: ResponseSchema): Schema => ({
+  type: GEMINI_TYPES[type],
+  description,
+  required,
+  properties:
+    properties &&
+    Object.fromEntries(
+      Object.entries(properties).map(([key, value]) => [
+        key,
+        toGeminiSchema(value),
+      ])
+    ),
+  items: items && toGeminiSchema(items),
+});
+
+// The SDK reports HTTP failures only through the message, e.g.
+// "got status: 429 Too Many Requests. {...}".
+const STATUS_PATTERN = /got status: (\d{3})/;
+
+const BLOCKING_FINISH_REASONS = new Set([
+  "SAFETY",
+  "PROHIBITED_CONTENT",
+  "BLOCKLIST",
+  "SPII",
+  "IMAGE_SAFETY",
+]);
+
+// Throws when Gemini withheld the answer for safety reasons, which otherwise
+// looks like an empty response.
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (
+    blockReason ||
+    (finishReason && BLOCKING_FINISH_REASONS.has(finishReason))
+  ) {
+    throw new SafetyBlockedError(
+      `Gemini blocked this request (${blockReason ?? finishReason}).`
+    );
+  }
+};
+
+const toGeminiError = (error: unknown): unknown => {
+  if (isAbortError(error) || isVisionError(error)) return error;
+  console.error("Error calling Gemini API:", error);
+  if (error instanceof Error) {
+    if (error.message.includes("API key not valid")) {
+      return new AuthError(
+        "Invalid API Key. Please check your configuration.",
+        { cause: error }
+      );
+    }
+    const message = `Gemini API request failed: ${error.message}`;
+    const status = STATUS_PATTERN.exec(error.message)?.[1];
+    if (status)
+      return errorForStatus(Number(status), message, { cause: error });
+    // fetch() rejects with a TypeError when the network is unreachable.
+    if (error instanceof TypeError) {
+      return new NetworkError(
+        `Could not reach the Gemini API: ${error.message}`,
+        { cause: error }
+      );
+    }
+    return new Error(message);
+  }
+  return new Error(
+    "An unknown error occurred while communicating with the Gemini API."
+  );
+};
+
+export const createGeminiProvider = ({
+  apiKey,
+  model = DEFAULT_GEMINI_MODEL,
+}: GeminiProviderOptions): VisionProvider => {
+  const ai = new GoogleGenAI({ apiKey: apiKey || "" });
+
+  const buildParams = ({
+    imageDataUrl,
+    detailImageDataUrl,
+    prompt,
+    history = [],
+    responseSchema,
+    generation: { temperature, maxOutputTokens, thinkingBudget } = {},
+    signal,
+  }: ExplainRequest) => {
+    if (!apiKey) {
+      throw new AuthError("No Gemini API key is set. Add one in Settings.");
+    }
+
+    const imageParts: Part[] = [imageDataUrl, detailImageDataUrl]
+      .filter((url): url is string => Boolean(url))
+      .map((url) => ({ inlineData: parseImageDataUrl(url) }));
+    const textPart: Part = { text: prompt };
+
+    const contents: Content[] = [
+      { role: "user", parts: [...imageParts, textPart] },
+      ...history.map((turn) => ({
+        role: turn.role,
+        parts: [{ text: turn.text }],
+      })),
+    ];
+
+    return {
+      model,
+      contents,
+      config: {
+        abortSignal: signal,
+        temperature,
+        maxOutputTokens,
+        ...(thinkingBudget !== undefined && {
+          thinkingConfig: { thinkingBudget },
+        }),
+        ...(responseSchema && {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(responseSchema),
+        }),
+      },
+    };
+  };
+
+  const explain = async (request: ExplainRequest): Promise<ExplainResult> => {
+    const params = buildParams(request);
+    const startedAt = Date.now();
+    try {
+      const response: GenerateContentResponse =
+        await ai.models.generateContent(params);
+
+      throwIfBlocked(response);
+      const explanation = response.text;
+      if (!explanation) {
+        throw new EmptyResponseError();
+      }
+      return {
+        text: explanation,
+        metadata: {
+          provider: "gemini",
+          model,
+          durationMs: Date.now() - startedAt,
+        },
+      };
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  };
+
+  async function* explainStream(request: ExplainRequest) {
+    const params = buildParams(request);
+    try {
+      const stream = await ai.models.generateContentStream(params);
+      for await (const chunk of stream) {
+        throwIfAborted(request.signal);
+        throwIfBlocked(chunk);
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  }
+
+  return {
+    id: "gemini",
+    model,
+    isConfigured: () => Boolean(apiKey),
+    explain,
+    explainStream,
+  };
+};
@@ -0,0 +1,14 @@
+import { BadInputError } from "./errors";
+
+export interface ParsedImageData {
+  mimeType: string;
+  data: string;
+}
+
+export const parseImageDataUrl = (dataUrl: string): ParsedImageData => {
+  const match = /^data:([^;,]+);base64,(.+)$/.exec(dataUrl);
+  if (!match) {
+    throw new BadInputError("Invalid image data format.");
+  }
+  return { mimeType: match[1], data: match[2] };
+};
@@ -0,0 +1,82 @@
+import { createFakeProvider } from "./fakeProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { ProviderConfig, ProviderId, VisionProvider } from "./types";
+
+export type {
+  ConversationTurn,
+  ExplainRequest,
+  ExplainResult,
+  GenerationConfig,
+  ProviderConfig,
+  ProviderId,
+  ResponseSchema,
+  VisionProvider,
+} from "./types";
+export { isAbortError } from "./abort";
+export * from "./errors";
+export * from "./retry";
+export { createFakeProvider } from "./fakeProvider";
+export { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+export { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+export type {
+  ProxyErrorBody,
+  ProxyExplainBody,
+  ProxyExplainResponse,
+  ProxyStreamLine,
+} from "./proxyProvider";
+export { createProxyProvider, DEFAULT_PROXY_BASE_URL } from "./proxyProvider";
+export { parseImageDataUrl } from "./imageData";
+
+export const PROVIDER_IDS: ProviderId[] = [
+  "gemini",
+  "openai-compatible",
+  "proxy",
+  "fake",
+];
+
+export const createProvider = (config: ProviderConfig): VisionProvider => {
+  switch (config.provider) {
+    case "gemini":
+      return createGeminiProvider(config);
+    case "openai-compatible":
+      return createOpenAICompatibleProvider(config);
+    case "proxy":
+      return createProxyProvider(config);
+    case "fake":
+      return createFakeProvider();
+  }
+};
+
+// Values are injected at build time by vite.config.ts from VISION_*. API keys
+// are never built in; users enter them in the settings dialog.
+export const getProviderConfigFromEnv = (): ProviderConfig => {
+  const requested = process.env.VISION_PROVIDER as ProviderId | undefined;
+  const provider =
+    requested && PROVIDER_IDS.includes(requested) ? requested : "gemini";
+  if (requested && provider !== requested) {
+    console.warn(
+      `Unknown VISION_PROVIDER "${requested}", falling back to "gemini".`
+    );
+  }
+  return {
+    provider,
+    model: process.env.VISION_MODEL || undefined,
+    baseUrl: process.env.VISION_BASE_URL || undefined,
+  };
+};
+
+let activeProvider: VisionProvider | null = null;
+
+export const getActiveProvider = (): VisionProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(getProviderConfigFromEnv());
+  }
+  return activeProvider;
+};
+
+// Swap the provider at runtime (e.g. a fake in tests). Pass null to go back to env config.
+export const setActiveProvider = (provider: VisionProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,220 @@
+import { isAbortError } from "./abort";
+import {
+  BadInputError,
+  EmptyResponseError,
+  errorForStatus,
+  NetworkError,
+  parseRetryAfter,
+  SafetyBlockedError,
+  ServerError,
+} from "./errors";
+import { ExplainRequest, ExplainResult, VisionProvider } from "./types";
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = "http://localhost:11434/v1";
+
+interface OpenAICompatibleProviderOptions {
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: {
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: {
+    delta?: { content?: string | null };
+    finish_reason?: string | null;
+  }[];
+}
+
+const CONTENT_FILTER_MESSAGE =
+  "The model server's content filter blocked this answer.";
+
+// Returns the text carried by one server-sent events line, null once the
+// stream says `[DONE]`, or undefined for lines without text.
+const parseEvent = (line: string): string | null | undefined => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return undefined;
+  const payload = trimmed.slice("data:".length).trim();
+  if (payload === "[DONE]") return null;
+
+  let chunk: ChatCompletionChunk;
+  try {
+    chunk = JSON.parse(payload) as ChatCompletionChunk;
+  } catch (error) {
+    throw new ServerError(
+      `Model server sent a malformed stream event: ${payload.slice(0, 200)}`,
+      { cause: error }
+    );
+  }
+  const choice = chunk.choices?.[0];
+  if (choice?.finish_reason === "content_filter") {
+    throw new SafetyBlockedError(CONTENT_FILTER_MESSAGE);
+  }
+  return choice?.delta?.content ?? undefined;
+};
+
+// Speaks the OpenAI chat-completions protocol, which Ollama, vLLM, LM Studio
+// and most self-hosted inference servers expose.
+export const createOpenAICompatibleProvider = ({
+  model = "",
+  apiKey,
+  baseUrl = DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+}: OpenAICompatibleProviderOptions): VisionProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const postChatCompletion = async (
+    {
+      imageDataUrl,
+      detailImageDataUrl,
+      prompt,
+      history = [],
+      responseSchema,
+      generation: { temperature, maxOutputTokens } = {},
+      signal,
+    }: ExplainRequest,
+    stream: boolean
+  ): Promise<Response> => {
+    if (!model) {
+      throw new BadInputError(
+        "No model configured for the OpenAI-compatible provider."
+      );
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          stream,
+          temperature,
+          max_tokens: maxOutputTokens,
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: prompt },
+                { type: "image_url", image_url: { url: imageDataUrl } },
+                ...(detailImageDataUrl
+                  ? [
+                      {
+                        type: "image_url",
+                        image_url: { url: detailImageDataUrl },
+                      },
+                    ]
+                  : []),
+              ],
+            },
+            ...history.map((turn) => ({
+              role: turn.role === "model" ? "assistant" : "user",
+              content: turn.text,
+            })),
+          ],
+          ...(responseSchema && {
+            response_format: {
+              type: "json_schema",
+              json_schema: { name: "response", schema: responseSchema },
+            },
+          }),
+        }),
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(
+        `Could not reach model server at ${baseUrl}: ${message}`,
+        { cause: error }
+      );
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw errorForStatus(
+        response.status,
+        `Model server request failed (${response.status}): ${
+          detail || response.statusText
+        }`,
+        { retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")) }
+      );
+    }
+    return response;
+  };
+
+  const explain = async (request: ExplainRequest): Promise<ExplainResult> => {
+    const startedAt = Date.now();
+    const response = await postChatCompletion(request, false);
+    const body = (await response.json()) as ChatCompletionResponse;
+    const choice = body.choices?.[0];
+    if (choice?.finish_reason === "content_filter") {
+      throw new SafetyBlockedError(CONTENT_FILTER_MESSAGE);
+    }
+    const explanation = choice?.message?.content;
+    if (!explanation) {
+      throw new EmptyResponseError();
+    }
+    return {
+      text: explanation,
+      metadata: {
+        provider: "openai-compatible",
+        model,
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  };
+
+  // Parses the server-sent events stream: one `data: {json}` line per chunk,
+  // terminated by `data: [DONE]`.
+  async function* explainStream(request: ExplainRequest) {
+    const response = await postChatCompletion(request, true);
+    if (!response.body) {
+      throw new EmptyResponseError("Model server returned an empty stream.");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const delta = parseEvent(line);
+          if (delta === null) return;
+          if (delta) yield delta;
+        }
+      }
+      // The last event may end without a newline
+      const delta = parseEvent(buffer + decoder.decode());
+      if (delta) yield delta;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return {
+    id: "openai-compatible",
+    model,
+    isConfigured: () => Boolean(model),
+    explain,
+    explainStream,
+  };
+};
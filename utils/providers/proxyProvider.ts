@@ -0,0 +1,177 @@
+import { isAbortError } from "./abort";
+import {
+  EmptyResponseError,
+  errorForKind,
+  errorForStatus,
+  isVisionErrorKind,
+  NetworkError,
+  parseRetryAfter,
+  ServerError,
+  VisionErrorKind,
+} from "./errors";
+import { ExplainRequest, ExplainResult, VisionProvider } from "./types";
+
+// Same origin as the app, which the proxy server also serves.
+export const DEFAULT_PROXY_BASE_URL = "/api";
+
+// Body of POST <baseUrl>/explain: the request without its signal.
+export interface ProxyExplainBody extends Omit<ExplainRequest, "signal"> {
+  stream?: boolean;
+}
+
+// Sent with a failed request's status, or as the last line of a stream that
+// failed after it started.
+export interface ProxyErrorBody {
+  error: { kind: VisionErrorKind; message: string };
+}
+
+// A streamed reply is newline-delimited JSON, one of these per line.
+export type ProxyStreamLine = { text: string } | ProxyErrorBody;
+
+// The result from the provider the server forwarded to.
+export type ProxyExplainResponse = ExplainResult;
+
+interface ProxyProviderOptions {
+  baseUrl?: string;
+}
+
+const isErrorBody = (value: unknown): value is ProxyErrorBody =>
+  typeof value === "object" &&
+  value !== null &&
+  "error" in value &&
+  isVisionErrorKind((value as ProxyErrorBody).error?.kind);
+
+// The text in one line of a streamed reply; throws the error a failed stream
+// ends with.
+const parseStreamLine = (line: string): string | undefined => {
+  if (!line.trim()) return undefined;
+
+  let message: ProxyStreamLine;
+  try {
+    message = JSON.parse(line) as ProxyStreamLine;
+  } catch (error) {
+    throw new ServerError(
+      `Proxy server sent a malformed stream line: ${line.slice(0, 200)}`,
+      { cause: error }
+    );
+  }
+  if ("error" in message) {
+    throw errorForKind(message.error.kind, message.error.message);
+  }
+  return message.text || undefined;
+};
+
+const errorFromResponse = async (response: Response) => {
+  const detail = await response.text().catch(() => "");
+  const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+  try {
+    const body: unknown = JSON.parse(detail);
+    if (isErrorBody(body)) {
+      return errorForKind(body.error.kind, body.error.message, {
+        status: response.status,
+        retryAfterMs,
+      });
+    }
+  } catch {
+    // Not one of ours, e.g. an error page from a reverse proxy
+  }
+  return errorForStatus(
+    response.status,
+    `Proxy server request failed (${response.status}): ${
+      detail || response.statusText
+    }`,
+    { retryAfterMs }
+  );
+};
+
+// Sends requests to the app's own server (see server/), which holds the API
+// key and forwards them to the model, so the key never reaches the browser.
+export const createProxyProvider = ({
+  baseUrl = DEFAULT_PROXY_BASE_URL,
+}: ProxyProviderOptions = {}): VisionProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/explain`;
+
+  const post = async (
+    { signal, ...request }: ExplainRequest,
+    stream: boolean
+  ): Promise<Response> => {
+    const body: ProxyExplainBody = { ...request, stream };
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal,
+        body: JSON.stringify(body),
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(
+        `Could not reach the proxy server at ${endpoint}: ${message}`,
+        { cause: error }
+      );
+    }
+    if (!response.ok) throw await errorFromResponse(response);
+    return response;
+  };
+
+  const explain = async (request: ExplainRequest): Promise<ExplainResult> => {
+    const startedAt = Date.now();
+    const response = await post(request, false);
+    const { text, metadata } = (await response.json()) as ProxyExplainResponse;
+    if (!text) {
+      throw new EmptyResponseError();
+    }
+    return {
+      text,
+      metadata: {
+        provider: "proxy",
+        model: metadata?.model ?? "",
+        durationMs: Date.now() - startedAt,
+      },
+    };
+  };
+
+  async function* explainStream(request: ExplainRequest) {
+    const response = await post(request, true);
+    if (!response.body) {
+      throw new EmptyResponseError(
+        "The proxy server returned an empty stream."
+      );
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const text = parseStreamLine(line);
+          if (text) yield text;
+        }
+      }
+
+      // The last line may end without a newline
+      const text = parseStreamLine(buffer + decoder.decode());
+      if (text) yield text;
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  return {
+    id: "proxy",
+    // The server picks the model
+    model: "",
+    isConfigured: () => true,
+    explain,
+    explainStream,
+  };
+};
@@ -0,0 +1,123 @@
+import { createAbortError, throwIfAborted } from "./abort";
+import { isRetryableError, RateLimitError, TimeoutError } from "./errors";
+
+export interface RetryOptions {
+  // Attempts after the first one.
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  // Called before waiting to retry; `attempt` counts from 1.
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+  // Decides whether a failure is worth retrying; defaults to isRetryableError.
+  shouldRetry?: (error: unknown) => boolean;
+  random?: () => number;
+}
+
+export const DEFAULT_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 8000;
+
+// "Full jitter" exponential backoff: a random delay up to base * 2^attempt,
+// so clients that failed together do not retry together.
+export const getBackoffDelay = (
+  attempt: number,
+  {
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    random = Math.random,
+  }: Pick<RetryOptions, "baseDelayMs" | "maxDelayMs" | "random"> = {}
+): number =>
+  Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    throwIfAborted(signal);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(
+  run: (attempt: number) => Promise<T>,
+  {
+    retries = DEFAULT_RETRIES,
+    signal,
+    onRetry,
+    shouldRetry = isRetryableError,
+    ...backoff
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run(attempt);
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = Math.max(
+        getBackoffDelay(attempt, backoff),
+        error instanceof RateLimitError ? (error.retryAfterMs ?? 0) : 0
+      );
+      onRetry?.(attempt + 1, error, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
+
+export interface Deadline {
+  // Aborted by the caller's signal or when the deadline passes.
+  signal: AbortSignal;
+  // Pushes the deadline back, e.g. whenever a stream delivers data.
+  extend: () => void;
+  // Turns the abort caused by the deadline into a TimeoutError.
+  toError: (error: unknown) => unknown;
+  dispose: () => void;
+}
+
+// An inactivity timeout linked to an outer signal. Aborting the outer signal
+// still surfaces as a plain AbortError so cancellation is not reported as a
+// failure.
+export const createDeadline = (
+  timeoutMs: number,
+  outer?: AbortSignal
+): Deadline => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const extend = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onOuterAbort = () => controller.abort();
+
+  if (outer?.aborted) controller.abort();
+  outer?.addEventListener("abort", onOuterAbort, { once: true });
+  extend();
+
+  return {
+    signal: controller.signal,
+    extend,
+    toError: (error) =>
+      timedOut && !outer?.aborted
+        ? new TimeoutError(
+            `The model did not respond within ${Math.round(timeoutMs / 1000)} seconds.`,
+            { cause: error }
+          )
+        : error,
+    dispose: () => {
+      clearTimeout(timer);
+      outer?.removeEventListener("abort", onOuterAbort);
+    },
+  };
+};
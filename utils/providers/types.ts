@@ -0,0 +1,68 @@
+export type ProviderId = "gemini" | "openai-compatible" | "proxy" | "fake";
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model?: string;
+  apiKey?: string;
+  // Used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1 for
+  // Ollama, and by the proxy provider, e.g. /api.
+  baseUrl?: string;
+}
+
+export interface ConversationTurn {
+  role: "user" | "model";
+  text: string;
+}
+
+// The subset of JSON Schema that every provider can translate into its own
+// structured-output format.
+export interface ResponseSchema {
+  type: "object" | "array" | "string" | "integer";
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+  items?: ResponseSchema;
+}
+
+// Sampling and length settings; fields left unset use the model's defaults.
+export interface GenerationConfig {
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Tokens the model may spend thinking before it answers; 0 turns thinking
+  // off on models that allow it. Only Gemini uses this.
+  thinkingBudget?: number;
+}
+
+export interface ExplainRequest {
+  // A data URL (data:image/png;base64,...) of the annotated image.
+  imageDataUrl: string;
+  // Optional close-up of the marked area, sent after the full image.
+  detailImageDataUrl?: string;
+  prompt: string;
+  // Turns that follow the initial image + prompt message, oldest first.
+  // When present, the last turn is the user's follow-up question.
+  history?: ConversationTurn[];
+  // When set, the model is asked to reply with JSON matching this schema.
+  responseSchema?: ResponseSchema;
+  generation?: GenerationConfig;
+  signal?: AbortSignal;
+}
+
+export interface ExplainResult {
+  text: string;
+  metadata: {
+    provider: ProviderId;
+    model: string;
+    durationMs: number;
+  };
+}
+
+export interface VisionProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  isConfigured: () => boolean;
+  explain: (request: ExplainRequest) => Promise<ExplainResult>;
+  // Yields text deltas as they arrive. Aborting the request's signal ends the
+  // stream with an AbortError.
+  explainStream: (request: ExplainRequest) => AsyncGenerator<string>;
+}
@@ -0,0 +1,128 @@
+export interface CacheEntry {
+  text: string;
+  createdAt: number;
+}
+
+export interface ResponseCache {
+  get: (key: string) => string | null;
+  set: (key: string, text: string) => void;
+  clear: () => void;
+}
+
+interface ResponseCacheOptions {
+  // Entries older than this are ignored and pruned.
+  ttlMs?: number;
+  // Most entries kept in memory; the least recently used are dropped first.
+  maxMemoryEntries?: number;
+  // Approximate size budget, in characters, of the persistent store.
+  maxStoredChars?: number;
+  // Where persistent entries live; null keeps the cache in memory only.
+  storage?: Storage | null;
+  storageKey?: string;
+  now?: () => number;
+}
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_MEMORY_ENTRIES = 50;
+const DEFAULT_MAX_STORED_CHARS = 1_000_000;
+const DEFAULT_STORAGE_KEY = "understand-the-underline:response-cache";
+
+const toHex = (buffer: ArrayBuffer) =>
+  [...new Uint8Array(buffer)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+// Content address for a request: a SHA-256 over every part that can change
+// the answer. Parts are length-prefixed so ["ab", "c"] and ["a", "bc"] differ.
+export const hashCacheKey = async (parts: string[]): Promise<string> => {
+  const input = parts.map((part) => `${part.length}:${part}`).join("|");
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(input)
+  );
+  return toHex(digest);
+};
+
+const getDefaultStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch {
+    // Accessing localStorage throws when storage is disabled.
+    return null;
+  }
+};
+
+// Two-level cache: a small in-memory LRU in front of a persistent store.
+// Lookups that miss memory fall through to storage and are promoted.
+export const createResponseCache = ({
+  ttlMs = DEFAULT_CACHE_TTL_MS,
+  maxMemoryEntries = DEFAULT_MAX_MEMORY_ENTRIES,
+  maxStoredChars = DEFAULT_MAX_STORED_CHARS,
+  storage = getDefaultStorage(),
+  storageKey = DEFAULT_STORAGE_KEY,
+  now = Date.now,
+}: ResponseCacheOptions = {}): ResponseCache => {
+  const memory = new Map<string, CacheEntry>();
+
+  const isFresh = (entry: CacheEntry) => now() - entry.createdAt < ttlMs;
+
+  const readStored = (): Record<string, CacheEntry> => {
+    if (!storage) return {};
+    try {
+      const stored = JSON.parse(storage.getItem(storageKey) ?? "{}");
+      return typeof stored === "object" && stored !== null ? stored : {};
+    } catch {
+      return {};
+    }
+  };
+
+  // Drops expired entries, then the oldest ones until the store fits.
+  const writeStored = (entries: Record<string, CacheEntry>) => {
+    if (!storage) return;
+    const kept = Object.entries(entries)
+      .filter(([, entry]) => isFresh(entry))
+      .sort(([, a], [, b]) => b.createdAt - a.createdAt);
+    let size = 0;
+    const fitting = kept.filter(([key, entry]) => {
+      size += key.length + entry.text.length;
+      return size <= maxStoredChars;
+    });
+    try {
+      storage.setItem(storageKey, JSON.stringify(Object.fromEntries(fitting)));
+    } catch (error) {
+      // Quota errors only cost us persistence; the memory cache still works.
+      console.error("Could not persist the response cache:", error);
+    }
+  };
+
+  const remember = (key: string, entry: CacheEntry) => {
+    memory.delete(key);
+    memory.set(key, entry);
+    while (memory.size > maxMemoryEntries) {
+      memory.delete(memory.keys().next().value!);
+    }
+  };
+
+  const get = (key: string): string | null => {
+    const entry = memory.get(key) ?? readStored()[key];
+    if (!entry || typeof entry.text !== "string" || !isFresh(entry)) {
+      memory.delete(key);
+      return null;
+    }
+    remember(key, entry);
+    return entry.text;
+  };
+
+  const set = (key: string, text: string) => {
+    const entry = { text, createdAt: now() };
+    remember(key, entry);
+    writeStored({ ...readStored(), [key]: entry });
+  };
+
+  const clear = () => {
+    memory.clear();
+    storage?.removeItem(storageKey);
+  };
+
+  return { get, set, clear };
+};
@@ -0,0 +1,173 @@
+import {
+  createProvider,
+  DEFAULT_GEMINI_MODEL,
+  GenerationConfig,
+  getProviderConfigFromEnv,
+  ProviderConfig,
+  VisionProvider,
+} from "./providers";
+
+// What the user chose in the settings dialog. Unset generation fields use the
+// model's defaults.
+export interface UserSettings extends GenerationConfig {
+  // Kept in this browser's local storage, never in the bundle.
+  apiKey: string;
+  // Empty uses VISION_MODEL or the provider's default.
+  model: string;
+}
+
+export type SettingsErrors = Partial<Record<keyof UserSettings, string>>;
+
+export interface ModelOption {
+  id: string;
+  name: string;
+  // The thinking budgets the model accepts, in tokens.
+  thinking: { min: number; max: number; canDisable: boolean };
+}
+
+export const GEMINI_MODELS: ModelOption[] = [
+  {
+    id: DEFAULT_GEMINI_MODEL,
+    name: "Gemini 2.5 Flash (balanced)",
+    thinking: { min: 1, max: 24576, canDisable: true },
+  },
+  {
+    id: "gemini-2.5-pro",
+    name: "Gemini 2.5 Pro (most capable, slower)",
+    thinking: { min: 128, max: 32768, canDisable: false },
+  },
+  {
+    id: "gemini-2.5-flash-lite",
+    name: "Gemini 2.5 Flash-Lite (fastest)",
+    thinking: { min: 512, max: 24576, canDisable: true },
+  },
+];
+
+export const DEFAULT_SETTINGS: UserSettings = { apiKey: "", model: "" };
+
+export const MAX_TEMPERATURE = 2;
+export const MAX_OUTPUT_TOKENS = 65536;
+
+const SETTINGS_KEY = "understand-the-underline:settings";
+
+const isWholeNumber = (value: number) => Number.isInteger(value);
+
+// Checks each field against what the provider and model accept. Returns one
+// message per invalid field; an empty object means the settings can be used.
+export const validateSettings = (
+  { apiKey, model, temperature, maxOutputTokens, thinkingBudget }: UserSettings,
+  {
+    provider,
+    model: defaultModel = DEFAULT_GEMINI_MODEL,
+  }: Pick<ProviderConfig, "provider" | "model"> = getProviderConfigFromEnv()
+): SettingsErrors => {
+  const errors: SettingsErrors = {};
+  if (/\s/.test(apiKey.trim())) {
+    errors.apiKey = "An API key cannot contain spaces or line breaks.";
+  }
+  if (
+    temperature !== undefined &&
+    !(temperature >= 0 && temperature <= MAX_TEMPERATURE)
+  ) {
+    errors.temperature = `Temperature must be between 0 and ${MAX_TEMPERATURE}.`;
+  }
+  if (
+    maxOutputTokens !== undefined &&
+    !(
+      isWholeNumber(maxOutputTokens) &&
+      maxOutputTokens >= 1 &&
+      maxOutputTokens <= MAX_OUTPUT_TOKENS
+    )
+  ) {
+    errors.maxOutputTokens = `Output length must be a whole number from 1 to ${MAX_OUTPUT_TOKENS}.`;
+  }
+  if (thinkingBudget !== undefined && provider === "gemini") {
+    const { thinking } =
+      GEMINI_MODELS.find(({ id }) => id === (model || defaultModel)) ??
+      GEMINI_MODELS[0];
+    const range = `${thinking.min} to ${thinking.max} tokens`;
+    if (!isWholeNumber(thinkingBudget)) {
+      errors.thinkingBudget = "The thinking budget must be a whole number.";
+    } else if (thinkingBudget === 0) {
+      if (!thinking.canDisable) {
+        errors.thinkingBudget = `This model cannot turn thinking off; use ${range}.`;
+      }
+    } else if (thinkingBudget < thinking.min || thinkingBudget > thinking.max) {
+      errors.thinkingBudget = `This model accepts a thinking budget of ${range}${
+        thinking.canDisable ? ", or 0 to turn thinking off" : ""
+      }.`;
+    } else if (
+      maxOutputTokens !== undefined &&
+      !errors.maxOutputTokens &&
+      maxOutputTokens <= thinkingBudget
+    ) {
+      // Thinking counts towards the output limit
+      errors.maxOutputTokens =
+        "Allow more output tokens than the thinking budget, or the answer will be cut off.";
+    }
+  }
+  return errors;
+};
+
+const optionalNumber = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) ? value : undefined;
+
+// Reads the saved settings, dropping any field that is missing, malformed or
+// no longer valid.
+export const loadSettings = (): UserSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? "{}");
+    if (typeof stored !== "object" || stored === null) return DEFAULT_SETTINGS;
+    const settings: UserSettings = {
+      apiKey: typeof stored.apiKey === "string" ? stored.apiKey : "",
+      model: typeof stored.model === "string" ? stored.model : "",
+      temperature: optionalNumber(stored.temperature),
+      maxOutputTokens: optionalNumber(stored.maxOutputTokens),
+      thinkingBudget: optionalNumber(stored.thinkingBudget),
+    };
+    const errors = validateSettings(settings);
+    return Object.fromEntries(
+      Object.entries(settings).map(([field, value]) => [
+        field,
+        field in errors ? DEFAULT_SETTINGS[field as keyof UserSettings] : value,
+      ])
+    ) as UserSettings;
+  } catch (error) {
+    console.error("Could not load the settings:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: UserSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Could not save the settings:", error);
+  }
+};
+
+// The generation fields to send with every request, or undefined when all of
+// them are left at the model's defaults.
+export const toGenerationConfig = ({
+  temperature,
+  maxOutputTokens,
+  thinkingBudget,
+}: UserSettings): GenerationConfig | undefined =>
+  temperature === undefined &&
+  maxOutputTokens === undefined &&
+  thinkingBudget === undefined
+    ? undefined
+    : { temperature, maxOutputTokens, thinkingBudget };
+
+// The provider from the build-time config, with the user's key and model.
+export const createProviderForSettings = ({
+  apiKey,
+  model,
+}: UserSettings): VisionProvider => {
+  const config = getProviderConfigFromEnv();
+  return createProvider({
+    ...config,
+    apiKey: apiKey.trim() || undefined,
+    model: model || config.model,
+  });
+};
@@ -0,0 +1,159 @@
+import {
+  ENTITY_BOXES_SCHEMA,
+  EntityBox,
+  parseEntityBoxes,
+} from "./entityBoxes";
+import { ResponseSchema } from "./providers";
+
+export interface KeyTerm {
+  term: string;
+  definition: string;
+}
+
+export interface StructuredExplanation {
+  summary: string;
+  // The marked text copied verbatim; empty when the marking is not text.
+  extractedText: string;
+  // Language of the extracted text, e.g. "German"; empty when there is none.
+  language: string;
+  explanation: string;
+  keyTerms: KeyTerm[];
+  // How sure the model is, and what limited it (blur, cut-off text, ...).
+  confidenceNote: string;
+  // Where the things the explanation mentions are; only present when they
+  // were asked for.
+  entities?: EntityBox[];
+}
+
+const STRING_FIELDS = [
+  "summary",
+  "extractedText",
+  "language",
+  "explanation",
+  "confidenceNote",
+] as const;
+
+export const STRUCTURED_EXPLANATION_SCHEMA: ResponseSchema = {
+  type: "object",
+  properties: {
+    summary: {
+      type: "string",
+      description: "One or two sentences on what is marked.",
+    },
+    extractedText: {
+      type: "string",
+      description:
+        "The marked text transcribed verbatim, or an empty string if nothing textual is marked.",
+    },
+    language: {
+      type: "string",
+      description:
+        "The language of the extracted text in English, e.g. German, or an empty string.",
+    },
+    explanation: {
+      type: "string",
+      description: "The detailed explanation of the marked content.",
+    },
+    keyTerms: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          term: { type: "string" },
+          definition: { type: "string" },
+        },
+        required: ["term", "definition"],
+      },
+    },
+    confidenceNote: {
+      type: "string",
+      description:
+        "How confident the answer is and anything that limited it, such as blur or cut-off text.",
+    },
+    entities: ENTITY_BOXES_SCHEMA,
+  },
+  required: [...STRING_FIELDS, "keyTerms"],
+};
+
+// The structured answer as Markdown, for copying and for plain-text export.
+export const structuredExplanationToMarkdown = ({
+  summary,
+  extractedText,
+  language,
+  explanation,
+  keyTerms,
+  confidenceNote,
+}: StructuredExplanation): string => {
+  const sections = [`## Summary\n\n${summary}`];
+  if (extractedText) {
+    const heading = language
+      ? `Extracted text (${language})`
+      : "Extracted text";
+    const quoted = extractedText
+      .split("\n")
+      .map((line) => `> ${line}`)
+      .join("\n");
+    sections.push(`## ${heading}\n\n${quoted}`);
+  }
+  sections.push(`## Explanation\n\n${explanation}`);
+  if (keyTerms.length > 0) {
+    const terms = keyTerms
+      .map(({ term, definition }) => `- **${term}**: ${definition}`)
+      .join("\n");
+    sections.push(`## Key terms\n\n${terms}`);
+  }
+  if (confidenceNote) sections.push(`_${confidenceNote}_`);
+  return sections.join("\n\n");
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isKeyTerm = (value: unknown): value is KeyTerm =>
+  isRecord(value) &&
+  typeof value.term === "string" &&
+  typeof value.definition === "string";
+
+// Some models wrap JSON in a Markdown code fence even when asked not to.
+const stripCodeFence = (text: string) =>
+  text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+
+// Validates a model reply against STRUCTURED_EXPLANATION_SCHEMA. Returns null
+// when the reply is not JSON or does not have the expected shape, so callers
+// can fall back to showing it as plain text.
+export const parseStructuredExplanation = (
+  text: string
+): StructuredExplanation | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(text));
+  } catch {
+    return null;
+  }
+  if (!isRecord(value)) return null;
+
+  if (STRING_FIELDS.some((field) => typeof value[field] !== "string")) {
+    return null;
+  }
+  if (!Array.isArray(value.keyTerms) || !value.keyTerms.every(isKeyTerm)) {
+    return null;
+  }
+
+  return {
+    summary: value.summary as string,
+    extractedText: value.extractedText as string,
+    language: value.language as string,
+    explanation: value.explanation as string,
+    keyTerms: value.keyTerms.map(({ term, definition }) => ({
+      term,
+      definition,
+    })),
+    confidenceNote: value.confidenceNote as string,
+    ...(Array.isArray(value.entities) && {
+      entities: parseEntityBoxes(value.entities),
+    }),
+  };
+};
@@ -5,9 +5,14 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER),
+        'process.env.VISION_MODEL': JSON.stringify(env.VISION_MODEL),
+        'process.env.VISION_BASE_URL': JSON.stringify(env.VISION_BASE_URL)
       },
+      // In proxy mode `npm run dev` forwards /api to the server from `npm run serve`
+      server: env.VISION_PROVIDER === 'proxy' ? {
+        proxy: { '/api': env.PROXY_TARGET || 'http://127.0.0.1:8787' }
+      } : undefined,
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),